@@ -1,5 +1,11 @@
 import { lazy, Suspense } from 'react';
 import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { useAuth } from './contexts/AuthContext';
+import { Button } from './components/ui/button';
+import { TabLayout } from './components/layout/TabLayout';
+import { BackButtonController } from './components/layout/BackButtonController';
+import { StartParamRouter } from './components/layout/StartParamRouter';
 
 // Lazy load page components for code splitting
 const HistoryPage = lazy(() => import('./pages/HistoryPage'));
@@ -9,6 +15,9 @@ const CategoryStatsPage = lazy(() => import('./pages/CategoryStatsPage'));
 const DebtsPage = lazy(() => import('./pages/DebtsPage'));
 const AccountsPage = lazy(() => import('./pages/AccountsPage'));
 const SettingsPage = lazy(() => import('./pages/SettingsPage'));
+const CategoriesSettingsPage = lazy(() => import('./pages/CategoriesSettingsPage'));
+const RecurringPage = lazy(() => import('./pages/RecurringPage'));
+const BudgetsPage = lazy(() => import('./pages/BudgetsPage'));
 
 // Loading fallback component
 function LoadingFallback() {
@@ -19,21 +28,55 @@ function LoadingFallback() {
   );
 }
 
+// Shown when the API client could not re-authenticate the current session
+function SessionExpiredScreen() {
+  const { t } = useTranslation();
+  const { refetch } = useAuth();
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-4">
+      <div className="text-center space-y-3">
+        <div className="text-4xl">🔒</div>
+        <h2 className="text-xl font-semibold text-foreground">{t('common.error')}</h2>
+        <p className="text-muted-foreground">{t('errors.sessionExpired')}</p>
+        <Button onClick={() => refetch()} className="rounded-2xl">
+          {t('common.retry')}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
 function App() {
+  const { status } = useAuth();
+
+  if (status === 'session_expired') {
+    return <SessionExpiredScreen />;
+  }
+
   return (
     <BrowserRouter>
-      <Suspense fallback={<LoadingFallback />}>
-        <Routes>
-          <Route path="/" element={<Navigate to="/history" replace />} />
-          <Route path="/history" element={<HistoryPage />} />
-          <Route path="/transaction" element={<TransactionPage />} />
-          <Route path="/stats" element={<StatsPage />} />
-          <Route path="/stats/category/:categoryId" element={<CategoryStatsPage />} />
-          <Route path="/debts" element={<DebtsPage />} />
-          <Route path="/accounts" element={<AccountsPage />} />
-          <Route path="/settings" element={<SettingsPage />} />
-        </Routes>
-      </Suspense>
+      <BackButtonController>
+        <StartParamRouter />
+        <Suspense fallback={<LoadingFallback />}>
+          <Routes>
+            <Route path="/" element={<Navigate to="/history" replace />} />
+            {/* full-screen form driven by the MainButton, no tab bar */}
+            <Route path="/transaction" element={<TransactionPage />} />
+            <Route element={<TabLayout fallback={<LoadingFallback />} />}>
+              <Route path="/history" element={<HistoryPage />} />
+              <Route path="/stats" element={<StatsPage />} />
+              <Route path="/stats/category/:categoryId" element={<CategoryStatsPage />} />
+              <Route path="/stats/budgets" element={<BudgetsPage />} />
+              <Route path="/recurring" element={<RecurringPage />} />
+              <Route path="/debts" element={<DebtsPage />} />
+              <Route path="/accounts" element={<AccountsPage />} />
+              <Route path="/settings" element={<SettingsPage />} />
+              <Route path="/settings/categories" element={<CategoriesSettingsPage />} />
+            </Route>
+          </Routes>
+        </Suspense>
+      </BackButtonController>
     </BrowserRouter>
   );
 }
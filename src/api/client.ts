@@ -1,31 +1,56 @@
-import axios, { type AxiosInstance, type AxiosError } from 'axios';
+import axios, { type AxiosInstance, type AxiosError, type InternalAxiosRequestConfig } from 'axios';
 import type {
   Account,
   User,
   Transaction,
   TransactionsResponse,
+  CreateTransactionRequest,
+  UpdateTransactionRequest,
   Category,
   Subcategory,
   StatsGroupBy,
   StatsTxType,
   TimeseriesStatsView,
+  TimeseriesDataPoint,
   CategoryStatsView,
   SubcategoryStatsView,
   BalanceTimeseriesMode,
   BalanceTimeseriesView,
   Debt,
   DebtsResponse,
+  CreateDebtRequest,
+  RecurringRule,
+  CreateRecurringRuleRequest,
+  UpdateRecurringRuleRequest,
+  Budget,
+  CreateBudgetRequest,
+  UpdateBudgetRequest,
   ParseTextView,
   ParseTextDebtView,
   ParseImageView,
   ParseAudioView,
   AccountStatsView,
   StatsCompareView,
+  StatsComparePeriod,
+  FxRateView,
 } from '../core/types';
 import { authService } from '../services/auth.service';
+import { CloudCollection } from '../services/cloudStore.service';
+
+type RetriableRequestConfig = InternalAxiosRequestConfig & { _retry?: boolean };
+
+// the backend has no recurring or budget endpoints: both are kept in Telegram CloudStorage
+const recurringRules = new CloudCollection<RecurringRule>('recurring');
+const budgets = new CloudCollection<Budget>('budget');
+
+function isAuthFailure(error: AxiosError, config?: RetriableRequestConfig) {
+  const status = error.response?.status;
+  return status === 401 || status === 403 || (status === 404 && !!config?.url?.includes('/users/me'));
+}
 
 class APIClient {
   private client: AxiosInstance;
+  private reauthPromise: Promise<string> | null = null;
 
   constructor() {
     this.client = axios.create({
@@ -45,7 +70,7 @@ class APIClient {
       },
     });
 
-    // BAD MODE: attach token if present. Do NOT auto-authenticate here.
+    // attach token if present
     this.client.interceptors.request.use(
       (config) => {
         const token = authService.getToken();
@@ -57,25 +82,62 @@ class APIClient {
       (error) => Promise.reject(error)
     );
 
-    // BAD MODE: if unauthorized -> clear token and bubble error.
+    // if unauthorized -> re-auth once (shared by all failed requests) and replay
     this.client.interceptors.response.use(
       (response) => response,
       async (error: AxiosError) => {
-        const originalRequest = error.config as any;
-
-        if (
-          error.response?.status === 401 ||
-          error.response?.status === 403 ||
-          (error.response?.status === 404 && originalRequest?.url?.includes('/users/me'))
-        ) {
-          authService.clearToken();
+        const originalRequest = error.config as RetriableRequestConfig | undefined;
+
+        if (!originalRequest || !isAuthFailure(error, originalRequest)) {
+          return Promise.reject(error);
+        }
+
+        // sent with a token that another request has already replaced: replay, don't wipe the fresh one
+        const current = authService.getToken();
+        if (current && originalRequest.headers.Authorization !== `Bearer ${current}` && !originalRequest._retry) {
+          originalRequest._retry = true;
+          originalRequest.headers.Authorization = `Bearer ${current}`;
+          return this.client(originalRequest);
+        }
+
+        authService.clearToken();
+
+        if (originalRequest._retry) {
+          authService.notifySessionExpired();
+          return Promise.reject(error);
         }
 
-        return Promise.reject(error);
+        originalRequest._retry = true;
+
+        try {
+          const token = await this.reauthenticate();
+          originalRequest.headers.Authorization = `Bearer ${token}`;
+          return this.client(originalRequest);
+        } catch {
+          authService.notifySessionExpired();
+          return Promise.reject(error);
+        }
       }
     );
   }
 
+  /**
+   * Single-flight re-auth: concurrent 401s wait on the same promise,
+   * so Telegram auth runs once and every queued request is replayed after it.
+   */
+  private reauthenticate(): Promise<string> {
+    if (!this.reauthPromise) {
+      this.reauthPromise = (async () => {
+        const initData = authService.getInitData();
+        if (!initData) throw new Error('Telegram init data is not available');
+        return authService.authenticateWithInitData(initData);
+      })().finally(() => {
+        this.reauthPromise = null;
+      });
+    }
+    return this.reauthPromise;
+  }
+
   setToken(token: string) {
     authService.setToken(token);
   }
@@ -101,7 +163,12 @@ class APIClient {
     return res.data;
   }
 
-  async createAccount(data: { name: string; balance?: number; is_default?: boolean }): Promise<Account> {
+  async createAccount(data: {
+    name: string;
+    balance?: number;
+    currency_code?: string;
+    is_default?: boolean;
+  }): Promise<Account> {
     const res = await this.client.post<Account>('/accounts', data);
     return res.data;
   }
@@ -162,34 +229,31 @@ class APIClient {
     return res.data;
   }
 
+  /** Ids of every matching transaction, paged through so bulk edits don't shift the offsets */
+  async getTransactionIds(params: {
+    category_ids?: number[];
+    subcategory_ids?: number[];
+    account_ids?: string[];
+  }): Promise<string[]> {
+    const ids: string[] = [];
+    for (let offset = 0; ; offset += 200) {
+      const res = await this.getTransactions({ ...params, limit: 200, offset });
+      ids.push(...res.items.map((tx) => tx.id));
+      if (res.items.length < 200) return ids;
+    }
+  }
+
   async getTransaction(id: string): Promise<Transaction> {
     const res = await this.client.get<Transaction>(`/transactions/${id}`);
     return res.data;
   }
 
-  async createTransaction(data: {
-    account_id: string;
-    type: 'withdrawal' | 'deposit';
-    amount: number;
-    currency_code?: string;
-    category_id?: number;
-    subcategory_id?: number;
-    note?: string;
-    performed_at?: string;
-    original_amount?: number;
-    original_currency_code?: string;
-    fx_rate?: number;
-  }): Promise<Transaction> {
+  async createTransaction(data: CreateTransactionRequest): Promise<Transaction> {
     const res = await this.client.post<Transaction>('/transactions', data);
     return res.data;
   }
 
-  async updateTransaction(id: string, data: {
-    category_id?: number;
-    subcategory_id?: number;
-    note?: string;
-    performed_at?: string;
-  }): Promise<Transaction> {
+  async updateTransaction(id: string, data: UpdateTransactionRequest): Promise<Transaction> {
     const res = await this.client.put<Transaction>(`/transactions/${id}`, data);
     return res.data;
   }
@@ -212,6 +276,51 @@ class APIClient {
     return res.data;
   }
 
+  /**
+   * Income/expense series from deposits and withdrawals only. `type` is the one filter
+   * /stats/timeseries documents, so transfers and adjustments are kept out explicitly.
+   */
+  async getStatsIncomeExpenseTimeseries(
+    params: Omit<Parameters<APIClient['getStatsTimeseries']>[0], 'type'>
+  ): Promise<TimeseriesStatsView> {
+    const [income, expense] = await Promise.all([
+      this.getStatsTimeseries({ ...params, type: 'deposit' }),
+      this.getStatsTimeseries({ ...params, type: 'withdrawal' }),
+    ]);
+
+    const byTs = new Map<string, TimeseriesDataPoint>();
+    const point = (ts: string) => {
+      const p = byTs.get(ts) ?? { ts, income: 0, expense: 0, net: 0, count: 0 };
+      byTs.set(ts, p);
+      return p;
+    };
+    for (const p of income.points) {
+      const row = point(p.ts);
+      row.income = p.income;
+      row.count += p.count;
+    }
+    for (const p of expense.points) {
+      const row = point(p.ts);
+      row.expense = p.expense;
+      row.count += p.count;
+    }
+
+    const points = [...byTs.values()]
+      .map((p) => ({ ...p, net: p.income - p.expense }))
+      .sort((a, b) => a.ts.localeCompare(b.ts));
+
+    return {
+      ...income,
+      points,
+      totals: {
+        income: income.totals.income,
+        expense: expense.totals.expense,
+        net: income.totals.income - expense.totals.expense,
+        count: income.totals.count + expense.totals.count,
+      },
+    };
+  }
+
   async getStatsBalanceTimeseries(params: {
     from: string;
     to: string;
@@ -251,7 +360,7 @@ class APIClient {
   }
 
   async getStatsCompare(params: {
-    period?: 'this_month_vs_last_month' | 'last_7_days_vs_previous_7_days' | 'this_year_vs_last_year';
+    period?: StatsComparePeriod;
     base_from?: string;
     base_to?: string;
     compare_from?: string;
@@ -264,6 +373,21 @@ class APIClient {
     return res.data;
   }
 
+  // --- Exports ---
+  /** Hosts a generated file so Telegram's downloadFile can fetch it over https */
+  async uploadExport(file: Blob, fileName: string): Promise<{ url: string }> {
+    const form = new FormData();
+    form.append('file', file, fileName);
+    const res = await this.client.post<{ url: string }>('/exports', form, { timeout: 60000 });
+    return res.data;
+  }
+
+  // --- FX ---
+  async getFxRate(params: { from: string; to: string; date: string }): Promise<FxRateView> {
+    const res = await this.client.get<FxRateView>('/fx/rates', { params });
+    return res.data;
+  }
+
   // --- Debts ---
   async getDebts(params?: {
     limit?: number;
@@ -281,17 +405,19 @@ class APIClient {
     return res.data;
   }
 
-  async createDebt(data: {
-    type: 'borrow' | 'lend';
-    amount: number;
-    currency_code?: string;
-    person_name: string;
-    note?: string;
-    due_date?: string;
-    transaction_id?: string;
-  }): Promise<Debt> {
+  /**
+   * POST /debts takes no amount, so one typed by hand is set with a follow-up update.
+   * The debt exists once the POST succeeds; a failed update is left for the detail view.
+   */
+  async createDebt(data: CreateDebtRequest, amount?: number): Promise<Debt> {
     const res = await this.client.post<Debt>('/debts', data);
-    return res.data;
+    if (!amount) return res.data;
+    try {
+      return await this.updateDebt(res.data.id, { amount });
+    } catch (error) {
+      console.error('Failed to set debt amount:', error);
+      return res.data;
+    }
   }
 
   async updateDebt(id: string, data: { amount?: number; name?: string; note?: string; due_at?: string }): Promise<Debt> {
@@ -309,23 +435,59 @@ class APIClient {
     return res.data;
   }
 
+  // --- Recurring (client-side, see recurringRules) ---
+  async getRecurringRules(): Promise<RecurringRule[]> {
+    return recurringRules.list();
+  }
+
+  async createRecurringRule(data: CreateRecurringRuleRequest): Promise<RecurringRule> {
+    return recurringRules.put({ ...data, id: crypto.randomUUID(), is_active: true, created_at: new Date().toISOString() });
+  }
+
+  async updateRecurringRule(id: string, data: UpdateRecurringRuleRequest): Promise<RecurringRule> {
+    const rule = await recurringRules.get(id);
+    return recurringRules.put({ ...rule, ...data, id, updated_at: new Date().toISOString() });
+  }
+
+  async deleteRecurringRule(id: string): Promise<void> {
+    await recurringRules.remove(id);
+  }
+
+  // --- Budgets (client-side, see budgets) ---
+  async getBudgets(): Promise<Budget[]> {
+    return budgets.list();
+  }
+
+  async createBudget(data: CreateBudgetRequest): Promise<Budget> {
+    return budgets.put({ ...data, id: crypto.randomUUID(), created_at: new Date().toISOString() });
+  }
+
+  async updateBudget(id: string, data: UpdateBudgetRequest): Promise<Budget> {
+    const budget = await budgets.get(id);
+    return budgets.put({ ...budget, ...data, id, updated_at: new Date().toISOString() });
+  }
+
+  async deleteBudget(id: string): Promise<void> {
+    await budgets.remove(id);
+  }
+
   // --- Parse ---
-  async parseText(data: { text: string; language_code?: string }): Promise<ParseTextView> {
+  async parseText(data: { content: string }): Promise<ParseTextView> {
     const res = await this.client.post<ParseTextView>('/parse/text', data);
     return res.data;
   }
 
-  async parseDebtText(data: { text: string; language_code?: string }): Promise<ParseTextDebtView> {
+  async parseDebtText(data: { content: string; transaction_id?: string }): Promise<ParseTextDebtView> {
     const res = await this.client.post<ParseTextDebtView>('/parse/debt/text', data);
     return res.data;
   }
 
-  async parseImage(data: { image_url: string; language_code?: string }): Promise<ParseImageView> {
+  async parseImage(data: { image_url: string }): Promise<ParseImageView> {
     const res = await this.client.post<ParseImageView>('/parse/image', data);
     return res.data;
   }
 
-  async parseVoice(data: { audio_url: string; language_code?: string }): Promise<ParseAudioView> {
+  async parseVoice(data: { file_url: string }): Promise<ParseAudioView> {
     const res = await this.client.post<ParseAudioView>('/parse/voice', data);
     return res.data;
   }
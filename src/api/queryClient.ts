@@ -0,0 +1,23 @@
+import { QueryClient } from '@tanstack/react-query';
+
+export const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      // reference data rarely changes while the MiniApp is open
+      staleTime: 5 * 60 * 1000,
+      retry: 1,
+      refetchOnWindowFocus: false,
+    },
+  },
+});
+
+export const queryKeys = {
+  me: ['me'] as const,
+  accounts: ['accounts'] as const,
+  categories: ['categories'] as const,
+  subcategories: ['subcategories'] as const,
+  debts: ['debts'] as const,
+  transactions: ['transactions'] as const,
+  recurring: ['recurring'] as const,
+  budgets: ['budgets'] as const,
+};
@@ -1,10 +1,12 @@
 import { useEffect, useMemo, useState } from 'react';
 import { useTranslation } from 'react-i18next';
-import { Save, Info } from 'lucide-react';
+import { Save, Info, Scale, Archive, ArchiveRestore, Trash2 } from 'lucide-react';
 
 import { cn } from '@/lib/utils';
 import type { Account } from '@/core/types';
-import { formatCurrency } from '@/lib/formatters';
+import { formatCurrency, formatDateTime } from '@/lib/formatters';
+import { accountCurrency } from '@/lib/currency';
+import { useAccountAdjustments } from '@/hooks/useAccountAdjustments';
 import { Switch } from '@/components/ui/switch';
 import { BottomSheetShell } from '@/components/ui/BottomSheetShell';
 
@@ -12,16 +14,24 @@ type Props = {
     account: Account | null;
     currencyCode?: string;
     locale?: string;
+    timezone?: string;
     onClose: () => void;
     onSave: (accountId: string, data: { name?: string; is_default?: boolean }) => Promise<void>;
+    onReconcile: (accountId: string, actualBalance: number) => Promise<void>;
+    onArchive: (accountId: string, archived: boolean) => Promise<void>;
+    onDelete: (account: Account) => void;
 };
 
 export function AccountActionsSheet({
     account,
     currencyCode = 'USD',
     locale,
+    timezone,
     onClose,
     onSave,
+    onReconcile,
+    onArchive,
+    onDelete,
 }: Props) {
     const { t } = useTranslation();
     const isOpen = !!account;
@@ -29,13 +39,24 @@ export function AccountActionsSheet({
     const [name, setName] = useState('');
     const [isDefault, setIsDefault] = useState(false);
     const [isSubmitting, setIsSubmitting] = useState(false);
+    const [actualBalance, setActualBalance] = useState('');
+    const [isReconciling, setIsReconciling] = useState(false);
+    const [isArchiving, setIsArchiving] = useState(false);
 
+    const balanceCurrency = accountCurrency(account ?? undefined, currencyCode);
+    const adjustmentsQuery = useAccountAdjustments(account?.id);
+    const adjustments = adjustmentsQuery.data ?? [];
+
+    // reset only when another account is opened; a balance refresh after reconcile keeps edits
     useEffect(() => {
         if (!account) return;
         setName(account.name ?? '');
         setIsDefault(!!account.is_default);
         setIsSubmitting(false);
-    }, [account]);
+        setActualBalance('');
+        setIsReconciling(false);
+        setIsArchiving(false);
+    }, [account?.id]); // eslint-disable-line react-hooks/exhaustive-deps
 
     const hasChanged = useMemo(() => {
         if (!account) return false;
@@ -44,8 +65,46 @@ export function AccountActionsSheet({
 
     const canSubmit = !!account && hasChanged && name.trim().length > 0 && !isSubmitting;
 
+    // delta between what the bank shows and what we have recorded
+    const adjustmentDelta = useMemo(() => {
+        if (!account || actualBalance.trim() === '') return null;
+        const actual = Number(actualBalance.replace(',', '.'));
+        if (!Number.isFinite(actual)) return null;
+        return Math.round((actual - account.balance) * 100) / 100;
+    }, [account, actualBalance]);
+
+    const canReconcile = !!adjustmentDelta && !isReconciling && !isSubmitting;
+
     const handleClose = () => {
-        if (!isSubmitting) onClose();
+        if (!isSubmitting && !isReconciling) onClose();
+    };
+
+    const handleReconcile = async () => {
+        if (!account || !canReconcile) return;
+
+        setIsReconciling(true);
+        try {
+            await onReconcile(account.id, account.balance + adjustmentDelta!);
+            setActualBalance('');
+        } catch (err) {
+            console.error('Failed to reconcile account:', err);
+        } finally {
+            setIsReconciling(false);
+        }
+    };
+
+    const handleArchive = async () => {
+        if (!account || account.is_default || isArchiving) return;
+
+        setIsArchiving(true);
+        try {
+            await onArchive(account.id, !account.is_archived);
+            onClose();
+        } catch (err) {
+            console.error('Failed to archive account:', err);
+        } finally {
+            setIsArchiving(false);
+        }
     };
 
     const handleSubmit = async (e: React.FormEvent) => {
@@ -100,7 +159,7 @@ export function AccountActionsSheet({
             title={t('accounts.editAccount')}
             subtitle={account ? t('accounts.manageAccountSubtitle', { name: account.name }) : undefined}
             footer={footer}
-            closeOnBackdrop={!isSubmitting}
+            closeOnBackdrop={!isSubmitting && !isReconciling}
         >
             {account && (
                 <div className="space-y-5">
@@ -122,20 +181,15 @@ export function AccountActionsSheet({
                         />
                     </div>
 
-                    {/* Balance (Disabled input - Coming soon) */}
+                    {/* Balance + reconciliation */}
                     <div className="space-y-2">
-                        <div className="flex items-center justify-between px-1">
-                            <label className="text-sm font-medium text-foreground">
-                                {t('accounts.balance')}
-                            </label>
-                            <span className="text-xs px-2 py-0.5 rounded-full bg-muted/60 text-muted-foreground">
-                                {t('accounts.comingSoon')}
-                            </span>
-                        </div>
+                        <label className="text-sm font-medium text-foreground ml-1">
+                            {t('accounts.balance')}
+                        </label>
 
                         <div className="relative">
                             <input
-                                value={formatCurrency(account.balance, currencyCode, locale)}
+                                value={formatCurrency(account.balance, balanceCurrency, locale)}
                                 disabled
                                 readOnly
                                 className={cn(
@@ -147,11 +201,97 @@ export function AccountActionsSheet({
                             />
                             <div className="pointer-events-none absolute inset-0 rounded-2xl ring-1 ring-inset ring-white/5" />
                         </div>
+                    </div>
 
-                        <p className="text-xs text-muted-foreground ml-1 flex items-center gap-1.5">
-                            <Info className="w-3.5 h-3.5" />
-                            {t('accounts.balanceAdjustmentInfo')}
-                        </p>
+                    <div className="rounded-2xl border border-border/40 bg-muted/15 px-4 py-4 space-y-3">
+                        <div>
+                            <p className="text-sm font-medium text-foreground flex items-center gap-1.5">
+                                <Scale className="w-4 h-4" />
+                                {t('accounts.reconcile')}
+                            </p>
+                            <p className="text-xs text-muted-foreground mt-1 flex items-start gap-1.5">
+                                <Info className="w-3.5 h-3.5 mt-px flex-shrink-0" />
+                                {t('accounts.balanceAdjustmentInfo')}
+                            </p>
+                        </div>
+
+                        <input
+                            type="text"
+                            inputMode="decimal"
+                            value={actualBalance}
+                            onChange={(e) => setActualBalance(e.target.value.replace(/[^0-9.,-]/g, ''))}
+                            placeholder={t('accounts.actualBalancePlaceholder')}
+                            className={cn(
+                                'w-full h-12 px-4 rounded-2xl bg-background border border-border/50',
+                                'focus:outline-none focus:ring-2 focus:ring-primary/30',
+                                'text-base tabular-nums'
+                            )}
+                        />
+
+                        <div className="flex items-center justify-between gap-3">
+                            <span className="text-xs text-muted-foreground">
+                                {t('accounts.adjustmentDelta')}:{' '}
+                                <span
+                                    className={cn(
+                                        'font-semibold tabular-nums',
+                                        !adjustmentDelta
+                                            ? 'text-muted-foreground'
+                                            : adjustmentDelta > 0
+                                              ? 'text-green-500'
+                                              : 'text-red-500'
+                                    )}
+                                >
+                                    {adjustmentDelta && adjustmentDelta > 0 ? '+' : ''}
+                                    {formatCurrency(adjustmentDelta ?? 0, balanceCurrency, locale)}
+                                </span>
+                            </span>
+
+                            <button
+                                type="button"
+                                onClick={handleReconcile}
+                                disabled={!canReconcile}
+                                className={cn(
+                                    'h-9 px-4 rounded-xl text-sm font-semibold transition-all',
+                                    canReconcile
+                                        ? 'bg-primary/10 text-primary active:scale-[0.98]'
+                                        : 'bg-muted text-muted-foreground cursor-not-allowed'
+                                )}
+                            >
+                                {isReconciling ? t('common.loading') : t('accounts.recordAdjustment')}
+                            </button>
+                        </div>
+                    </div>
+
+                    {/* Adjustment history */}
+                    <div className="space-y-2">
+                        <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wide px-1">
+                            {t('accounts.adjustmentHistory')}
+                        </h4>
+
+                        {adjustmentsQuery.isPending ? (
+                            <div className="h-12 rounded-2xl bg-muted/20 animate-pulse" />
+                        ) : adjustments.length === 0 ? (
+                            <p className="text-xs text-muted-foreground px-1">{t('accounts.noAdjustments')}</p>
+                        ) : (
+                            <div className="rounded-2xl border border-border/40 divide-y divide-border/40">
+                                {adjustments.map((tx) => (
+                                    <div key={tx.id} className="flex items-center justify-between gap-3 px-4 py-2.5">
+                                        <span className="text-xs text-muted-foreground truncate">
+                                            {formatDateTime(tx.performed_at || tx.created_at, timezone, locale)}
+                                        </span>
+                                        <span
+                                            className={cn(
+                                                'text-sm font-semibold tabular-nums',
+                                                tx.amount >= 0 ? 'text-green-500' : 'text-red-500'
+                                            )}
+                                        >
+                                            {tx.amount >= 0 ? '+' : '-'}
+                                            {formatCurrency(Math.abs(tx.amount), tx.currency_code || balanceCurrency, locale)}
+                                        </span>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
                     </div>
 
                     {/* Default toggle */}
@@ -169,10 +309,50 @@ export function AccountActionsSheet({
                             <Switch
                                 checked={isDefault}
                                 onCheckedChange={setIsDefault}
+                                disabled={!!account.is_archived}
                                 aria-label={t('accounts.defaultAccount')}
                             />
                         </div>
                     </div>
+
+                    {/* Archive / delete; the default account has to hand that role over first */}
+                    <div className="space-y-2">
+                        <div className="grid grid-cols-2 gap-2">
+                            <button
+                                type="button"
+                                onClick={handleArchive}
+                                disabled={account.is_default || isArchiving}
+                                className={cn(
+                                    'h-11 rounded-xl text-sm font-medium flex items-center justify-center gap-2 transition-colors',
+                                    'bg-muted/30 hover:bg-muted/50 disabled:opacity-50 disabled:cursor-not-allowed'
+                                )}
+                            >
+                                {account.is_archived ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+                                {isArchiving
+                                    ? t('common.loading')
+                                    : account.is_archived
+                                      ? t('accounts.unarchive')
+                                      : t('accounts.archive')}
+                            </button>
+
+                            <button
+                                type="button"
+                                onClick={() => onDelete(account)}
+                                disabled={account.is_default}
+                                className={cn(
+                                    'h-11 rounded-xl text-sm font-medium flex items-center justify-center gap-2 transition-colors',
+                                    'bg-red-500/10 text-red-600 hover:bg-red-500/15 disabled:opacity-50 disabled:cursor-not-allowed'
+                                )}
+                            >
+                                <Trash2 className="w-4 h-4" />
+                                {t('accounts.delete.action')}
+                            </button>
+                        </div>
+
+                        <p className="text-xs text-muted-foreground px-1">
+                            {account.is_default ? t('accounts.defaultProtected') : t('accounts.archiveHint')}
+                        </p>
+                    </div>
                 </div>
             )}
         </BottomSheetShell>
@@ -1,18 +1,21 @@
+import { useMemo } from 'react';
 import { Plus, ChevronRight } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
 
 import { Card, CardContent } from '@/components/ui/card';
 import { formatCurrency } from '@/lib/formatters';
 import { cn } from '@/lib/utils';
-import type { Account } from '@/core/types';
+import { accountCurrency, balancesByCurrency } from '@/lib/currency';
+import type { Account, AccountStatsView } from '@/core/types';
 
 type Props = {
     accounts: Account[];
-    totalBalance: number;
     currencyCode?: string;
     locale?: string;
     onAccountTap: (account: Account) => void;
     onAddAccountTap: () => void;
+    // spending per account over the period picked on AccountsPage
+    periodStats?: AccountStatsView;
 };
 
 function clampPct(v: number) {
@@ -22,24 +25,52 @@ function clampPct(v: number) {
 
 export function AccountListCard({
     accounts,
-    totalBalance,
     currencyCode = 'USD',
     locale,
     onAccountTap,
     onAddAccountTap,
+    periodStats,
 }: Props) {
     const { t } = useTranslation();
 
+    const currencyTotals = useMemo(() => balancesByCurrency(accounts, currencyCode), [accounts, currencyCode]);
+    const totalByCurrency = useMemo(
+        () => new Map(currencyTotals.map((c) => [c.currency, c.total])),
+        [currencyTotals]
+    );
+    const spentByAccount = useMemo(
+        () => new Map((periodStats?.items ?? []).map((a) => [a.account_id, a])),
+        [periodStats]
+    );
+
     return (
         <Card className="rounded-3xl border border-border/40 bg-card/40 overflow-hidden">
             <CardContent className="p-0">
+                {/* Per-currency totals (only worth showing when currencies are mixed) */}
+                {currencyTotals.length > 1 && (
+                    <div className="flex flex-wrap gap-2 px-4 py-3 border-b border-border/30">
+                        {currencyTotals.map(({ currency, total }) => (
+                            <span
+                                key={currency}
+                                className="text-xs px-2.5 py-1 rounded-full bg-muted/40 text-foreground tabular-nums"
+                            >
+                                {formatCurrency(total, currency, locale)}
+                            </span>
+                        ))}
+                    </div>
+                )}
+
                 {/* Account rows */}
                 {accounts.map((account, index) => {
                     const isLast = index === accounts.length - 1;
+                    const currency = accountCurrency(account, currencyCode);
 
+                    // share within the same currency; balances in different currencies don't add up
                     // NOTE: if you allow negatives and want share-of-assets, consider Math.abs
+                    const totalBalance = totalByCurrency.get(currency) ?? 0;
                     const rawPct = totalBalance > 0 ? (account.balance / totalBalance) * 100 : 0;
                     const pct = clampPct(rawPct);
+                    const spent = spentByAccount.get(account.id);
 
                     return (
                         <button
@@ -69,7 +100,7 @@ export function AccountListCard({
 
                                     <div className="flex items-center gap-2 shrink-0">
                                         <span className="text-[15px] font-semibold text-foreground tabular-nums whitespace-nowrap">
-                                            {formatCurrency(account.balance, currencyCode, locale)}
+                                            {formatCurrency(account.balance, currency, locale)}
                                         </span>
                                         <ChevronRight className="w-4 h-4 text-muted-foreground shrink-0" />
                                     </div>
@@ -82,6 +113,20 @@ export function AccountListCard({
                                         style={{ width: `${pct}%` }}
                                     />
                                 </div>
+
+                                {periodStats && (
+                                    <p className="text-xs text-muted-foreground tabular-nums">
+                                        {spent && spent.expense > 0
+                                            ? t('accounts.periodSpent', {
+                                                amount: formatCurrency(spent.expense, currencyCode, locale),
+                                                share: periodStats.totals.expense > 0
+                                                    ? Math.round((spent.expense / periodStats.totals.expense) * 100)
+                                                    : 0,
+                                                count: spent.count,
+                                            })
+                                            : t('accounts.periodNoSpending')}
+                                    </p>
+                                )}
                             </div>
                         </button>
                     );
@@ -6,11 +6,13 @@ import { cn } from '@/lib/utils';
 import { Card } from '@/components/ui/card';
 import { Switch } from '@/components/ui/switch';
 import { BottomSheetShell } from '@/components/ui/BottomSheetShell';
+import { currencyOptions } from '@/lib/currency';
 
 type Props = {
   open: boolean;
   onOpenChange: (v: boolean) => void;
-  onCreate: (data: { name: string; balance?: number; is_default?: boolean }) => Promise<void>;
+  defaultCurrency?: string;
+  onCreate: (data: { name: string; balance?: number; currency_code?: string; is_default?: boolean }) => Promise<void>;
 };
 
 function normalizeDecimalInput(v: string) {
@@ -32,11 +34,12 @@ function parseOptionalNumber(v: string): number | undefined {
   return num;
 }
 
-export function CreateAccountSheet({ open, onOpenChange, onCreate }: Props) {
+export function CreateAccountSheet({ open, onOpenChange, defaultCurrency = 'USD', onCreate }: Props) {
   const { t } = useTranslation();
 
   const [name, setName] = useState('');
   const [balanceRaw, setBalanceRaw] = useState(''); // keep as string for UX
+  const [currency, setCurrency] = useState(defaultCurrency);
   const [isDefault, setIsDefault] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
@@ -45,10 +48,13 @@ export function CreateAccountSheet({ open, onOpenChange, onCreate }: Props) {
     if (!open) {
       setName('');
       setBalanceRaw('');
+      setCurrency(defaultCurrency);
       setIsDefault(false);
       setIsSubmitting(false);
     }
-  }, [open]);
+  }, [open, defaultCurrency]);
+
+  const currencies = useMemo(() => currencyOptions(defaultCurrency), [defaultCurrency]);
 
   const canSubmit = useMemo(() => {
     return name.trim().length > 0 && !isSubmitting;
@@ -66,6 +72,7 @@ export function CreateAccountSheet({ open, onOpenChange, onCreate }: Props) {
       await onCreate({
         name: name.trim(),
         balance: balanceNum,
+        currency_code: currency,
         is_default: isDefault,
       });
 
@@ -128,6 +135,28 @@ export function CreateAccountSheet({ open, onOpenChange, onCreate }: Props) {
           />
         </div>
 
+        {/* Currency */}
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-foreground ml-1">
+            {t('accounts.currency')}
+          </label>
+          <select
+            value={currency}
+            onChange={(e) => setCurrency(e.target.value)}
+            className={cn(
+              'w-full h-12 px-4 rounded-2xl bg-muted/25 border border-border/50',
+              'focus:outline-none focus:ring-2 focus:ring-primary/30',
+              'text-base appearance-none cursor-pointer'
+            )}
+          >
+            {currencies.map((code) => (
+              <option key={code} value={code}>
+                {code}
+              </option>
+            ))}
+          </select>
+        </div>
+
         {/* Initial balance */}
         <div className="space-y-2">
           <div className="flex items-center justify-between px-1">
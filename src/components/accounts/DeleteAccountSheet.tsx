@@ -0,0 +1,164 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useQuery } from '@tanstack/react-query';
+import { Trash2 } from 'lucide-react';
+
+import { apiClient } from '@/api/client';
+import { queryKeys } from '@/api/queryClient';
+import type { Account } from '@/core/types';
+import { cn } from '@/lib/utils';
+import { accountCurrency } from '@/lib/currency';
+import { BottomSheetShell } from '@/components/ui/BottomSheetShell';
+
+// debts are linked to accounts only through their transaction
+const DEBT_LOOKUP_CHUNK = 100;
+
+type Props = {
+  account: Account | null;
+  accounts: Account[];
+  currencyCode: string;
+  onClose: () => void;
+  onConfirm: (accountId: string, moveTo?: string) => Promise<void>;
+};
+
+/** Hard delete, guarded by what it would take with it and an option to move it elsewhere first */
+export function DeleteAccountSheet({ account, accounts, currencyCode, onClose, onConfirm }: Props) {
+  const { t } = useTranslation();
+
+  const [choice, setChoice] = useState({ accountId: '', moveTo: '' });
+  const moveTo = choice.accountId === account?.id ? choice.moveTo : '';
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [failedFor, setFailedFor] = useState<string | null>(null);
+
+  const summaryQuery = useQuery({
+    queryKey: [...queryKeys.transactions, 'account-summary', account?.id],
+    queryFn: async () => {
+      const ids = await apiClient.getTransactionIds({ account_ids: [account!.id] });
+
+      let debts = 0;
+      let openDebts = 0;
+      for (let i = 0; i < ids.length; i += DEBT_LOOKUP_CHUNK) {
+        const res = await apiClient.getDebts({
+          transaction_ids: ids.slice(i, i + DEBT_LOOKUP_CHUNK),
+          limit: DEBT_LOOKUP_CHUNK,
+        });
+        debts += res.items.length;
+        openDebts += res.items.filter((d) => d.status === 'open').length;
+      }
+
+      return { transactions: ids.length, debts, openDebts };
+    },
+    enabled: !!account,
+    staleTime: 0,
+  });
+
+  // amounts are kept as-is, so only same-currency accounts can take the transactions
+  const targets = account
+    ? accounts.filter(
+        (a) =>
+          a.id !== account.id &&
+          !a.is_archived &&
+          accountCurrency(a, currencyCode) === accountCurrency(account, currencyCode)
+      )
+    : [];
+
+  const summary = summaryQuery.data;
+  const canDelete = !!account && !account.is_default && !!summary && !isDeleting;
+
+  const handleConfirm = async () => {
+    if (!account || !canDelete) return;
+
+    setIsDeleting(true);
+    setFailedFor(null);
+    try {
+      await onConfirm(account.id, moveTo || undefined);
+      onClose();
+    } catch (error) {
+      console.error('Failed to delete account:', error);
+      setFailedFor(account.id);
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  const footer = (
+    <button
+      type="button"
+      onClick={handleConfirm}
+      disabled={!canDelete}
+      className={cn(
+        'w-full h-12 rounded-2xl font-semibold transition-all',
+        'flex items-center justify-center gap-2',
+        canDelete
+          ? 'bg-red-500/10 text-red-600 active:scale-[0.99] hover:bg-red-500/15'
+          : 'bg-muted text-muted-foreground cursor-not-allowed'
+      )}
+    >
+      {isDeleting ? (
+        <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin" />
+      ) : (
+        <Trash2 className="w-4 h-4" />
+      )}
+      {isDeleting
+        ? t('common.loading')
+        : moveTo
+          ? t('accounts.delete.moveAndDelete')
+          : t('accounts.delete.confirm')}
+    </button>
+  );
+
+  return (
+    <BottomSheetShell
+      open={!!account}
+      onOpenChange={(v) => !v && !isDeleting && onClose()}
+      title={t('accounts.delete.title', { name: account?.name ?? '' })}
+      icon={<Trash2 className="w-5 h-5 text-red-500" />}
+      footer={footer}
+      closeOnBackdrop={!isDeleting}
+    >
+      <div className="space-y-4">
+        {account?.is_default ? (
+          <p className="text-sm text-muted-foreground">{t('accounts.defaultProtected')}</p>
+        ) : summaryQuery.isPending ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin" />
+            {t('accounts.delete.counting')}
+          </div>
+        ) : summaryQuery.isError || !summary ? (
+          <p className="text-sm text-red-500">{t('errors.failedToLoad')}</p>
+        ) : (
+          <>
+            <div className="rounded-2xl border border-border/40 bg-muted/15 px-4 py-3 space-y-1 text-sm">
+              <p>{t('accounts.delete.transactions', { count: summary.transactions })}</p>
+              <p>{t('accounts.delete.debts', { count: summary.debts, open: summary.openDebts })}</p>
+            </div>
+
+            {summary.transactions > 0 && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-foreground ml-1">{t('accounts.delete.moveTo')}</label>
+                <select
+                  value={moveTo}
+                  onChange={(e) => setChoice({ accountId: account!.id, moveTo: e.target.value })}
+                  disabled={isDeleting}
+                  className="w-full h-12 px-4 rounded-2xl bg-muted/25 border border-border/50 focus:outline-none focus:ring-2 focus:ring-primary/30 text-base appearance-none cursor-pointer"
+                >
+                  <option value="">{t('accounts.delete.deleteWithAccount')}</option>
+                  {targets.map((a) => (
+                    <option key={a.id} value={a.id}>
+                      {a.name}
+                    </option>
+                  ))}
+                </select>
+                {targets.length === 0 && (
+                  <p className="text-xs text-muted-foreground ml-1">{t('accounts.delete.noTargets')}</p>
+                )}
+              </div>
+            )}
+          </>
+        )}
+
+        {failedFor === account?.id && <p className="text-sm text-red-500">{t('errors.deleteFailed')}</p>}
+      </div>
+    </BottomSheetShell>
+  );
+}
@@ -0,0 +1,247 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Check, PiggyBank, Trash2 } from 'lucide-react';
+
+import type { Budget, BudgetRollover, Category, CreateBudgetRequest, Subcategory } from '@/core/types';
+import { cn } from '@/lib/utils';
+import { budgetTarget, monthKey } from '@/lib/budgets';
+import { BottomSheetShell } from '@/components/ui/BottomSheetShell';
+
+const ROLLOVERS: BudgetRollover[] = ['none', 'unspent', 'all'];
+
+type FormState = {
+  category_id: string;
+  subcategory_id: string;
+  amount: string;
+  rollover: BudgetRollover;
+  start_month: string; // YYYY-MM
+};
+
+type Props = {
+  open: boolean;
+  onOpenChange: (v: boolean) => void;
+  budget?: Budget | null;
+  // targets that already have a budget; the form won't create a second one
+  taken: Set<string>;
+  categories: Category[];
+  subcategories: Subcategory[];
+  currencyCode: string;
+  defaultMonth: string;
+  onSave: (data: CreateBudgetRequest) => Promise<void>;
+  onDelete?: (budget: Budget) => Promise<void>;
+};
+
+/** Create or edit a monthly budget; remount (key) per opening to pick up `budget` */
+export function BudgetSheet({
+  open,
+  onOpenChange,
+  budget,
+  taken,
+  categories,
+  subcategories,
+  currencyCode,
+  defaultMonth,
+  onSave,
+  onDelete,
+}: Props) {
+  const { t } = useTranslation();
+
+  const [form, setForm] = useState<FormState>(() => ({
+    category_id: budget ? String(budget.category_id) : '',
+    subcategory_id: budget?.subcategory_id ? String(budget.subcategory_id) : '',
+    amount: budget ? String(budget.amount) : '',
+    rollover: budget?.rollover ?? 'none',
+    start_month: budget?.start_month ?? defaultMonth,
+  }));
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const update = <K extends keyof FormState>(key: K, value: FormState[K]) =>
+    setForm((prev) => ({ ...prev, [key]: value }));
+
+  const subcategoryOptions = subcategories.filter((s) => String(s.category_id) === form.category_id);
+
+  const target = budgetTarget({
+    category_id: Number(form.category_id),
+    subcategory_id: form.subcategory_id ? Number(form.subcategory_id) : undefined,
+  });
+  const ownTarget = budget ? budgetTarget(budget) : null;
+  const duplicate = !!form.category_id && target !== ownTarget && taken.has(target);
+
+  const amountNum = Number(form.amount.replace(',', '.'));
+  const canSubmit =
+    amountNum > 0 && !!form.category_id && !!form.start_month && !duplicate && !isSubmitting && !isDeleting;
+
+  const handleSubmit = async () => {
+    if (!canSubmit) return;
+
+    setIsSubmitting(true);
+    try {
+      await onSave({
+        category_id: Number(form.category_id),
+        subcategory_id: form.subcategory_id ? Number(form.subcategory_id) : undefined,
+        amount: amountNum,
+        rollover: form.rollover,
+        start_month: form.start_month,
+      });
+      onOpenChange(false);
+    } catch (err) {
+      console.error('Failed to save budget:', err);
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!budget || !onDelete || isDeleting) return;
+
+    setIsDeleting(true);
+    try {
+      await onDelete(budget);
+      onOpenChange(false);
+    } catch (err) {
+      console.error('Failed to delete budget:', err);
+      setIsDeleting(false);
+    }
+  };
+
+  const inputClass = cn(
+    'w-full h-12 px-4 rounded-2xl bg-muted/25 border border-border/50',
+    'focus:outline-none focus:ring-2 focus:ring-primary/30 text-base'
+  );
+
+  const footer = (
+    <div className="space-y-2">
+      <button
+        type="button"
+        onClick={handleSubmit}
+        disabled={!canSubmit}
+        className={cn(
+          'w-full h-12 rounded-2xl font-semibold transition-all shadow-lg',
+          'flex items-center justify-center gap-2',
+          canSubmit
+            ? 'bg-primary text-primary-foreground active:scale-[0.99] shadow-primary/20'
+            : 'bg-muted text-muted-foreground cursor-not-allowed shadow-transparent'
+        )}
+      >
+        {isSubmitting ? (
+          <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin" />
+        ) : (
+          <Check className="w-4 h-4" />
+        )}
+        {isSubmitting ? t('common.loading') : t('common.save')}
+      </button>
+
+      {budget && onDelete && (
+        <button
+          type="button"
+          onClick={handleDelete}
+          disabled={isDeleting || isSubmitting}
+          className="w-full h-11 rounded-2xl text-sm font-medium flex items-center justify-center gap-2 bg-red-500/10 text-red-600 hover:bg-red-500/15 disabled:opacity-50"
+        >
+          <Trash2 className="w-4 h-4" />
+          {isDeleting ? t('common.loading') : t('budgets.delete')}
+        </button>
+      )}
+    </div>
+  );
+
+  return (
+    <BottomSheetShell
+      open={open}
+      onOpenChange={onOpenChange}
+      title={budget ? t('budgets.editTitle') : t('budgets.createTitle')}
+      icon={<PiggyBank className="w-5 h-5 text-primary" />}
+      footer={footer}
+      closeOnBackdrop={!isSubmitting && !isDeleting}
+    >
+      <div className="space-y-5">
+        {/* Category */}
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-foreground ml-1">{t('transaction.category')}</label>
+          <select
+            value={form.category_id}
+            onChange={(e) => {
+              update('category_id', e.target.value);
+              update('subcategory_id', '');
+            }}
+            className={cn(inputClass, 'appearance-none cursor-pointer')}
+          >
+            <option value="">{t('transaction.selectCategory')}</option>
+            {categories.map((c) => (
+              <option key={c.id} value={c.id}>
+                {c.emoji ? `${c.emoji} ` : ''}
+                {c.name}
+              </option>
+            ))}
+          </select>
+          {subcategoryOptions.length > 0 && (
+            <select
+              value={form.subcategory_id}
+              onChange={(e) => update('subcategory_id', e.target.value)}
+              className={cn(inputClass, 'appearance-none cursor-pointer')}
+            >
+              <option value="">{t('budgets.wholeCategory')}</option>
+              {subcategoryOptions.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.emoji ? `${s.emoji} ` : ''}
+                  {s.name}
+                </option>
+              ))}
+            </select>
+          )}
+          {duplicate && <p className="text-xs text-red-500 ml-1">{t('budgets.duplicate')}</p>}
+        </div>
+
+        {/* Amount */}
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-foreground ml-1">
+            {t('budgets.monthlyLimit')} ({currencyCode})
+          </label>
+          <input
+            type="text"
+            inputMode="decimal"
+            value={form.amount}
+            onChange={(e) => update('amount', e.target.value.replace(/[^\d.,]/g, ''))}
+            placeholder="0"
+            className={cn(inputClass, 'tabular-nums')}
+          />
+        </div>
+
+        {/* Rollover */}
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-foreground ml-1">{t('budgets.rollover')}</label>
+          <div className="grid grid-cols-3 gap-2">
+            {ROLLOVERS.map((rollover) => (
+              <button
+                key={rollover}
+                type="button"
+                onClick={() => update('rollover', rollover)}
+                className={cn(
+                  'h-10 rounded-xl text-xs font-medium transition-colors border',
+                  form.rollover === rollover
+                    ? 'border-primary/50 bg-primary/10 text-primary'
+                    : 'border-border/50 bg-card/40'
+                )}
+              >
+                {t(`budgets.rollovers.${rollover}`)}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground ml-1">{t(`budgets.rolloverHints.${form.rollover}`)}</p>
+        </div>
+
+        {/* Start month */}
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-foreground ml-1">{t('budgets.startMonth')}</label>
+          <input
+            type="month"
+            value={form.start_month}
+            max={monthKey(new Date())}
+            onChange={(e) => update('start_month', e.target.value)}
+            className={inputClass}
+          />
+        </div>
+      </div>
+    </BottomSheetShell>
+  );
+}
@@ -0,0 +1,125 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Check, Tag } from 'lucide-react';
+
+import { cn } from '@/lib/utils';
+import { BottomSheetShell } from '@/components/ui/BottomSheetShell';
+
+const EMOJIS = [
+  '🍔', '🛒', '☕', '🍺', '🚕', '🚗', '⛽', '🏠',
+  '💡', '📱', '🌐', '👕', '💊', '🏋️', '🎓', '🎁',
+  '🎬', '🎮', '✈️', '🐾', '👶', '🔧', '🧾', '💼',
+  '💰', '📈', '🏦', '❤️', '🎉', '📦', '💳', '📌',
+];
+
+// keep only the last typed/pasted emoji (one grapheme, even for 👨‍👩‍👧)
+function lastGrapheme(value: string): string {
+  const segments = Array.from(new Intl.Segmenter().segment(value.trim()), (s) => s.segment);
+  return segments[segments.length - 1] ?? '';
+}
+
+type Props = {
+  open: boolean;
+  onOpenChange: (v: boolean) => void;
+  title: string;
+  onSave: (data: { name: string; emoji: string }) => Promise<void>;
+};
+
+/** Create a category/subcategory; remount (key) per opening to start blank */
+export function CategoryEditSheet({ open, onOpenChange, title, onSave }: Props) {
+  const { t } = useTranslation();
+
+  const [name, setName] = useState('');
+  const [emoji, setEmoji] = useState(EMOJIS[0]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const canSubmit = name.trim().length > 0 && !!emoji.trim() && !isSubmitting;
+
+  const handleSubmit = async () => {
+    if (!canSubmit) return;
+
+    setIsSubmitting(true);
+    try {
+      await onSave({ name: name.trim(), emoji: emoji.trim() });
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Failed to save category:', error);
+      setIsSubmitting(false);
+    }
+  };
+
+  const footer = (
+    <button
+      type="button"
+      onClick={handleSubmit}
+      disabled={!canSubmit}
+      className={cn(
+        'w-full h-12 rounded-2xl font-semibold transition-all shadow-lg',
+        'flex items-center justify-center gap-2',
+        canSubmit
+          ? 'bg-primary text-primary-foreground active:scale-[0.99] shadow-primary/20'
+          : 'bg-muted text-muted-foreground cursor-not-allowed shadow-transparent'
+      )}
+    >
+      {isSubmitting ? (
+        <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin" />
+      ) : (
+        <Check className="w-4 h-4" />
+      )}
+      {isSubmitting ? t('common.loading') : t('common.save')}
+    </button>
+  );
+
+  return (
+    <BottomSheetShell
+      open={open}
+      onOpenChange={onOpenChange}
+      title={title}
+      icon={<Tag className="w-5 h-5 text-primary" />}
+      footer={footer}
+      closeOnBackdrop={!isSubmitting}
+    >
+      <div className="space-y-5">
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-foreground ml-1">{t('categories.name')}</label>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={emoji}
+              onChange={(e) => setEmoji(lastGrapheme(e.target.value))}
+              className="w-14 h-12 rounded-2xl bg-muted/25 border border-border/50 text-center text-xl focus:outline-none focus:ring-2 focus:ring-primary/30"
+              aria-label={t('categories.emoji')}
+            />
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder={t('categories.namePlaceholder')}
+              className="flex-1 h-12 px-4 rounded-2xl bg-muted/25 border border-border/50 focus:outline-none focus:ring-2 focus:ring-primary/30 text-base"
+              enterKeyHint="done"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-foreground ml-1">{t('categories.emoji')}</label>
+          <div className="grid grid-cols-8 gap-1.5">
+            {EMOJIS.map((e) => (
+              <button
+                key={e}
+                type="button"
+                onClick={() => setEmoji(e)}
+                className={cn(
+                  'aspect-square rounded-xl text-xl flex items-center justify-center transition-colors',
+                  emoji === e ? 'bg-primary/15 ring-2 ring-primary/40' : 'bg-muted/25 hover:bg-muted/40'
+                )}
+              >
+                {e}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+    </BottomSheetShell>
+  );
+}
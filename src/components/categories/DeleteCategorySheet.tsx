@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Trash2 } from 'lucide-react';
+
+import { cn } from '@/lib/utils';
+import { BottomSheetShell } from '@/components/ui/BottomSheetShell';
+
+export type DeleteTarget = {
+  kind: 'category' | 'subcategory';
+  id: number;
+  name: string;
+  emoji?: string;
+};
+
+type Props = {
+  target: DeleteTarget | null;
+  // transactions using the target; undefined while counting
+  count?: number;
+  reassignOptions: { id: number; label: string; emoji?: string }[];
+  onClose: () => void;
+  onConfirm: (target: DeleteTarget, reassignTo?: number) => Promise<void>;
+};
+
+/**
+ * Delete confirmation that shows how many transactions would lose their
+ * category and offers to move them somewhere else first.
+ */
+export function DeleteCategorySheet({ target, count, reassignOptions, onClose, onConfirm }: Props) {
+  const { t } = useTranslation();
+
+  // the choice belongs to one target, so opening another one starts from "don't move"
+  const targetKey = target ? `${target.kind}:${target.id}` : '';
+  const [choice, setChoice] = useState({ key: '', value: '' });
+  const reassignTo = choice.key === targetKey ? choice.value : '';
+  const setReassignTo = (value: string) => setChoice({ key: targetKey, value });
+
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const counting = count === undefined;
+
+  const handleConfirm = async () => {
+    if (!target || isDeleting || counting) return;
+
+    setIsDeleting(true);
+    try {
+      await onConfirm(target, reassignTo ? Number(reassignTo) : undefined);
+      onClose();
+    } catch (error) {
+      console.error('Failed to delete category:', error);
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  const footer = (
+    <button
+      type="button"
+      onClick={handleConfirm}
+      disabled={isDeleting || counting}
+      className={cn(
+        'w-full h-12 rounded-2xl font-semibold transition-all',
+        'flex items-center justify-center gap-2',
+        !isDeleting && !counting
+          ? 'bg-red-500/10 text-red-600 active:scale-[0.99] hover:bg-red-500/15'
+          : 'bg-muted text-muted-foreground cursor-not-allowed'
+      )}
+    >
+      {isDeleting ? (
+        <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin" />
+      ) : (
+        <Trash2 className="w-4 h-4" />
+      )}
+      {isDeleting
+        ? t('common.loading')
+        : reassignTo
+          ? t('categories.delete.moveAndDelete')
+          : t('categories.delete.confirm')}
+    </button>
+  );
+
+  return (
+    <BottomSheetShell
+      open={!!target}
+      onOpenChange={(v) => !v && onClose()}
+      title={t('categories.delete.title', { name: target?.name ?? '' })}
+      icon={<span className="text-xl">{target?.emoji || '🏷️'}</span>}
+      footer={footer}
+      closeOnBackdrop={!isDeleting}
+    >
+      <div className="space-y-4">
+        {counting ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin" />
+            {t('categories.delete.counting')}
+          </div>
+        ) : count === 0 ? (
+          <p className="text-sm text-muted-foreground">{t('categories.delete.unused')}</p>
+        ) : (
+          <>
+            <p className="text-sm text-foreground">
+              {target?.kind === 'subcategory'
+                ? t('categories.delete.orphanedSub', { count })
+                : t('categories.delete.orphaned', { count })}
+            </p>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-foreground ml-1">{t('categories.delete.reassign')}</label>
+              <select
+                value={reassignTo}
+                onChange={(e) => setReassignTo(e.target.value)}
+                disabled={isDeleting}
+                className="w-full h-12 px-4 rounded-2xl bg-muted/25 border border-border/50 focus:outline-none focus:ring-2 focus:ring-primary/30 text-base appearance-none cursor-pointer"
+              >
+                <option value="">{t('categories.delete.leave')}</option>
+                {reassignOptions.map((o) => (
+                  <option key={o.id} value={o.id}>
+                    {o.emoji ? `${o.emoji} ` : ''}
+                    {o.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </>
+        )}
+      </div>
+    </BottomSheetShell>
+  );
+}
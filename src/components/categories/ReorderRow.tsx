@@ -0,0 +1,41 @@
+import type { ReactNode } from 'react';
+import { Reorder, useDragControls } from 'framer-motion';
+import { GripVertical } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+
+import { cn } from '@/lib/utils';
+
+type Props<T> = {
+  value: T;
+  onDragEnd: () => void;
+  className?: string;
+  children: ReactNode;
+};
+
+/** Reorder.Item that only drags from the grip, so taps and scrolling still work on the row */
+export function ReorderRow<T>({ value, onDragEnd, className, children }: Props<T>) {
+  const { t } = useTranslation();
+  const controls = useDragControls();
+
+  return (
+    <Reorder.Item
+      value={value}
+      dragListener={false}
+      dragControls={controls}
+      onDragEnd={onDragEnd}
+      className={cn('relative list-none', className)}
+    >
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onPointerDown={(e) => controls.start(e)}
+          className="p-1 -ml-1 text-muted-foreground touch-none cursor-grab active:cursor-grabbing"
+          aria-label={t('categories.reorder')}
+        >
+          <GripVertical className="w-4 h-4" />
+        </button>
+        <div className="flex-1 min-w-0">{children}</div>
+      </div>
+    </Reorder.Item>
+  );
+}
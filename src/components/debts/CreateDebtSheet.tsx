@@ -0,0 +1,361 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useQuery } from '@tanstack/react-query';
+import { Plus, Sparkles, AlertCircle } from 'lucide-react';
+
+import { apiClient } from '@/api/client';
+import { queryKeys } from '@/api/queryClient';
+import type { CreateDebtRequest, ParseTextDebtView } from '@/core/types';
+import { cn } from '@/lib/utils';
+import { formatCurrency, formatDateTime } from '@/lib/formatters';
+import { BottomSheetShell } from '@/components/ui/BottomSheetShell';
+
+// Below this the parser's guess is shown but flagged for review
+const CONFIDENCE_THRESHOLD = 0.7;
+
+type Field = 'type' | 'name' | 'amount' | 'due_at';
+
+type FormState = {
+  type: 'borrow' | 'lend';
+  name: string;
+  amount: string;
+  due_at: string; // YYYY-MM-DD
+  note: string;
+  transaction_id: string;
+};
+
+type Props = {
+  open: boolean;
+  onOpenChange: (v: boolean) => void;
+  defaultType: 'borrow' | 'lend';
+  currencyCode: string;
+  locale?: string;
+  timezone?: string;
+  // amount is sent separately: POST /debts doesn't take one
+  onCreate: (data: CreateDebtRequest, amount?: number) => Promise<void>;
+};
+
+function emptyForm(type: 'borrow' | 'lend'): FormState {
+  return { type, name: '', amount: '', due_at: '', note: '', transaction_id: '' };
+}
+
+export function CreateDebtSheet({
+  open,
+  onOpenChange,
+  defaultType,
+  currencyCode,
+  locale,
+  timezone,
+  onCreate,
+}: Props) {
+  const { t } = useTranslation();
+
+  const [text, setText] = useState('');
+  const [form, setForm] = useState<FormState>(() => emptyForm(defaultType));
+  const [flagged, setFlagged] = useState<Set<Field>>(new Set());
+  const [isParsing, setIsParsing] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitFailed, setSubmitFailed] = useState(false);
+
+  // recent transactions to link the debt to (e.g. the cash handed over)
+  const recentQuery = useQuery({
+    queryKey: [...queryKeys.transactions, 'recent-for-debt'],
+    queryFn: async () => (await apiClient.getTransactions({ limit: 20 })).items,
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    setText('');
+    setForm(emptyForm(defaultType));
+    setFlagged(new Set());
+    setIsParsing(false);
+    setIsSubmitting(false);
+    setSubmitFailed(false);
+  }, [open, defaultType]);
+
+  // a linked transaction sets the debt's amount and currency
+  const linkedTx = useMemo(
+    () => recentQuery.data?.find((tx) => tx.id === form.transaction_id),
+    [recentQuery.data, form.transaction_id]
+  );
+  const amountCurrency = linkedTx?.currency_code || currencyCode;
+
+  const update = <K extends keyof FormState>(key: K, value: FormState[K]) => {
+    setForm((prev) => ({ ...prev, [key]: value }));
+    // a field the user touched no longer needs review
+    setFlagged((prev) => {
+      if (!prev.has(key as Field)) return prev;
+      const next = new Set(prev);
+      next.delete(key as Field);
+      return next;
+    });
+  };
+
+  const applyParsed = (parsed: ParseTextDebtView) => {
+    const lowConfidence = (parsed.confidence ?? 0) < CONFIDENCE_THRESHOLD;
+    const next = new Set<Field>();
+
+    setForm((prev) => ({
+      ...prev,
+      type: parsed.type ?? prev.type,
+      name: parsed.counterparty_name ?? prev.name,
+      amount: parsed.amount ? String(Math.abs(parsed.amount)) : prev.amount,
+      due_at: parsed.due_at ? parsed.due_at.slice(0, 10) : prev.due_at,
+      note: parsed.note ?? prev.note,
+    }));
+
+    // missing fields always need attention; filled ones only when the parser was unsure
+    const values: Record<Field, unknown> = {
+      type: parsed.type,
+      name: parsed.counterparty_name,
+      amount: parsed.amount,
+      due_at: parsed.due_at,
+    };
+    (Object.keys(values) as Field[]).forEach((field) => {
+      const value = values[field];
+      if (value === undefined || value === null || value === '') {
+        if (field !== 'due_at') next.add(field);
+      } else if (lowConfidence) {
+        next.add(field);
+      }
+    });
+    setFlagged(next);
+  };
+
+  const handleParse = async () => {
+    const trimmed = text.trim();
+    if (!trimmed || isParsing) return;
+
+    setIsParsing(true);
+    try {
+      const parsed = await apiClient.parseDebtText({
+        content: trimmed,
+        transaction_id: form.transaction_id || undefined,
+      });
+      applyParsed(parsed);
+    } catch (err) {
+      console.error('Failed to parse debt text:', err);
+      setFlagged(new Set(['name', 'amount']));
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const amountNum = Number(form.amount.replace(',', '.'));
+  const canSubmit =
+    form.name.trim().length > 0 && (amountNum > 0 || !!linkedTx) && !isSubmitting && !isParsing;
+
+  const handleSubmit = async () => {
+    if (!canSubmit) return;
+
+    setIsSubmitting(true);
+    setSubmitFailed(false);
+    try {
+      await onCreate(
+        {
+          type: form.type,
+          name: form.name.trim(),
+          note: form.note.trim() || undefined,
+          due_at: form.due_at || undefined,
+          transaction_id: form.transaction_id || undefined,
+        },
+        amountNum > 0 ? amountNum : undefined
+      );
+      onOpenChange(false);
+    } catch (err) {
+      console.error('Failed to create debt:', err);
+      setSubmitFailed(true);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClass = (field?: Field) =>
+    cn(
+      'w-full h-12 px-4 rounded-2xl bg-muted/25 border',
+      'focus:outline-none focus:ring-2 focus:ring-primary/30 text-base',
+      field && flagged.has(field) ? 'border-amber-500/70' : 'border-border/50'
+    );
+
+  const reviewHint = (field: Field) =>
+    flagged.has(field) ? (
+      <span className="inline-flex items-center gap-1 text-[11px] text-amber-500">
+        <AlertCircle className="w-3 h-3" />
+        {t('debts.create.review')}
+      </span>
+    ) : null;
+
+  const footer = (
+    <div className="space-y-2">
+      {submitFailed && <p className="text-sm text-red-500 text-center">{t('errors.saveFailed')}</p>}
+      <button
+        type="button"
+        onClick={handleSubmit}
+        disabled={!canSubmit}
+        className={cn(
+          'w-full h-12 rounded-2xl font-semibold transition-all shadow-lg',
+          'flex items-center justify-center gap-2',
+          canSubmit
+            ? 'bg-primary text-primary-foreground active:scale-[0.99] shadow-primary/20'
+            : 'bg-muted text-muted-foreground cursor-not-allowed shadow-transparent'
+        )}
+      >
+        {isSubmitting ? (
+          <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin" />
+        ) : (
+          <Plus className="w-4 h-4" />
+        )}
+        {isSubmitting ? t('common.loading') : t('debts.create.submit')}
+      </button>
+    </div>
+  );
+
+  return (
+    <BottomSheetShell
+      open={open}
+      onOpenChange={onOpenChange}
+      title={t('debts.create.title')}
+      subtitle={t('debts.create.subtitle')}
+      icon={<Plus className="w-5 h-5 text-primary" />}
+      footer={footer}
+      closeOnBackdrop={!isSubmitting}
+    >
+      <div className="space-y-5">
+        {/* Free text */}
+        <div className="space-y-2">
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder={t('debts.create.textPlaceholder')}
+            rows={2}
+            className="w-full px-4 py-3 rounded-2xl bg-muted/25 border border-border/50 focus:outline-none focus:ring-2 focus:ring-primary/30 resize-none text-base"
+          />
+          <button
+            type="button"
+            onClick={handleParse}
+            disabled={!text.trim() || isParsing}
+            className={cn(
+              'w-full h-10 rounded-xl text-sm font-semibold flex items-center justify-center gap-2 transition-colors',
+              text.trim() && !isParsing ? 'bg-primary/10 text-primary' : 'bg-muted text-muted-foreground'
+            )}
+          >
+            {isParsing ? (
+              <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin" />
+            ) : (
+              <Sparkles className="w-4 h-4" />
+            )}
+            {t('debts.create.parse')}
+          </button>
+        </div>
+
+        {/* Type */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between px-1">
+            <label className="text-sm font-medium text-foreground">{t('debts.create.type')}</label>
+            {reviewHint('type')}
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            {(['borrow', 'lend'] as const).map((type) => (
+              <button
+                key={type}
+                type="button"
+                onClick={() => update('type', type)}
+                className={cn(
+                  'h-11 rounded-xl text-sm font-medium transition-colors border',
+                  form.type === type ? 'border-primary/50 bg-primary/10 text-primary' : 'border-border/50 bg-card/40',
+                  flagged.has('type') && 'border-amber-500/70'
+                )}
+              >
+                {t(`debts.${type}`)}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Person */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between px-1">
+            <label className="text-sm font-medium text-foreground">{t('debts.edit.personName')}</label>
+            {reviewHint('name')}
+          </div>
+          <input
+            type="text"
+            value={form.name}
+            onChange={(e) => update('name', e.target.value)}
+            className={inputClass('name')}
+          />
+        </div>
+
+        {/* Amount, in the linked transaction's currency when there is one */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between px-1">
+            <label className="text-sm font-medium text-foreground">
+              {t('debts.detail.amount')}, {amountCurrency}
+              {linkedTx ? ` (${t('common.optional')})` : ''}
+            </label>
+            {reviewHint('amount')}
+          </div>
+          <input
+            type="text"
+            inputMode="decimal"
+            value={form.amount}
+            onChange={(e) => update('amount', e.target.value.replace(/[^\d.,]/g, ''))}
+            placeholder={linkedTx ? String(Math.abs(linkedTx.amount)) : '0'}
+            className={cn(inputClass('amount'), 'tabular-nums')}
+          />
+        </div>
+
+        {/* Due date */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between px-1">
+            <label className="text-sm font-medium text-foreground">
+              {t('debts.edit.dueDate')} ({t('common.optional')})
+            </label>
+            {reviewHint('due_at')}
+          </div>
+          <input
+            type="date"
+            value={form.due_at}
+            onChange={(e) => update('due_at', e.target.value)}
+            className={inputClass('due_at')}
+          />
+        </div>
+
+        {/* Note */}
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-foreground ml-1">
+            {t('debts.edit.note')} ({t('common.optional')})
+          </label>
+          <input
+            type="text"
+            value={form.note}
+            onChange={(e) => update('note', e.target.value)}
+            className={inputClass()}
+          />
+        </div>
+
+        {/* Linked transaction */}
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-foreground ml-1">
+            {t('debts.detail.linkedTransaction')} ({t('common.optional')})
+          </label>
+          <select
+            value={form.transaction_id}
+            onChange={(e) => update('transaction_id', e.target.value)}
+            className={cn(inputClass(), 'appearance-none cursor-pointer')}
+          >
+            <option value="">{t('debts.create.noTransaction')}</option>
+            {(recentQuery.data ?? []).map((tx) => (
+              <option key={tx.id} value={tx.id}>
+                {formatDateTime(tx.performed_at || tx.created_at, timezone, locale, { year: undefined })} ·{' '}
+                {formatCurrency(tx.amount, tx.currency_code, locale)}
+                {tx.note ? ` · ${tx.note}` : ''}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+    </BottomSheetShell>
+  );
+}
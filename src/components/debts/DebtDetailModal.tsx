@@ -4,7 +4,9 @@ import { useState, useEffect } from 'react';
 import type { Debt } from '@/core/types';
 import { formatCurrency, formatDateTime } from '@/lib/formatters';
 import { cn } from '@/lib/utils';
+import { useQueryClient } from '@tanstack/react-query';
 import { apiClient } from '@/api/client';
+import { queryKeys } from '@/api/queryClient';
 import { useTelegramWebApp } from '@/hooks/useTelegramWebApp';
 import { formatDueDate } from '@/lib/debtHelpers';
 import { BottomSheetShell } from '@/components/ui/BottomSheetShell';
@@ -33,6 +35,7 @@ export function DebtDetailModal({
 }: DebtDetailModalProps) {
   const { t } = useTranslation();
   const { WebApp } = useTelegramWebApp();
+  const queryClient = useQueryClient();
   const isOpen = !!debt;
 
   const [mode, setMode] = useState<'view' | 'edit'>('view');
@@ -81,6 +84,7 @@ export function DebtDetailModal({
 
     try {
       await apiClient.updateDebt(debt.id, formData);
+      queryClient.invalidateQueries({ queryKey: queryKeys.debts });
       WebApp?.HapticFeedback?.notificationOccurred('success');
       WebApp?.showAlert(t('debts.actions.updateSuccess'));
       setMode('view');
@@ -105,6 +109,10 @@ export function DebtDetailModal({
         setLoading(true);
         try {
           await apiClient.payDebt(debt.id, { paid_at: new Date().toISOString() });
+          // paying a debt books a transaction -> balances change
+          queryClient.invalidateQueries({ queryKey: queryKeys.debts });
+          queryClient.invalidateQueries({ queryKey: queryKeys.accounts });
+          queryClient.invalidateQueries({ queryKey: queryKeys.transactions });
           WebApp?.HapticFeedback?.notificationOccurred('success');
           WebApp?.showAlert(t('debts.actions.paySuccess'));
           onDebtUpdated();
@@ -130,6 +138,8 @@ export function DebtDetailModal({
         setLoading(true);
         try {
           await apiClient.cancelDebt(debt.id);
+          queryClient.invalidateQueries({ queryKey: queryKeys.debts });
+          queryClient.invalidateQueries({ queryKey: queryKeys.accounts });
           WebApp?.HapticFeedback?.notificationOccurred('success');
           WebApp?.showAlert(t('debts.actions.cancelSuccess'));
           onDebtUpdated();
@@ -1,22 +1,10 @@
 import { useEffect, useMemo, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { Calendar as CalendarIcon, Check } from 'lucide-react';
-import {
-  startOfMonth,
-  endOfMonth,
-  subMonths,
-  startOfWeek,
-  endOfWeek,
-  subWeeks,
-  subDays,
-  startOfDay,
-  endOfDay,
-  format,
-  isValid,
-  parse,
-} from 'date-fns';
+import { format, isValid, parse, startOfDay, endOfDay } from 'date-fns';
 
 import { cn } from '@/lib/utils';
+import { computePreset, type PresetKey } from '@/lib/datePresets';
 import { BottomSheetShell } from '@/components/ui/BottomSheetShell';
 
 export type DateRange = {
@@ -30,16 +18,9 @@ type Props = {
   onOpenChange: (v: boolean) => void;
   value: DateRange;
   onApply: (v: DateRange) => void;
+  title?: string;
 };
 
-type PresetKey =
-  | 'thisMonth'
-  | 'lastMonth'
-  | 'thisWeek'
-  | 'lastWeek'
-  | 'last30Days'
-  | 'custom';
-
 function toInputDate(d: Date) {
   return isValid(d) ? format(d, 'yyyy-MM-dd') : '';
 }
@@ -50,43 +31,6 @@ function parseInputDate(s: string) {
   return isValid(d) ? d : null;
 }
 
-function computePreset(key: PresetKey) {
-  const now = new Date();
-
-  switch (key) {
-    case 'thisMonth': {
-      const from = startOfDay(startOfMonth(now));
-      const to = endOfDay(endOfMonth(now));
-      return { from, to };
-    }
-    case 'lastMonth': {
-      const m = subMonths(now, 1);
-      const from = startOfDay(startOfMonth(m));
-      const to = endOfDay(endOfMonth(m));
-      return { from, to };
-    }
-    case 'thisWeek': {
-      const from = startOfDay(startOfWeek(now, { weekStartsOn: 1 }));
-      const to = endOfDay(endOfWeek(now, { weekStartsOn: 1 }));
-      return { from, to };
-    }
-    case 'lastWeek': {
-      const w = subWeeks(now, 1);
-      const from = startOfDay(startOfWeek(w, { weekStartsOn: 1 }));
-      const to = endOfDay(endOfWeek(w, { weekStartsOn: 1 }));
-      return { from, to };
-    }
-    case 'last30Days': {
-      const from = startOfDay(subDays(now, 30));
-      const to = endOfDay(now);
-      return { from, to };
-    }
-    case 'custom':
-    default:
-      return null;
-  }
-}
-
 function formatPreview(from: Date, to: Date) {
   const sameYear = from.getFullYear() === to.getFullYear();
   const sameMonth = sameYear && from.getMonth() === to.getMonth();
@@ -96,7 +40,7 @@ function formatPreview(from: Date, to: Date) {
   return `${format(from, 'MMM d, yyyy')} – ${format(to, 'MMM d, yyyy')}`;
 }
 
-export function DateRangeSheet({ open, onOpenChange, value, onApply }: Props) {
+export function DateRangeSheet({ open, onOpenChange, value, onApply, title }: Props) {
   const { t } = useTranslation();
 
   const presets: { key: PresetKey; label: string }[] = useMemo(
@@ -164,7 +108,7 @@ export function DateRangeSheet({ open, onOpenChange, value, onApply }: Props) {
     <BottomSheetShell
       open={open}
       onOpenChange={onOpenChange}
-      title={t('history.dateRange.title')}
+      title={title ?? t('history.dateRange.title')}
       subtitle={previewText}
       icon={<CalendarIcon className="w-5 h-5 text-primary" />}
       footer={
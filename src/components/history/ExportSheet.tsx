@@ -0,0 +1,128 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Download, FileSpreadsheet, FileText } from 'lucide-react';
+import { format } from 'date-fns';
+
+import { cn } from '@/lib/utils';
+import { BottomSheetShell } from '@/components/ui/BottomSheetShell';
+import type { TransactionsQuery } from '@/hooks/useInfiniteTransactions';
+import { exportService, type ExportFormat, type ExportLookups } from '@/services/export.service';
+import type { DateRange } from './DateRangeSheet';
+
+type Props = {
+  open: boolean;
+  onOpenChange: (v: boolean) => void;
+  query: TransactionsQuery;
+  dateRange: DateRange;
+  lookups: ExportLookups;
+  onDone?: (result: { count: number; delivered: 'telegram' | 'cancelled' | 'browser' }) => void;
+  onError?: (error: unknown) => void;
+};
+
+const FORMATS: { value: ExportFormat; icon: typeof FileText }[] = [
+  { value: 'csv', icon: FileText },
+  { value: 'xlsx', icon: FileSpreadsheet },
+];
+
+/**
+ * Exports everything matching the current history filters,
+ * not just the pages loaded in the list.
+ */
+export function ExportSheet({ open, onOpenChange, query, dateRange, lookups, onDone, onError }: Props) {
+  const { t } = useTranslation();
+
+  const [selected, setSelected] = useState<ExportFormat>('csv');
+  const [progress, setProgress] = useState<{ loaded: number; total: number } | null>(null);
+  const isExporting = progress !== null;
+
+  useEffect(() => {
+    if (!open) setProgress(null);
+  }, [open]);
+
+  const handleExport = async () => {
+    if (isExporting) return;
+    setProgress({ loaded: 0, total: 0 });
+
+    try {
+      const items = await exportService.fetchAll(query, (loaded, total) => setProgress({ loaded, total }));
+      const table = exportService.buildTable(items, lookups, t);
+
+      const period = `${format(dateRange.from, 'yyyy-MM-dd')}_${format(dateRange.to, 'yyyy-MM-dd')}`;
+      const fileName = `transactions_${period}.${selected}`;
+      const blob = exportService.toBlob(table, selected, t('export.sheetName'));
+
+      const delivered = await exportService.deliver(blob, fileName);
+      onDone?.({ count: items.length, delivered });
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Export failed:', error);
+      onError?.(error);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const footer = (
+    <button
+      type="button"
+      onClick={handleExport}
+      disabled={isExporting}
+      className={cn(
+        'w-full h-12 rounded-2xl font-semibold transition-all shadow-lg',
+        'flex items-center justify-center gap-2',
+        !isExporting
+          ? 'bg-primary text-primary-foreground active:scale-[0.99] shadow-primary/20'
+          : 'bg-muted text-muted-foreground cursor-not-allowed shadow-transparent'
+      )}
+    >
+      {isExporting ? (
+        <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin" />
+      ) : (
+        <Download className="w-4 h-4" />
+      )}
+      {isExporting
+        ? progress.total > 0
+          ? t('export.progress', { loaded: progress.loaded, total: progress.total })
+          : t('common.loading')
+        : t('export.action')}
+    </button>
+  );
+
+  return (
+    <BottomSheetShell
+      open={open}
+      onOpenChange={onOpenChange}
+      title={t('export.title')}
+      subtitle={t('export.subtitle', {
+        from: format(dateRange.from, 'dd.MM.yyyy'),
+        to: format(dateRange.to, 'dd.MM.yyyy'),
+      })}
+      icon={<Download className="w-5 h-5 text-primary" />}
+      footer={footer}
+      closeOnBackdrop={!isExporting}
+    >
+      <div className="space-y-3">
+        <p className="text-xs text-muted-foreground px-1">{t('export.hint')}</p>
+
+        <div className="grid grid-cols-2 gap-3">
+          {FORMATS.map(({ value, icon: Icon }) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => setSelected(value)}
+              disabled={isExporting}
+              className={cn(
+                'rounded-2xl border px-4 py-4 text-left transition-colors',
+                selected === value ? 'border-primary/50 bg-primary/10' : 'border-border/50 bg-card/40'
+              )}
+            >
+              <Icon className={cn('w-5 h-5 mb-2', selected === value ? 'text-primary' : 'text-muted-foreground')} />
+              <div className="text-sm font-semibold">{t(`export.formats.${value}.title`)}</div>
+              <div className="text-xs text-muted-foreground mt-0.5">{t(`export.formats.${value}.description`)}</div>
+            </button>
+          ))}
+        </div>
+      </div>
+    </BottomSheetShell>
+  );
+}
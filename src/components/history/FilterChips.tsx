@@ -4,7 +4,7 @@ import { useMemo } from 'react';
 import { useTranslation } from 'react-i18next';
 import { cn } from '@/lib/utils';
 
-export type FilterType = 'all' | 'income' | 'expense';
+export type FilterType = 'all' | 'income' | 'expense' | 'transfer';
 
 interface FilterChipsProps {
   selectedFilter: FilterType;
@@ -27,6 +27,7 @@ export function FilterChips({
         { value: 'all' as const, label: t('common.all') },
         { value: 'income' as const, label: t('common.income') },
         { value: 'expense' as const, label: t('common.expense') },
+        { value: 'transfer' as const, label: t('common.transfer') },
       ] as const,
     [t]
   );
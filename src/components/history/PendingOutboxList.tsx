@@ -0,0 +1,155 @@
+import { useTranslation } from 'react-i18next';
+import { Clock, AlertTriangle, RotateCw, Trash2 } from 'lucide-react';
+
+import type { Account, Category, Subcategory } from '@/core/types';
+import type { OutboxItem } from '@/services/outbox.service';
+import { Card, CardContent } from '@/components/ui/card';
+import { formatCurrency, formatDateTime } from '@/lib/formatters';
+import { cn } from '@/lib/utils';
+
+type Props = {
+  items: OutboxItem[];
+  categoryById: Map<number, Category>;
+  subcategoryById: Map<number, Subcategory>;
+  accountById: Map<string, Account>;
+  currencyCode: string;
+  locale?: string;
+  timezone?: string;
+  onRetry: (id: string) => void;
+  onDiscard: (id: string) => void;
+};
+
+/**
+ * Transactions created while offline, shown above the history list
+ * until the outbox replays them.
+ */
+export function PendingOutboxList({
+  items,
+  categoryById,
+  subcategoryById,
+  accountById,
+  currencyCode,
+  locale,
+  timezone,
+  onRetry,
+  onDiscard,
+}: Props) {
+  const { t } = useTranslation();
+
+  const rows = items.filter(
+    (it): it is Extract<OutboxItem, { kind: 'createTransaction' }> => it.kind === 'createTransaction'
+  );
+  if (rows.length === 0) return null;
+
+  return (
+    <div>
+      <h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wide mb-2 px-1">
+        {t('history.pending.title')}
+      </h3>
+
+      <div className="space-y-2">
+        {rows.map((item) => {
+          const tx = item.payload;
+          const category = tx.category_id ? categoryById.get(tx.category_id) : undefined;
+          const subcategory = tx.subcategory_id ? subcategoryById.get(tx.subcategory_id) : undefined;
+          const account = accountById.get(tx.account_id);
+          const toAccount = tx.to_account_id ? accountById.get(tx.to_account_id) : undefined;
+          const isIncome = tx.type === 'deposit';
+          const isTransfer = tx.type === 'transfer';
+          const failed = item.status === 'failed';
+
+          return (
+            <Card
+              key={item.id}
+              className={cn(
+                'border border-dashed bg-card/30',
+                failed ? 'border-red-500/50' : 'border-border/60'
+              )}
+            >
+              <CardContent className="p-3.5">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-3 flex-1 min-w-0">
+                    <div className="w-10 h-10 rounded-2xl flex items-center justify-center flex-shrink-0 border border-border/30 bg-muted/30">
+                      <div className="text-xl opacity-70">{isTransfer ? '🔁' : subcategory?.emoji || category?.emoji || '📌'}</div>
+                    </div>
+
+                    <div className="flex-1 min-w-0">
+                      <p className="font-semibold text-sm text-foreground truncate">
+                        {tx.note ||
+                          subcategory?.name ||
+                          category?.name ||
+                          (isTransfer ? t('common.transfer') : isIncome ? t('common.income') : t('common.expense'))}
+                      </p>
+
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground mt-0.5">
+                        <span className="truncate">
+                          {isTransfer
+                            ? `${account?.name || t('common.unknown')} → ${toAccount?.name || t('common.unknown')}`
+                            : account?.name || t('common.accounts')}
+                        </span>
+                        <span>•</span>
+                        <span className="truncate">
+                          {formatDateTime(tx.performed_at || item.created_at, timezone, locale, {
+                            hour: '2-digit',
+                            minute: '2-digit',
+                          })}
+                        </span>
+                      </div>
+                    </div>
+                  </div>
+
+                  <p
+                    className={cn(
+                      'font-bold tabular-nums text-base ml-3 flex-shrink-0 opacity-70',
+                      isTransfer ? 'text-foreground' : isIncome ? 'text-green-500' : 'text-red-500'
+                    )}
+                  >
+                    {isTransfer ? '' : isIncome ? '+' : '-'}
+                    {formatCurrency(Math.abs(tx.amount), tx.currency_code || currencyCode, locale)}
+                  </p>
+                </div>
+
+                <div className="mt-2 flex items-center justify-between gap-2">
+                  <span
+                    className={cn(
+                      'inline-flex items-center gap-1 text-[11px] font-medium px-2 py-0.5 rounded-full',
+                      failed ? 'bg-red-500/10 text-red-500' : 'bg-muted/60 text-muted-foreground'
+                    )}
+                  >
+                    {failed ? <AlertTriangle className="w-3 h-3" /> : <Clock className="w-3 h-3" />}
+                    {item.uncertain
+                      ? t('history.pending.maybeSaved')
+                      : failed
+                        ? t('history.pending.failed')
+                        : t('history.pending.pending')}
+                  </span>
+
+                  {failed && (
+                    <div className="flex items-center gap-1">
+                      <button
+                        type="button"
+                        onClick={() => onRetry(item.id)}
+                        className="p-1.5 rounded-full hover:bg-muted transition-colors"
+                        aria-label={t('history.pending.retry')}
+                      >
+                        <RotateCw className="w-4 h-4" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => onDiscard(item.id)}
+                        className="p-1.5 rounded-full hover:bg-muted text-red-500 transition-colors"
+                        aria-label={t('history.pending.discard')}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,235 @@
+import { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useQuery } from '@tanstack/react-query';
+import { AlertCircle, Check, Sparkles, X } from 'lucide-react';
+
+import { apiClient } from '@/api/client';
+import type { Account, Category, CreateTransactionRequest, Subcategory } from '@/core/types';
+import { cn } from '@/lib/utils';
+import { formatCurrency } from '@/lib/formatters';
+import { accountCurrency } from '@/lib/currency';
+import { matchCategory } from '@/lib/categoryMatch';
+import { useDebouncedValue } from '@/hooks/useDebouncedValue';
+import { useTelegramWebApp } from '@/hooks/useTelegramWebApp';
+import { fxService } from '@/services/fx.service';
+
+// the parser's own confidence, and how close a category name has to be to count as certain
+const LOW_CONFIDENCE = 0.7;
+const SURE_CATEGORY_SCORE = 0.9;
+
+type Props = {
+  accounts: Account[];
+  categories: Category[];
+  subcategories: Subcategory[];
+  currencyCode: string;
+  locale?: string;
+  onSave: (data: CreateTransactionRequest) => Promise<void>;
+};
+
+function round2(n: number) {
+  return Math.round((n + Number.EPSILON) * 100) / 100;
+}
+
+/** "coffee 25k" -> live preview -> one tap to save, without leaving history */
+export function QuickAddBar({ accounts, categories, subcategories, currencyCode, locale, onSave }: Props) {
+  const { t } = useTranslation();
+  const { haptic, WebApp } = useTelegramWebApp();
+
+  const [text, setText] = useState('');
+  const [type, setType] = useState<'withdrawal' | 'deposit'>('withdrawal');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const debounced = useDebouncedValue(text.trim(), 400);
+
+  const parseQuery = useQuery({
+    queryKey: ['parse-text', debounced],
+    queryFn: () => apiClient.parseText({ content: debounced }),
+    enabled: debounced.length >= 2,
+    staleTime: Infinity,
+    retry: false,
+  });
+
+  const account = accounts.find((a) => a.is_default) || accounts.find((a) => !a.is_archived);
+  const parsed = debounced === text.trim() ? parseQuery.data : undefined;
+
+  const preview = useMemo(() => {
+    if (!parsed?.amount) return null;
+
+    // the parser answers with the user's own ids; guess from the words only when it has none
+    const byId = categories.find((c) => c.id === parsed.category_id);
+    const match = byId
+      ? { category_id: byId.id, subcategory_id: parsed.subcategory_id, score: 1 }
+      : matchCategory(parsed.note || debounced, categories, subcategories);
+    const category = match ? categories.find((c) => c.id === match.category_id) : undefined;
+    const subcategory = match?.subcategory_id
+      ? subcategories.find((s) => s.id === match.subcategory_id && s.category_id === category?.id)
+      : undefined;
+
+    return {
+      amount: Math.abs(parsed.amount),
+      currency: parsed.currency || accountCurrency(account, currencyCode),
+      note: parsed.note,
+      category,
+      subcategory,
+      unsureAmount: (parsed.confidence ?? 0) < LOW_CONFIDENCE,
+      unsureCategory: !match || match.score < SURE_CATEGORY_SCORE,
+    };
+  }, [parsed, debounced, categories, subcategories, account, currencyCode]);
+
+  const handleSave = async () => {
+    if (!preview || !account || isSaving) return;
+
+    setIsSaving(true);
+    try {
+      const target = accountCurrency(account, currencyCode);
+      const request: CreateTransactionRequest = {
+        account_id: account.id,
+        type,
+        amount: preview.amount,
+        currency_code: target,
+        category_id: preview.category?.id,
+        subcategory_id: preview.subcategory?.id,
+        note: preview.note || text.trim(),
+        performed_at: new Date().toISOString(),
+      };
+
+      // typed in another currency: convert into the account's like AmountInput does
+      if (preview.currency !== target) {
+        const rate = await fxService.getRate(preview.currency, target, new Date().toISOString().slice(0, 10));
+        if (!rate) {
+          haptic?.notificationOccurred?.('error');
+          WebApp.showAlert?.(t('history.quickAdd.noRate', { from: preview.currency, to: target }));
+          return;
+        }
+        request.amount = round2(preview.amount * rate.rate);
+        request.original_amount = preview.amount;
+        request.original_currency_code = preview.currency;
+        request.fx_rate = rate.rate;
+      }
+
+      await onSave(request);
+      setText('');
+      setType('withdrawal');
+    } catch (err) {
+      // onSave has already alerted for API errors; the text stays so the user can retry
+      console.error('Quick add failed:', err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const showPreview = text.trim().length >= 2;
+
+  return (
+    <div className="rounded-2xl border border-border/50 bg-card/40 p-2">
+      <div className="flex items-center gap-2 px-2">
+        <Sparkles className="w-4 h-4 text-primary shrink-0" />
+        <input
+          type="text"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleSave();
+          }}
+          placeholder={t('history.quickAdd.placeholder')}
+          className="flex-1 h-10 bg-transparent outline-none text-sm placeholder:text-muted-foreground/60 min-w-0"
+          enterKeyHint="done"
+        />
+        {text && (
+          <button
+            type="button"
+            onClick={() => setText('')}
+            className="p-1 text-muted-foreground hover:text-foreground"
+            aria-label={t('common.close')}
+          >
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {showPreview && (
+        <div className="mt-2 rounded-xl bg-background/70 p-3">
+          {parseQuery.isFetching || debounced !== text.trim() ? (
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              <div className="w-3 h-3 border-2 border-current border-t-transparent rounded-full animate-spin" />
+              {t('history.quickAdd.parsing')}
+            </div>
+          ) : !preview ? (
+            <p className="text-xs text-muted-foreground">
+              {parseQuery.isError ? t('history.quickAdd.failed') : t('history.quickAdd.noAmount')}
+            </p>
+          ) : (
+            <div className="space-y-3">
+              <div className="flex items-center gap-3">
+                <div className="w-10 h-10 rounded-full bg-muted flex items-center justify-center text-lg shrink-0">
+                  {preview.subcategory?.emoji || preview.category?.emoji || '💸'}
+                </div>
+
+                <div className="flex-1 min-w-0">
+                  <div
+                    className={cn(
+                      'text-sm font-medium truncate flex items-center gap-1',
+                      preview.unsureCategory && 'text-amber-500'
+                    )}
+                  >
+                    {preview.unsureCategory && <AlertCircle className="w-3 h-3 shrink-0" />}
+                    {preview.category
+                      ? [preview.category.name, preview.subcategory?.name].filter(Boolean).join(' · ')
+                      : t('history.quickAdd.noCategory')}
+                  </div>
+                  <div className="text-xs text-muted-foreground truncate">
+                    {account?.name}
+                    {preview.note ? ` · ${preview.note}` : ''}
+                  </div>
+                </div>
+
+                <div
+                  className={cn(
+                    'text-base font-semibold tabular-nums shrink-0',
+                    type === 'deposit' ? 'text-green-500' : 'text-foreground',
+                    preview.unsureAmount && 'text-amber-500'
+                  )}
+                >
+                  {type === 'deposit' ? '+' : '-'}
+                  {formatCurrency(preview.amount, preview.currency, locale)}
+                </div>
+              </div>
+
+              <div className="flex gap-2">
+                <div className="flex rounded-xl bg-muted/50 p-0.5">
+                  {(['withdrawal', 'deposit'] as const).map((value) => (
+                    <button
+                      key={value}
+                      type="button"
+                      onClick={() => setType(value)}
+                      className={cn(
+                        'px-3 h-9 rounded-[10px] text-xs font-medium transition-colors',
+                        type === value ? 'bg-background shadow-sm text-foreground' : 'text-muted-foreground'
+                      )}
+                    >
+                      {value === 'deposit' ? t('common.income') : t('common.expense')}
+                    </button>
+                  ))}
+                </div>
+
+                <button
+                  type="button"
+                  onClick={handleSave}
+                  disabled={isSaving || !account}
+                  className="flex-1 h-10 rounded-xl bg-primary text-primary-foreground text-sm font-semibold flex items-center justify-center gap-2 active:scale-[0.99] disabled:opacity-60"
+                >
+                  {isSaving ? (
+                    <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin" />
+                  ) : (
+                    <Check className="w-4 h-4" />
+                  )}
+                  {t('history.quickAdd.save')}
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
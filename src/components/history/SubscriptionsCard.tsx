@@ -0,0 +1,99 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ChevronDown, Repeat, X } from 'lucide-react';
+
+import type { Category } from '@/core/types';
+import { cn } from '@/lib/utils';
+import { formatCurrency } from '@/lib/formatters';
+import { formatOccurrence } from '@/lib/recurrence';
+import type { SubscriptionCandidate } from '@/lib/subscriptions';
+
+// candidates the user said aren't subscriptions stay hidden across sessions
+const DISMISSED_KEY = 'dismissed_subscriptions';
+
+function loadDismissed(): Set<string> {
+  try {
+    return new Set(JSON.parse(localStorage.getItem(DISMISSED_KEY) || '[]'));
+  } catch {
+    return new Set();
+  }
+}
+
+type Props = {
+  candidates: SubscriptionCandidate[];
+  categories: Category[];
+  locale?: string;
+  onTrack: (candidate: SubscriptionCandidate) => void;
+};
+
+/** Repeating payments found in the loaded history, offered as recurring rules */
+export function SubscriptionsCard({ candidates, categories, locale, onTrack }: Props) {
+  const { t } = useTranslation();
+
+  const [dismissed, setDismissed] = useState(loadDismissed);
+  const [expanded, setExpanded] = useState(false);
+
+  const visible = candidates.filter((c) => !dismissed.has(c.key));
+  if (visible.length === 0) return null;
+
+  const dismiss = (key: string) => {
+    const next = new Set(dismissed).add(key);
+    setDismissed(next);
+    localStorage.setItem(DISMISSED_KEY, JSON.stringify([...next]));
+  };
+
+  return (
+    <div className="rounded-3xl border border-border/40 bg-card/30 overflow-hidden">
+      <button
+        type="button"
+        onClick={() => setExpanded((v) => !v)}
+        className="w-full flex items-center gap-3 px-4 py-3 text-left"
+      >
+        <Repeat className="w-4 h-4 text-primary shrink-0" />
+        <span className="flex-1 text-sm font-medium">{t('history.subscriptions.title', { count: visible.length })}</span>
+        <ChevronDown className={cn('w-4 h-4 text-muted-foreground transition-transform', expanded && 'rotate-180')} />
+      </button>
+
+      {expanded && (
+        <div className="border-t border-border/40 divide-y divide-border/30">
+          {visible.map((c) => {
+            const category = categories.find((cat) => cat.id === c.category_id);
+            return (
+              <div key={c.key} className="flex items-center gap-3 px-4 py-3">
+                <span className="text-xl">{category?.emoji || '🔁'}</span>
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-medium truncate">
+                    {c.note || category?.name || t('recurring.untitled')} ·{' '}
+                    <span className="tabular-nums">{formatCurrency(c.amount, c.currency_code, locale)}</span>
+                  </div>
+                  <div className="text-xs text-muted-foreground truncate">
+                    {t('history.subscriptions.pattern', {
+                      cadence: t(`recurring.cadences.${c.cadence}`),
+                      count: c.count,
+                      date: formatOccurrence(c.next_date, locale),
+                    })}
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => onTrack(c)}
+                  className="px-3 h-8 rounded-xl bg-primary/10 text-primary text-xs font-semibold shrink-0"
+                >
+                  {t('history.subscriptions.track')}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => dismiss(c.key)}
+                  className="p-1.5 rounded-full text-muted-foreground hover:bg-muted shrink-0"
+                  aria-label={t('history.subscriptions.dismiss')}
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,7 +3,10 @@ import { useTranslation } from 'react-i18next';
 import { Edit2, Save, Trash2 } from 'lucide-react';
 
 import type { Transaction, Category, Subcategory, Account } from '@/core/types';
+import { useQueryClient } from '@tanstack/react-query';
 import { apiClient } from '@/api/client';
+import { queryKeys } from '@/api/queryClient';
+import { outboxService, isNetworkError, isUncertainDelivery } from '@/services/outbox.service';
 import { useTelegramWebApp } from '@/hooks/useTelegramWebApp';
 import { cn } from '@/lib/utils';
 import { formatCurrency, formatDateTime } from '@/lib/formatters';
@@ -17,8 +20,12 @@ interface TransactionDetailModalProps {
   locale?: string;
   timezone?: string;
   onClose: () => void;
-  onTransactionUpdated?: () => void;
-  onTransactionDeleted?: () => void;
+  onTransactionUpdated?: (transaction: Transaction) => void;
+  onTransactionDeleted?: (id: string) => void;
+  /** Apply the edit to the list before the request; returns a rollback */
+  onOptimisticUpdate?: (id: string, patch: EditableFields) => () => void;
+  /** Drop the row before the request; returns a rollback */
+  onOptimisticDelete?: (id: string) => () => void;
 }
 
 interface EditableFields {
@@ -58,9 +65,12 @@ export function TransactionDetailModal({
   onClose,
   onTransactionUpdated,
   onTransactionDeleted,
+  onOptimisticUpdate,
+  onOptimisticDelete,
 }: TransactionDetailModalProps) {
   const { t } = useTranslation();
   const { WebApp } = useTelegramWebApp();
+  const queryClient = useQueryClient();
 
   const open = !!transaction;
 
@@ -71,8 +81,17 @@ export function TransactionDetailModal({
   const category = transaction ? categories.find((c) => c.id === transaction.category_id) : undefined;
   const subcategory = transaction ? subcategories.find((s) => s.id === transaction.subcategory_id) : undefined;
   const account = transaction ? accounts.find((a) => a.id === transaction.account_id) : undefined;
-
-  const displayEmoji = subcategory?.emoji || category?.emoji || '📌';
+  const toAccount = transaction?.to_account_id
+    ? accounts.find((a) => a.id === transaction.to_account_id)
+    : undefined;
+
+  const isTransfer = transaction?.type === 'transfer';
+  const isAdjustment = transaction?.type === 'adjustment';
+  const displayEmoji = isTransfer
+    ? '🔁'
+    : isAdjustment
+      ? '⚖️'
+      : subcategory?.emoji || category?.emoji || '📌';
   const isIncome = transaction?.type === 'deposit';
   const amount = transaction?.amount ?? 0;
   const isPositive = amount >= 0;
@@ -81,9 +100,15 @@ export function TransactionDetailModal({
     if (!transaction) return '';
     const base =
       (transaction.note || '').trim() ||
-      (isIncome ? t('transaction.income') : t('transaction.expense'));
+      (isTransfer
+        ? t('transaction.transfer')
+        : isAdjustment
+          ? t('transaction.adjustment')
+          : isIncome
+            ? t('transaction.income')
+            : t('transaction.expense'));
     return clampText(base, 64);
-  }, [transaction, isIncome, t]);
+  }, [transaction, isTransfer, isAdjustment, isIncome, t]);
 
   const subtitleText = useMemo(() => {
     if (!transaction) return '';
@@ -142,15 +167,38 @@ export function TransactionDetailModal({
     WebApp?.HapticFeedback?.impactOccurred('medium');
     setLoading(true);
 
+    // patch the list right away; the sheet closes without waiting for the API
+    const rollback = onOptimisticUpdate?.(transaction.id, formData);
+    if (rollback) {
+      setMode('view');
+      handleClose();
+    }
+
     try {
-      await apiClient.updateTransaction(transaction.id, formData);
+      const updated = await apiClient.updateTransaction(transaction.id, formData);
+      queryClient.invalidateQueries({ queryKey: queryKeys.transactions });
+      queryClient.invalidateQueries({ queryKey: queryKeys.budgets });
       WebApp?.HapticFeedback?.notificationOccurred('success');
       WebApp?.showAlert(t('transaction.updateSuccess'));
       setMode('view');
-      onTransactionUpdated?.();
+      onTransactionUpdated?.(updated);
       handleClose();
     } catch (err) {
+      if (isNetworkError(err) || isUncertainDelivery(err)) {
+        // keep the optimistic patch, the outbox will replay it (a repeated PUT is harmless)
+        await outboxService.enqueue({
+          kind: 'updateTransaction',
+          transaction_id: transaction.id,
+          payload: formData,
+        });
+        WebApp?.HapticFeedback?.notificationOccurred('warning');
+        WebApp?.showAlert(t('transaction.savedOffline'));
+        setMode('view');
+        handleClose();
+        return;
+      }
       console.error('Failed to update transaction:', err);
+      rollback?.();
       WebApp?.HapticFeedback?.notificationOccurred('error');
       WebApp?.showAlert(t('errors.updateFailed'));
     } finally {
@@ -169,14 +217,23 @@ export function TransactionDetailModal({
         if (!confirmed) return;
 
         setLoading(true);
+
+        const rollback = onOptimisticDelete?.(transaction.id);
+        if (rollback) handleClose();
+
         try {
           await apiClient.deleteTransaction(transaction.id);
+          // deleting reverts the amount on the account balance
+          queryClient.invalidateQueries({ queryKey: queryKeys.transactions });
+          queryClient.invalidateQueries({ queryKey: queryKeys.budgets });
+          queryClient.invalidateQueries({ queryKey: queryKeys.accounts });
           WebApp?.HapticFeedback?.notificationOccurred('success');
           WebApp?.showAlert(t('transaction.deleteSuccess'));
-          onTransactionDeleted?.();
+          onTransactionDeleted?.(transaction.id);
           handleClose();
         } catch (err) {
           console.error('Failed to delete transaction:', err);
+          rollback?.();
           WebApp?.HapticFeedback?.notificationOccurred('error');
           WebApp?.showAlert(t('errors.deleteFailed'));
         } finally {
@@ -284,10 +341,10 @@ export function TransactionDetailModal({
               className={cn(
                 'font-extrabold tabular-nums tracking-tight',
                 'text-[clamp(22px,7vw,34px)] break-words',
-                isPositive ? 'text-emerald-500' : 'text-rose-500'
+                isTransfer ? 'text-foreground' : isPositive ? 'text-emerald-500' : 'text-rose-500'
               )}
             >
-              {isPositive ? '+' : '-'}
+              {isTransfer ? '' : isPositive ? '+' : '-'}
               {formatCurrency(Math.abs(amount), transaction.currency_code, locale)}
             </p>
           </div>
@@ -331,12 +388,21 @@ export function TransactionDetailModal({
           <div className="rounded-3xl border border-border/40 bg-card/30 p-4 space-y-3">
             <DetailRow
               label={t('transaction.type')}
-              value={isIncome ? t('transaction.income') : t('transaction.expense')}
-              icon={isIncome ? '💰' : '💸'}
+              value={
+                isTransfer
+                  ? t('transaction.transfer')
+                  : isAdjustment
+                    ? t('transaction.adjustment')
+                    : isIncome
+                      ? t('transaction.income')
+                      : t('transaction.expense')
+              }
+              icon={isTransfer ? '🔁' : isAdjustment ? '⚖️' : isIncome ? '💰' : '💸'}
               readOnly
             />
 
-            {mode === 'view' ? (
+            {/* transfers and adjustments carry no category */}
+            {isTransfer || isAdjustment ? null : mode === 'view' ? (
               <>
                 {category && (
                   <DetailRow label={t('transaction.category')} value={category.name} icon={category.emoji || '📁'} />
@@ -372,8 +438,35 @@ export function TransactionDetailModal({
               </>
             )}
 
-            {account && (
-              <DetailRow label={t('transaction.account')} value={account.name} icon="📊" readOnly />
+            {isTransfer ? (
+              <>
+                <DetailRow
+                  label={t('transaction.fromAccount')}
+                  value={account?.name || t('common.unknown')}
+                  icon="📤"
+                  readOnly
+                />
+                <DetailRow
+                  label={t('transaction.toAccount')}
+                  value={toAccount?.name || t('common.unknown')}
+                  icon="📥"
+                  readOnly
+                />
+                {transaction.to_amount !== undefined && transaction.to_currency_code !== transaction.currency_code && (
+                  <DetailRow
+                    label={t('transaction.amountReceived')}
+                    value={formatCurrency(
+                      transaction.to_amount,
+                      transaction.to_currency_code || transaction.currency_code,
+                      locale
+                    )}
+                    icon="💱"
+                    readOnly
+                  />
+                )}
+              </>
+            ) : (
+              account && <DetailRow label={t('transaction.account')} value={account.name} icon="📊" readOnly />
             )}
 
             {mode === 'view' ? (
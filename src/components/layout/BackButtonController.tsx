@@ -0,0 +1,66 @@
+import { useEffect, useMemo, useRef } from 'react';
+import type { ReactNode } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+
+import { useTelegramWebApp } from '@/hooks/useTelegramWebApp';
+import { BackButtonContext, type BackButtonRegistry } from '@/hooks/useBackButton';
+import { isTabRoot, tabRootOf } from './tabs';
+
+/**
+ * Single owner of the Telegram BackButton. It is shown everywhere except on tab roots
+ * (unless the entry is a drill-down, see `drillDown` state) and goes back through router
+ * history, or to the tab root when the page was opened directly (deep link, bot draft).
+ */
+export function BackButtonController({ children }: { children: ReactNode }) {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { isReady, WebApp } = useTelegramWebApp();
+
+  const overrides = useRef<(() => void)[]>([]);
+  const registry = useMemo<BackButtonRegistry>(
+    () => ({
+      push: (handler) => {
+        overrides.current = [...overrides.current, handler];
+        return () => {
+          overrides.current = overrides.current.filter((h) => h !== handler);
+        };
+      },
+    }),
+    []
+  );
+
+  const drillDown = !!(location.state as { drillDown?: boolean } | null)?.drillDown;
+  const visible = !isTabRoot(location.pathname) || drillDown;
+
+  const handleBack = useRef<() => void>(() => {});
+  useEffect(() => {
+    handleBack.current = () => {
+      const override = overrides.current[overrides.current.length - 1];
+      if (override) {
+        override();
+        return;
+      }
+      // BrowserRouter keeps the entry index in history.state
+      const idx = (window.history.state as { idx?: number } | null)?.idx ?? 0;
+      if (idx > 0) navigate(-1);
+      else navigate(tabRootOf(location.pathname), { replace: true });
+    };
+  }, [location.pathname, navigate]);
+
+  useEffect(() => {
+    if (!isReady) return;
+    const handler = () => handleBack.current();
+    WebApp.BackButton.onClick(handler);
+    return () => {
+      WebApp.BackButton.offClick(handler);
+    };
+  }, [isReady, WebApp]);
+
+  useEffect(() => {
+    if (!isReady) return;
+    if (visible) WebApp.BackButton.show();
+    else WebApp.BackButton.hide();
+  }, [isReady, visible, WebApp]);
+
+  return <BackButtonContext.Provider value={registry}>{children}</BackButtonContext.Provider>;
+}
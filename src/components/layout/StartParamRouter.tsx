@@ -0,0 +1,80 @@
+import { useEffect, useMemo } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+
+import { useTelegramWebApp } from '@/hooks/useTelegramWebApp';
+import { useCategories, useSubcategories } from '@/hooks/useReferenceData';
+import { parseStartParam } from '@/lib/startParam';
+import { matchCategory, type CategoryMatch } from '@/lib/categoryMatch';
+
+// a reload inside Telegram keeps the same init data; route only on the first open
+const HANDLED_KEY = 'start_param_handled';
+
+/**
+ * Routes a Telegram deep link (`startapp=...`) to its page once per session.
+ * Pages pick up the target from router state: `transactionId` on history,
+ * `debtId` on debts, `preset` on stats.
+ */
+export function StartParamRouter() {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { isReady, WebApp } = useTelegramWebApp();
+
+  const raw = WebApp.initDataUnsafe?.start_param;
+  const command = useMemo(() => parseStartParam(raw), [raw]);
+
+  // names need the category list; ids don't
+  const needsCategories = command?.kind === 'history' && 'categoryName' in command;
+  const categoriesQuery = useCategories();
+  const subcategoriesQuery = useSubcategories();
+
+  useEffect(() => {
+    if (!isReady || !command || !raw) return;
+    if (sessionStorage.getItem(HANDLED_KEY) === raw) return;
+    // the bot's ?data= drafts own the screen
+    if (location.pathname === '/transaction') return;
+    if (needsCategories && (!categoriesQuery.data || !subcategoriesQuery.data)) return;
+
+    sessionStorage.setItem(HANDLED_KEY, raw);
+
+    switch (command.kind) {
+      case 'tx':
+        navigate('/history', { replace: true, state: { transactionId: command.id } });
+        break;
+      case 'debt':
+        navigate('/debts', { replace: true, state: { debtId: command.id } });
+        break;
+      case 'stats':
+        navigate('/stats', { replace: true, state: { preset: command.preset } });
+        break;
+      case 'history': {
+        const match: Omit<CategoryMatch, 'score'> | null =
+          'categoryId' in command
+            ? { category_id: command.categoryId }
+            : matchCategory(command.categoryName, categoriesQuery.data ?? [], subcategoriesQuery.data ?? []);
+        if (!match) {
+          console.warn('Deep link category not found:', raw);
+          break;
+        }
+        navigate('/history', {
+          replace: true,
+          state: {
+            category_ids: [match.category_id],
+            subcategory_ids: match.subcategory_id ? [match.subcategory_id] : undefined,
+          },
+        });
+        break;
+      }
+    }
+  }, [
+    isReady,
+    command,
+    raw,
+    location.pathname,
+    needsCategories,
+    categoriesQuery.data,
+    subcategoriesQuery.data,
+    navigate,
+  ]);
+
+  return null;
+}
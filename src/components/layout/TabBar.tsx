@@ -0,0 +1,53 @@
+import { useLocation, useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+
+import { cn } from '@/lib/utils';
+import { useTelegramWebApp } from '@/hooks/useTelegramWebApp';
+import { TABS, TAB_BAR_HEIGHT, tabRootOf } from './tabs';
+
+export function TabBar() {
+  const { t } = useTranslation();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { haptic } = useTelegramWebApp();
+
+  const activeRoot = tabRootOf(location.pathname);
+
+  const handleTap = (path: string) => {
+    // re-tapping the tab you are on (or a page inside it) goes back to its root
+    if (location.pathname === path && !location.state) return;
+    haptic?.selectionChanged?.();
+    navigate(path);
+  };
+
+  return (
+    <nav
+      className={cn(
+        'fixed inset-x-0 bottom-0 z-30',
+        'border-t border-border/40 bg-background/85 backdrop-blur-xl',
+        'pb-[env(safe-area-inset-bottom)]'
+      )}
+    >
+      <div className="max-w-md mx-auto grid grid-cols-5" style={{ height: TAB_BAR_HEIGHT }}>
+        {TABS.map(({ path, icon: Icon, labelKey }) => {
+          const active = activeRoot === path;
+          return (
+            <button
+              key={path}
+              type="button"
+              onClick={() => handleTap(path)}
+              aria-current={active ? 'page' : undefined}
+              className={cn(
+                'flex flex-col items-center justify-center gap-1 transition-colors',
+                active ? 'text-primary' : 'text-muted-foreground hover:text-foreground'
+              )}
+            >
+              <Icon className="w-5 h-5" />
+              <span className="text-[10px] font-medium leading-none truncate max-w-full px-1">{t(labelKey)}</span>
+            </button>
+          );
+        })}
+      </div>
+    </nav>
+  );
+}
@@ -0,0 +1,63 @@
+import { Suspense, useEffect, useLayoutEffect, useRef } from 'react';
+import type { ReactNode } from 'react';
+import { Outlet, useLocation } from 'react-router-dom';
+
+import { TabBar } from './TabBar';
+import { TAB_BAR_HEIGHT } from './tabs';
+
+// pages render from cache but may still be loading; keep trying to reach the saved offset this long
+const RESTORE_FRAMES = 60;
+
+/**
+ * Layout route for the tab pages: bottom tab bar plus per-page scroll positions,
+ * so switching tabs and coming back lands where you left off.
+ */
+export function TabLayout({ fallback }: { fallback: ReactNode }) {
+  const location = useLocation();
+
+  const positions = useRef(new Map<string, number>());
+  const currentKey = useRef(location.pathname);
+
+  useEffect(() => {
+    window.history.scrollRestoration = 'manual';
+
+    const handleScroll = () => {
+      positions.current.set(currentKey.current, window.scrollY);
+    };
+    window.addEventListener('scroll', handleScroll, { passive: true });
+    return () => window.removeEventListener('scroll', handleScroll);
+  }, []);
+
+  useLayoutEffect(() => {
+    const key = location.pathname;
+    currentKey.current = key;
+
+    const target = positions.current.get(key) ?? 0;
+    window.scrollTo(0, target);
+    if (target === 0) return;
+
+    // the page may not be tall enough yet (lazy chunk, skeleton), retry until it is
+    let frame = 0;
+    let raf = 0;
+    const retry = () => {
+      if (currentKey.current !== key || window.scrollY >= target || frame++ >= RESTORE_FRAMES) return;
+      window.scrollTo(0, target);
+      raf = requestAnimationFrame(retry);
+    };
+    raf = requestAnimationFrame(retry);
+    return () => cancelAnimationFrame(raf);
+  }, [location.pathname]);
+
+  return (
+    <>
+      <div style={{ paddingBottom: `calc(${TAB_BAR_HEIGHT} + env(safe-area-inset-bottom))` }}>
+        <Suspense fallback={fallback}>
+          {/* one instance per page, so back/forward and re-taps keep its state; only an entry that
+              brings its own state (a drill-down, a deep link) starts fresh */}
+          <Outlet key={location.state ? `${location.pathname}#${location.key}` : location.pathname} />
+        </Suspense>
+      </div>
+      <TabBar />
+    </>
+  );
+}
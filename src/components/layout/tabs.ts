@@ -0,0 +1,29 @@
+import { History, PieChart, HandCoins, Wallet, Settings } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+
+export type Tab = {
+  path: string;
+  icon: LucideIcon;
+  labelKey: string;
+};
+
+// content under the layout is padded by this plus the bottom safe area
+export const TAB_BAR_HEIGHT = '4rem';
+
+export const TABS: Tab[] = [
+  { path: '/history', icon: History, labelKey: 'history.title' },
+  { path: '/stats', icon: PieChart, labelKey: 'stats.title' },
+  { path: '/debts', icon: HandCoins, labelKey: 'debts.title' },
+  { path: '/accounts', icon: Wallet, labelKey: 'accounts.title' },
+  { path: '/settings', icon: Settings, labelKey: 'settings.title' },
+];
+
+/** Tab a path belongs to; pages outside the tabs (e.g. /transaction) fall back to history */
+export function tabRootOf(pathname: string): string {
+  const tab = TABS.find((t) => pathname === t.path || pathname.startsWith(`${t.path}/`));
+  return tab?.path ?? TABS[0].path;
+}
+
+export function isTabRoot(pathname: string): boolean {
+  return TABS.some((t) => t.path === pathname);
+}
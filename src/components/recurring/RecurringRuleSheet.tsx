@@ -0,0 +1,368 @@
+import { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Check, Repeat, Trash2, AlertCircle } from 'lucide-react';
+import { addYears } from 'date-fns';
+
+import type {
+  Account,
+  Category,
+  CreateRecurringRuleRequest,
+  RecurrenceCadence,
+  RecurringRule,
+  Subcategory,
+} from '@/core/types';
+import { cn } from '@/lib/utils';
+import { accountCurrency } from '@/lib/currency';
+import { formatOccurrence, occurrencesBetween, parseDate, ruleRecurrence, toDateKey } from '@/lib/recurrence';
+import { BottomSheetShell } from '@/components/ui/BottomSheetShell';
+
+const CADENCES: RecurrenceCadence[] = ['daily', 'weekly', 'monthly', 'custom'];
+
+// how many upcoming dates the form previews
+const PREVIEW_COUNT = 3;
+
+export type RuleDraft = Partial<CreateRecurringRuleRequest>;
+
+type FormState = {
+  type: 'withdrawal' | 'deposit';
+  amount: string;
+  account_id: string;
+  category_id: string;
+  subcategory_id: string;
+  note: string;
+  cadence: RecurrenceCadence;
+  rrule: string;
+  start_date: string; // YYYY-MM-DD
+};
+
+type Props = {
+  open: boolean;
+  onOpenChange: (v: boolean) => void;
+  // editing an existing rule, or a new one prefilled from `draft`
+  rule?: RecurringRule | null;
+  draft?: RuleDraft | null;
+  accounts: Account[];
+  categories: Category[];
+  subcategories: Subcategory[];
+  currencyCode: string;
+  locale?: string;
+  onSave: (data: CreateRecurringRuleRequest) => Promise<void>;
+  onDelete?: (rule: RecurringRule) => Promise<void>;
+};
+
+function initialForm(rule: RecurringRule | null | undefined, draft: RuleDraft | null | undefined, accounts: Account[]): FormState {
+  const source = rule ?? draft ?? {};
+  const defaultAccount = accounts.find((a) => a.is_default) || accounts.find((a) => !a.is_archived);
+  return {
+    type: source.type ?? 'withdrawal',
+    amount: source.amount ? String(source.amount) : '',
+    account_id: source.account_id ?? defaultAccount?.id ?? '',
+    category_id: source.category_id ? String(source.category_id) : '',
+    subcategory_id: source.subcategory_id ? String(source.subcategory_id) : '',
+    note: source.note ?? '',
+    cadence: source.cadence ?? 'monthly',
+    rrule: source.rrule ?? '',
+    start_date: source.start_date ?? toDateKey(new Date()),
+  };
+}
+
+/** Create or edit a recurring rule; remount (key) per opening to pick up `rule`/`draft` */
+export function RecurringRuleSheet({
+  open,
+  onOpenChange,
+  rule,
+  draft,
+  accounts,
+  categories,
+  subcategories,
+  currencyCode,
+  locale,
+  onSave,
+  onDelete,
+}: Props) {
+  const { t } = useTranslation();
+
+  const [form, setForm] = useState<FormState>(() => initialForm(rule, draft, accounts));
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const update = <K extends keyof FormState>(key: K, value: FormState[K]) =>
+    setForm((prev) => ({ ...prev, [key]: value }));
+
+  const account = accounts.find((a) => a.id === form.account_id);
+  const currency = accountCurrency(account, currencyCode);
+  const pickableAccounts = accounts.filter((a) => !a.is_archived || a.id === form.account_id);
+  const subcategoryOptions = subcategories.filter((s) => String(s.category_id) === form.category_id);
+
+  const recurrence = useMemo(
+    () => ruleRecurrence({ cadence: form.cadence, rrule: form.rrule }),
+    [form.cadence, form.rrule]
+  );
+  const invalidRRule = form.cadence === 'custom' && !!form.rrule.trim() && !recurrence;
+
+  const preview = useMemo(() => {
+    if (!recurrence || !form.start_date) return [];
+    const start = parseDate(form.start_date);
+    const from = new Date() > start ? new Date() : start;
+    return occurrencesBetween(recurrence, start, from, addYears(from, 2), PREVIEW_COUNT);
+  }, [recurrence, form.start_date]);
+
+  const amountNum = Number(form.amount.replace(',', '.'));
+  const canSubmit =
+    amountNum > 0 && !!form.account_id && !!recurrence && !!form.start_date && !isSubmitting && !isDeleting;
+
+  const handleSubmit = async () => {
+    if (!canSubmit) return;
+
+    setIsSubmitting(true);
+    try {
+      await onSave({
+        type: form.type,
+        amount: amountNum,
+        account_id: form.account_id,
+        category_id: form.category_id ? Number(form.category_id) : undefined,
+        subcategory_id: form.subcategory_id ? Number(form.subcategory_id) : undefined,
+        note: form.note.trim() || undefined,
+        cadence: form.cadence,
+        rrule: form.cadence === 'custom' ? form.rrule.trim() : undefined,
+        start_date: form.start_date,
+      });
+      onOpenChange(false);
+    } catch (err) {
+      console.error('Failed to save recurring rule:', err);
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!rule || !onDelete || isDeleting) return;
+
+    setIsDeleting(true);
+    try {
+      await onDelete(rule);
+      onOpenChange(false);
+    } catch (err) {
+      console.error('Failed to delete recurring rule:', err);
+      setIsDeleting(false);
+    }
+  };
+
+  const inputClass = cn(
+    'w-full h-12 px-4 rounded-2xl bg-muted/25 border border-border/50',
+    'focus:outline-none focus:ring-2 focus:ring-primary/30 text-base'
+  );
+
+  const footer = (
+    <div className="space-y-2">
+      <button
+        type="button"
+        onClick={handleSubmit}
+        disabled={!canSubmit}
+        className={cn(
+          'w-full h-12 rounded-2xl font-semibold transition-all shadow-lg',
+          'flex items-center justify-center gap-2',
+          canSubmit
+            ? 'bg-primary text-primary-foreground active:scale-[0.99] shadow-primary/20'
+            : 'bg-muted text-muted-foreground cursor-not-allowed shadow-transparent'
+        )}
+      >
+        {isSubmitting ? (
+          <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin" />
+        ) : (
+          <Check className="w-4 h-4" />
+        )}
+        {isSubmitting ? t('common.loading') : t('common.save')}
+      </button>
+
+      {rule && onDelete && (
+        <button
+          type="button"
+          onClick={handleDelete}
+          disabled={isDeleting || isSubmitting}
+          className="w-full h-11 rounded-2xl text-sm font-medium flex items-center justify-center gap-2 bg-red-500/10 text-red-600 hover:bg-red-500/15 disabled:opacity-50"
+        >
+          <Trash2 className="w-4 h-4" />
+          {isDeleting ? t('common.loading') : t('recurring.delete')}
+        </button>
+      )}
+    </div>
+  );
+
+  return (
+    <BottomSheetShell
+      open={open}
+      onOpenChange={onOpenChange}
+      title={rule ? t('recurring.editTitle') : t('recurring.createTitle')}
+      icon={<Repeat className="w-5 h-5 text-primary" />}
+      footer={footer}
+      closeOnBackdrop={!isSubmitting && !isDeleting}
+    >
+      <div className="space-y-5">
+        {/* Type */}
+        <div className="grid grid-cols-2 gap-2">
+          {(['withdrawal', 'deposit'] as const).map((type) => (
+            <button
+              key={type}
+              type="button"
+              onClick={() => update('type', type)}
+              className={cn(
+                'h-11 rounded-xl text-sm font-medium transition-colors border',
+                form.type === type ? 'border-primary/50 bg-primary/10 text-primary' : 'border-border/50 bg-card/40'
+              )}
+            >
+              {type === 'withdrawal' ? t('common.expense') : t('common.income')}
+            </button>
+          ))}
+        </div>
+
+        {/* Amount */}
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-foreground ml-1">
+            {t('recurring.amount')} ({currency})
+          </label>
+          <input
+            type="text"
+            inputMode="decimal"
+            value={form.amount}
+            onChange={(e) => update('amount', e.target.value.replace(/[^\d.,]/g, ''))}
+            placeholder="0"
+            className={cn(inputClass, 'tabular-nums')}
+          />
+        </div>
+
+        {/* Account */}
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-foreground ml-1">{t('transaction.account')}</label>
+          <select
+            value={form.account_id}
+            onChange={(e) => update('account_id', e.target.value)}
+            className={cn(inputClass, 'appearance-none cursor-pointer')}
+          >
+            <option value="">{t('transaction.selectAccount')}</option>
+            {pickableAccounts.map((a) => (
+              <option key={a.id} value={a.id}>
+                {a.is_default ? '⭐ ' : ''}
+                {a.name}
+                {a.currency_code ? ` (${a.currency_code})` : ''}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Category */}
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-foreground ml-1">
+            {t('transaction.category')} ({t('common.optional')})
+          </label>
+          <select
+            value={form.category_id}
+            onChange={(e) => {
+              update('category_id', e.target.value);
+              update('subcategory_id', '');
+            }}
+            className={cn(inputClass, 'appearance-none cursor-pointer')}
+          >
+            <option value="">—</option>
+            {categories.map((c) => (
+              <option key={c.id} value={c.id}>
+                {c.emoji ? `${c.emoji} ` : ''}
+                {c.name}
+              </option>
+            ))}
+          </select>
+          {subcategoryOptions.length > 0 && (
+            <select
+              value={form.subcategory_id}
+              onChange={(e) => update('subcategory_id', e.target.value)}
+              className={cn(inputClass, 'appearance-none cursor-pointer')}
+            >
+              <option value="">—</option>
+              {subcategoryOptions.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.emoji ? `${s.emoji} ` : ''}
+                  {s.name}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+
+        {/* Note */}
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-foreground ml-1">
+            {t('transaction.note')} ({t('common.optional')})
+          </label>
+          <input
+            type="text"
+            value={form.note}
+            onChange={(e) => update('note', e.target.value)}
+            placeholder={t('recurring.notePlaceholder')}
+            className={inputClass}
+          />
+        </div>
+
+        {/* Cadence */}
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-foreground ml-1">{t('recurring.cadence')}</label>
+          <div className="grid grid-cols-4 gap-2">
+            {CADENCES.map((cadence) => (
+              <button
+                key={cadence}
+                type="button"
+                onClick={() => update('cadence', cadence)}
+                className={cn(
+                  'h-10 rounded-xl text-xs font-medium transition-colors border',
+                  form.cadence === cadence
+                    ? 'border-primary/50 bg-primary/10 text-primary'
+                    : 'border-border/50 bg-card/40'
+                )}
+              >
+                {t(`recurring.cadences.${cadence}`)}
+              </button>
+            ))}
+          </div>
+
+          {form.cadence === 'custom' && (
+            <div className="space-y-1">
+              <input
+                type="text"
+                value={form.rrule}
+                onChange={(e) => update('rrule', e.target.value)}
+                placeholder="FREQ=MONTHLY;INTERVAL=3"
+                autoCapitalize="characters"
+                spellCheck={false}
+                className={cn(inputClass, 'font-mono text-sm', invalidRRule && 'border-red-500/70')}
+              />
+              <p className={cn('text-xs ml-1', invalidRRule ? 'text-red-500' : 'text-muted-foreground')}>
+                {invalidRRule ? (
+                  <span className="inline-flex items-center gap-1">
+                    <AlertCircle className="w-3 h-3" />
+                    {t('recurring.rruleInvalid')}
+                  </span>
+                ) : (
+                  t('recurring.rruleHint')
+                )}
+              </p>
+            </div>
+          )}
+        </div>
+
+        {/* Start date */}
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-foreground ml-1">{t('recurring.startDate')}</label>
+          <input
+            type="date"
+            value={form.start_date}
+            onChange={(e) => update('start_date', e.target.value)}
+            className={inputClass}
+          />
+          {preview.length > 0 && (
+            <p className="text-xs text-muted-foreground ml-1">
+              {t('recurring.nextDates', { dates: preview.map((d) => formatOccurrence(d, locale)).join(', ') })}
+            </p>
+          )}
+        </div>
+      </div>
+    </BottomSheetShell>
+  );
+}
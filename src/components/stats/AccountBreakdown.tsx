@@ -0,0 +1,103 @@
+import { useCallback, useMemo, useState } from 'react';
+import type { AccountStatsItem, AccountStatsView, StatsTxType } from '@/core/types';
+import { ExploreDonut, type ExploreItem } from './ExploreDonut';
+import { ExploreRankList } from './ExploreRankList';
+
+/**
+ * Per-account totals as a donut plus a ranked list. The charts key items by number,
+ * so accounts get their 1-based position as id (0 would read as "nothing selected").
+ */
+export function AccountBreakdown({
+  title,
+  listTitle,
+  loading,
+  data,
+  txType,
+  accountIds,
+  currencyCode,
+  locale,
+  onOpenAccount,
+}: {
+  title: string;
+  listTitle: string;
+  loading: boolean;
+  data: AccountStatsView | null;
+  txType: StatsTxType;
+  // limit to these accounts (shares are recomputed over them)
+  accountIds?: string[];
+  currencyCode: string;
+  locale?: string;
+  onOpenAccount: (accountId: string) => void;
+}) {
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [expanded, setExpanded] = useState(false);
+
+  // each item carries both sides; the picked type decides which one is charted
+  const amountOf = useCallback(
+    (a: AccountStatsItem) => (txType === 'deposit' ? a.income : a.expense),
+    [txType]
+  );
+
+  const rows = useMemo(() => {
+    const all = (data?.items ?? []).filter((a) => amountOf(a) > 0);
+    const shown = accountIds?.length ? all.filter((a) => accountIds.includes(a.account_id)) : all;
+    return shown.sort((a, b) => amountOf(b) - amountOf(a));
+  }, [data, accountIds, amountOf]);
+
+  // the response totals cover every account; a filtered view sums only what's shown
+  const totals = useMemo(() => {
+    if (!accountIds?.length && data) {
+      return { total: txType === 'deposit' ? data.totals.income : data.totals.expense, count: data.totals.count };
+    }
+    return {
+      total: rows.reduce((sum, a) => sum + amountOf(a), 0),
+      count: rows.reduce((sum, a) => sum + a.count, 0),
+    };
+  }, [data, rows, accountIds, txType, amountOf]);
+
+  const items: ExploreItem[] = useMemo(
+    () =>
+      rows.map((a, i) => ({
+        id: i + 1,
+        name: a.name,
+        emoji: '💳',
+        total: amountOf(a),
+        count: a.count,
+        share: totals.total > 0 ? amountOf(a) / totals.total : 0,
+      })),
+    [rows, totals.total, amountOf]
+  );
+
+  const open = (id: number) => {
+    const row = rows[id - 1];
+    if (row) onOpenAccount(row.account_id);
+  };
+
+  return (
+    <div className="space-y-4">
+      <ExploreDonut
+        title={title}
+        loading={loading}
+        items={items}
+        totals={totals}
+        selectedId={selectedId}
+        onSelect={setSelectedId}
+        onDrillDown={open}
+        currencyCode={currencyCode}
+        locale={locale}
+      />
+
+      <ExploreRankList
+        title={listTitle}
+        items={items}
+        totals={totals}
+        expanded={expanded}
+        onToggleExpanded={() => setExpanded((v) => !v)}
+        selectedId={selectedId}
+        onSelect={open}
+        currencyCode={currencyCode}
+        locale={locale}
+      />
+    </div>
+  );
+}
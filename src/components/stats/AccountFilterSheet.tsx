@@ -4,6 +4,7 @@ import { useTranslation } from 'react-i18next';
 import type { Account } from '@/core/types';
 import { cn } from '@/lib/utils';
 import { BottomSheetShell } from '@/components/ui/BottomSheetShell';
+import { Switch } from '@/components/ui/switch';
 
 export function AccountFilterSheet({
   open,
@@ -30,6 +31,14 @@ export function AccountFilterSheet({
 
   const allSelected = useMemo(() => local.length === 0, [local]);
 
+  // archived accounts are hidden unless asked for, but a selected one never disappears
+  const [showArchived, setShowArchived] = useState(false);
+  const hasArchived = accounts.some((a) => a.is_archived);
+  const visibleAccounts = useMemo(
+    () => accounts.filter((a) => showArchived || !a.is_archived || selectedIds.includes(a.id)),
+    [accounts, showArchived, selectedIds]
+  );
+
   const toggle = (id: string) => {
     setLocal((prev) => {
       const has = prev.includes(id);
@@ -73,7 +82,14 @@ export function AccountFilterSheet({
           {allSelected && <Check className="w-5 h-5 text-primary" />}
         </button>
 
-        {accounts.map((a) => {
+        {hasArchived && (
+          <label className="flex items-center justify-between gap-3 px-1 py-1">
+            <span className="text-sm text-muted-foreground">{t('accounts.showArchived')}</span>
+            <Switch checked={showArchived} onCheckedChange={setShowArchived} aria-label={t('accounts.showArchived')} />
+          </label>
+        )}
+
+        {visibleAccounts.map((a) => {
           const checked = local.includes(a.id);
           return (
             <button
@@ -86,8 +102,10 @@ export function AccountFilterSheet({
             >
               <div className="min-w-0 text-left">
                 <div className="font-semibold text-sm truncate">{a.name}</div>
-                {'currency_code' in a && (a as any).currency_code ? (
-                  <div className="text-xs text-muted-foreground">{(a as any).currency_code}</div>
+                {a.currency_code || a.is_archived ? (
+                  <div className="text-xs text-muted-foreground">
+                    {[a.currency_code, a.is_archived ? t('accounts.archivedLabel') : null].filter(Boolean).join(' · ')}
+                  </div>
                 ) : null}
               </div>
               {checked && <Check className="w-5 h-5 text-primary" />}
@@ -1,17 +1,36 @@
-import { useMemo } from 'react';
+import { useMemo, useState } from 'react';
 import { useTranslation } from 'react-i18next';
+import { AlertTriangle } from 'lucide-react';
 import { Card, CardContent} from '@/components/ui/card';
 import { Skeleton } from '@/components/ui/skeleton';
 import { formatCurrency } from '@/lib/formatters';
-import type { BalanceTimeseriesView, StatsGroupBy } from '@/core/types';
+import { accountCurrency } from '@/lib/currency';
+import { cn } from '@/lib/utils';
+import {
+  FORECAST_HORIZONS,
+  bucketKey,
+  currentBucketIndex,
+  forecastBuckets,
+  type CashflowForecast,
+  type ForecastHorizon,
+} from '@/lib/forecast';
+import type {
+  Account,
+  BalanceTimeseriesMode,
+  BalanceTimeseriesPointView,
+  BalanceTimeseriesView,
+  StatsGroupBy,
+} from '@/core/types';
 import {
   ResponsiveContainer,
-  AreaChart,
+  ComposedChart,
   Area,
+  Line,
   XAxis,
   YAxis,
   Tooltip,
   CartesianGrid,
+  ReferenceLine,
 } from 'recharts';
 import { EmptyStateIllustration } from './EmptyStateIllustration';
 
@@ -21,6 +40,32 @@ function shortLabel(ts: string, groupBy: StatsGroupBy) {
   return ts.slice(5, 10); // MM-DD
 }
 
+const ACCOUNT_COLORS = [
+  'hsl(142, 76%, 45%)', // Green
+  'hsl(200, 76%, 50%)', // Blue
+  'hsl(280, 65%, 55%)', // Purple
+  'hsl(30, 85%, 55%)',  // Orange
+  'hsl(340, 75%, 55%)', // Pink
+  'hsl(180, 65%, 50%)', // Cyan
+  'hsl(50, 85%, 55%)',  // Yellow
+  'hsl(260, 70%, 55%)', // Indigo
+];
+
+type AccountLine = {
+  id: string;
+  name: string;
+  color: string;
+  currency: string;
+  // close of the last bucket minus open of the first
+  change: number;
+};
+
+// history rows, plus forecast-only rows after today's bucket
+type AggregateRow = Partial<BalanceTimeseriesPointView> & { ts: string; forecast?: number };
+
+// per-account rows keyed by ts: close_<id> for the line, band_<id> as [min, max]
+type SeriesRow = { ts: string } & Record<string, number | [number, number] | string>;
+
 function estimateTickInterval(n: number) {
   if (n <= 7) return 0;
   if (n <= 14) return 1;
@@ -56,6 +101,17 @@ function CustomTooltip({
   const dateLabel = String(label || '');
   const head = shortLabel(dateLabel, groupBy);
 
+  if (p.balance_close == null) {
+    return (
+      <div className="rounded-2xl border border-border/50 bg-background/95 backdrop-blur-xl shadow-lg px-3 py-2.5 min-w-[180px]">
+        <div className="text-[11px] text-muted-foreground font-medium mb-2">
+          {head || dateLabel}
+        </div>
+        <Row label={t('stats.forecast.projected')} value={formatCurrency(p.forecast ?? 0, currencyCode, locale)} />
+      </div>
+    );
+  }
+
   return (
     <div className="rounded-2xl border border-border/50 bg-background/95 backdrop-blur-xl shadow-lg px-3 py-2.5 min-w-[180px]">
       <div className="text-[11px] text-muted-foreground font-medium mb-2">
@@ -72,6 +128,50 @@ function CustomTooltip({
   );
 }
 
+function AccountsTooltip({
+  active,
+  payload,
+  label,
+  lines,
+  locale,
+  groupBy,
+}: {
+  active?: boolean;
+  payload?: { payload?: SeriesRow }[];
+  label?: string | number;
+  lines: AccountLine[];
+  locale?: string;
+  groupBy: StatsGroupBy;
+}) {
+  if (!active || !payload?.length) return null;
+
+  const row = payload[0]?.payload;
+  if (!row) return null;
+
+  const dateLabel = String(label || '');
+  const head = shortLabel(dateLabel, groupBy);
+
+  return (
+    <div className="rounded-2xl border border-border/50 bg-background/95 backdrop-blur-xl shadow-lg px-3 py-2.5 min-w-[180px]">
+      <div className="text-[11px] text-muted-foreground font-medium mb-2">
+        {head || dateLabel}
+      </div>
+
+      {lines.map((l) => (
+        <div key={l.id} className="flex items-center justify-between gap-3">
+          <span className="flex items-center gap-1.5 min-w-0 text-xs text-muted-foreground">
+            <span className="w-2 h-2 rounded-full shrink-0" style={{ background: l.color }} />
+            <span className="truncate">{l.name}</span>
+          </span>
+          <span className="text-xs font-semibold tabular-nums text-foreground">
+            {formatCurrency(Number(row[`close_${l.id}`] ?? 0), l.currency, locale)}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
 export function BalanceTimeseriesChart({
   title,
   loading,
@@ -79,6 +179,13 @@ export function BalanceTimeseriesChart({
   currencyCode,
   locale,
   groupBy,
+  mode = 'aggregate',
+  onModeChange,
+  accounts = [],
+  forecast,
+  forecastError,
+  forecastDays,
+  onForecastDaysChange,
 }: {
   title: string;
   loading: boolean;
@@ -86,29 +193,124 @@ export function BalanceTimeseriesChart({
   currencyCode: string;
   locale?: string;
   groupBy: StatsGroupBy;
+  // requested mode; what gets drawn follows data.mode so a refetch never mixes the two
+  mode?: BalanceTimeseriesMode;
+  onModeChange?: (mode: BalanceTimeseriesMode) => void;
+  // for per-account names
+  accounts?: Account[];
+  // projected balance from today on, drawn dashed after history (total mode only)
+  forecast?: CashflowForecast | null;
+  forecastError?: boolean;
+  forecastDays?: ForecastHorizon | null;
+  onForecastDaysChange?: (days: ForecastHorizon | null) => void;
 }) {
   const { t } = useTranslation();
-  const points = data?.points ?? [];
-  const tickInterval = useMemo(() => estimateTickInterval(points.length), [points.length]);
+  // UI-only: stack accounts into one total instead of overlaying them
+  const [stacked, setStacked] = useState(false);
+  const [hiddenIds, setHiddenIds] = useState<string[]>([]);
+
+  const perAccount = data?.mode === 'per_account';
+  const points = useMemo(() => data?.points ?? [], [data]);
 
-  const yDomain = useMemo(() => {
-    if (!points.length) return undefined;
+  // history up to today's bucket, then the forecast by bucket; today's bucket joins the two
+  const aggregateRows: AggregateRow[] = useMemo(() => {
+    if (perAccount || !forecast) return points;
+    const today = new Date();
+    const i = currentBucketIndex(points, today);
+    if (i < 0) return points;
 
+    const anchor = points[i];
+    const todayKey = bucketKey(today, groupBy);
+    const tail = forecastBuckets(forecast.points, groupBy)
+      .filter((b) => b.ts !== todayKey)
+      .map((b) => ({ ts: b.ts, forecast: b.balance }));
+    return [...points.slice(0, i), { ...anchor, forecast: anchor.balance_close }, ...tail];
+  }, [perAccount, forecast, points, groupBy]);
+  const hasForecast = aggregateRows.some((r) => r.forecast != null);
+
+  const lines: AccountLine[] = useMemo(() => {
+    const byId = new Map(accounts.map((a) => [a.id, a]));
+    return (data?.series ?? []).map((s, i) => {
+      const first = s.points[0];
+      const last = s.points[s.points.length - 1];
+      const account = byId.get(s.account_id);
+      return {
+        id: s.account_id,
+        name: account?.name ?? s.account_id,
+        color: ACCOUNT_COLORS[i % ACCOUNT_COLORS.length],
+        currency: accountCurrency(account, currencyCode),
+        change: first && last ? last.balance_close - first.balance_open : 0,
+      };
+    });
+  }, [data, accounts, currencyCode]);
+
+  const visibleLines = useMemo(() => lines.filter((l) => !hiddenIds.includes(l.id)), [lines, hiddenIds]);
+  // balances in different currencies can't be added up, so stacking waits until they match
+  const mixedCurrencies = new Set(visibleLines.map((l) => l.currency)).size > 1;
+  const stackedShown = stacked && !mixedCurrencies;
+
+  const rows: SeriesRow[] = useMemo(() => {
+    const byTs = new Map<string, SeriesRow>();
+    for (const s of data?.series ?? []) {
+      for (const p of s.points) {
+        const row = byTs.get(p.ts) ?? { ts: p.ts };
+        row[`close_${s.account_id}`] = Number(p.balance_close ?? 0);
+        row[`band_${s.account_id}`] = [Number(p.min_balance ?? 0), Number(p.max_balance ?? 0)];
+        byTs.set(p.ts, row);
+      }
+    }
+    return [...byTs.values()].sort((a, b) => a.ts.localeCompare(b.ts));
+  }, [data]);
+
+  const count = perAccount ? rows.length : aggregateRows.length;
+  const tickInterval = useMemo(() => estimateTickInterval(count), [count]);
+
+  const yDomain = useMemo((): [number, number] | undefined => {
     let min = Infinity;
     let max = -Infinity;
-    for (const p of points) {
-      const v = Number(p.balance_close ?? 0);
-      min = Math.min(min, v, Number(p.min_balance ?? v));
-      max = Math.max(max, v, Number(p.max_balance ?? v));
+
+    if (!perAccount) {
+      for (const p of aggregateRows) {
+        if (p.forecast != null) {
+          min = Math.min(min, p.forecast);
+          max = Math.max(max, p.forecast);
+        }
+        if (p.balance_close == null) continue;
+        const v = Number(p.balance_close);
+        min = Math.min(min, v, Number(p.min_balance ?? v));
+        max = Math.max(max, v, Number(p.max_balance ?? v));
+      }
+    } else {
+      for (const row of rows) {
+        let sum = 0;
+        for (const l of visibleLines) {
+          const v = Number(row[`close_${l.id}`] ?? 0);
+          sum += v;
+          if (!stackedShown) {
+            const [lo, hi] = (row[`band_${l.id}`] as [number, number] | undefined) ?? [v, v];
+            min = Math.min(min, v, lo);
+            max = Math.max(max, v, hi);
+          }
+        }
+        if (stackedShown) {
+          min = Math.min(min, sum, 0);
+          max = Math.max(max, sum, 0);
+        }
+      }
     }
+
     if (!isFinite(min) || !isFinite(max)) return undefined;
     if (min === max) {
       const pad = Math.max(1, Math.abs(min) * 0.1);
-      return [min - pad, max + pad] as any;
+      return [min - pad, max + pad];
     }
     const pad = (max - min) * 0.08;
-    return [min - pad, max + pad] as any;
-  }, [points]);
+    return [min - pad, max + pad];
+  }, [perAccount, aggregateRows, rows, visibleLines, stackedShown]);
+
+  const toggleAccount = (id: string) => {
+    setHiddenIds((prev) => (prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]));
+  };
 
   return (
     <Card className="border border-border/40 bg-card/40 overflow-hidden shadow-sm">
@@ -131,15 +333,160 @@ export function BalanceTimeseriesChart({
           ) : null}
         </div>
 
+        {onModeChange ? (
+          <div className="mt-3 flex items-center gap-2">
+            <div className="flex-1 grid grid-cols-2 gap-1 p-1 rounded-xl bg-background/40 border border-border/50">
+              {(['aggregate', 'per_account'] as const).map((m) => (
+                <button
+                  key={m}
+                  type="button"
+                  onClick={() => onModeChange(m)}
+                  className={cn(
+                    'h-7 rounded-lg text-xs font-semibold transition-colors',
+                    mode === m ? 'bg-background shadow-sm text-foreground' : 'text-muted-foreground'
+                  )}
+                >
+                  {t(`stats.balanceMode.${m}`)}
+                </button>
+              ))}
+            </div>
+
+            {mode === 'per_account' && (
+              <button
+                type="button"
+                onClick={() => setStacked((v) => !v)}
+                className={cn(
+                  'h-9 px-3 rounded-xl text-xs font-semibold transition-colors border',
+                  stackedShown
+                    ? 'bg-primary/10 border-primary/30 text-foreground'
+                    : 'bg-background/40 border-border/50 text-muted-foreground hover:text-foreground'
+                )}
+              >
+                {t('stats.stacked')}
+              </button>
+            )}
+          </div>
+        ) : null}
+
+        {mode === 'per_account' && stacked && mixedCurrencies ? (
+          <p className="mt-1.5 text-[11px] text-muted-foreground">{t('stats.stackedMixedCurrencies')}</p>
+        ) : null}
+
+        {onForecastDaysChange && mode === 'aggregate' ? (
+          <div className="mt-2 flex items-center gap-2">
+            <span className="text-xs text-muted-foreground">{t('stats.forecast.title')}</span>
+            <div className="flex-1 grid grid-cols-4 gap-1">
+              {[null, ...FORECAST_HORIZONS].map((d) => (
+                <button
+                  key={d ?? 'off'}
+                  type="button"
+                  onClick={() => onForecastDaysChange(d)}
+                  className={cn(
+                    'h-7 rounded-lg text-xs font-semibold transition-colors border',
+                    forecastDays === d
+                      ? 'bg-primary/10 border-primary/30 text-foreground'
+                      : 'bg-background/40 border-border/50 text-muted-foreground'
+                  )}
+                >
+                  {d ? t('stats.forecast.days', { count: d }) : t('stats.forecast.off')}
+                </button>
+              ))}
+            </div>
+          </div>
+        ) : null}
+
         <div className="mt-3 h-52 relative">
           {loading && !data ? (
             <Skeleton className="h-full w-full rounded-2xl" />
-          ) : !data || !points.length ? (
+          ) : !data || !count ? (
             <EmptyStateIllustration variant="no-data" />
+          ) : perAccount ? (
+            <>
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={rows} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.2} />
+
+                  <XAxis
+                    dataKey="ts"
+                    tickFormatter={(v) => shortLabel(String(v), groupBy)}
+                    tick={{ fontSize: 11, fill: 'hsl(var(--muted-foreground))' }}
+                    interval={tickInterval}
+                    axisLine={false}
+                    tickLine={false}
+                  />
+                  <YAxis
+                    tick={{ fontSize: 11, fill: 'hsl(var(--muted-foreground))' }}
+                    width={42}
+                    axisLine={false}
+                    tickLine={false}
+                    domain={yDomain}
+                  />
+                  <Tooltip
+                    content={
+                      <AccountsTooltip
+                        lines={visibleLines}
+                        locale={locale}
+                        groupBy={groupBy}
+                      />
+                    }
+                  />
+
+                  {stackedShown
+                    ? visibleLines.map((l) => (
+                        <Area
+                          key={l.id}
+                          type="monotone"
+                          dataKey={`close_${l.id}`}
+                          stackId="balance"
+                          stroke={l.color}
+                          strokeWidth={1.8}
+                          fill={l.color}
+                          fillOpacity={0.25}
+                          dot={false}
+                          isAnimationActive={!loading}
+                          animationDuration={400}
+                        />
+                      ))
+                    : visibleLines.flatMap((l) => [
+                        // min/max within each bucket, drawn under the close line
+                        <Area
+                          key={`band_${l.id}`}
+                          type="monotone"
+                          dataKey={`band_${l.id}`}
+                          stroke="none"
+                          fill={l.color}
+                          fillOpacity={0.12}
+                          activeDot={false}
+                          isAnimationActive={!loading}
+                          animationDuration={400}
+                        />,
+                        <Line
+                          key={l.id}
+                          type="monotone"
+                          dataKey={`close_${l.id}`}
+                          stroke={l.color}
+                          strokeWidth={2}
+                          dot={false}
+                          isAnimationActive={!loading}
+                          animationDuration={400}
+                        />,
+                      ])}
+                </ComposedChart>
+              </ResponsiveContainer>
+
+              {loading ? (
+                <div className="absolute inset-0 pointer-events-none">
+                  <div className="absolute inset-0 bg-background/10 rounded-2xl" />
+                  <div className="absolute right-3 top-3 px-2 py-1 rounded-lg bg-background/80 backdrop-blur-sm text-[11px] text-muted-foreground font-medium">
+                    {t('stats.updating') || 'Updating'}
+                  </div>
+                </div>
+              ) : null}
+            </>
           ) : (
             <>
               <ResponsiveContainer width="100%" height="100%">
-                <AreaChart data={points} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                <ComposedChart data={aggregateRows} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
                   <defs>
                     <linearGradient id="balanceGradient" x1="0" y1="0" x2="0" y2="1">
                       <stop offset="5%" stopColor="hsl(142, 76%, 45%)" stopOpacity={0.3} />
@@ -162,7 +509,7 @@ export function BalanceTimeseriesChart({
                     width={42}
                     axisLine={false}
                     tickLine={false}
-                    domain={yDomain as any}
+                    domain={yDomain}
                   />
                   <Tooltip
                     content={
@@ -175,6 +522,20 @@ export function BalanceTimeseriesChart({
                     }
                   />
 
+                  {/* min/max within each bucket */}
+                  <Area
+                    type="monotone"
+                    dataKey={(p: AggregateRow) =>
+                      p.balance_close == null ? null : [p.min_balance ?? 0, p.max_balance ?? 0]
+                    }
+                    stroke="none"
+                    fill="hsl(142, 76%, 45%)"
+                    fillOpacity={0.12}
+                    activeDot={false}
+                    isAnimationActive={!loading}
+                    animationDuration={400}
+                  />
+
                   <Area
                     type="monotone"
                     dataKey="balance_close"
@@ -186,7 +547,26 @@ export function BalanceTimeseriesChart({
                     isAnimationActive={!loading}
                     animationDuration={400}
                   />
-                </AreaChart>
+
+                  {hasForecast && (
+                    <>
+                      {forecast && forecast.minBalance < 0 && (
+                        <ReferenceLine y={0} stroke="hsl(0, 84%, 60%)" strokeDasharray="2 3" opacity={0.6} />
+                      )}
+                      <Line
+                        type="monotone"
+                        dataKey="forecast"
+                        stroke="hsl(142, 76%, 45%)"
+                        strokeWidth={2}
+                        strokeDasharray="5 4"
+                        dot={false}
+                        activeDot={{ r: 4, fill: 'hsl(142, 76%, 45%)', strokeWidth: 0 }}
+                        isAnimationActive={!loading}
+                        animationDuration={400}
+                      />
+                    </>
+                  )}
+                </ComposedChart>
               </ResponsiveContainer>
 
               {loading ? (
@@ -201,6 +581,73 @@ export function BalanceTimeseriesChart({
           )}
         </div>
 
+        {forecastError && mode === 'aggregate' ? (
+          <div className="mt-3 flex items-start gap-2 rounded-xl border border-border/50 bg-muted/20 px-3 py-2 text-xs text-muted-foreground">
+            <AlertTriangle className="w-4 h-4 shrink-0 mt-px" />
+            <span>{t('stats.forecast.failed')}</span>
+          </div>
+        ) : null}
+
+        {hasForecast && forecast ? (
+          <div className="mt-3 space-y-2">
+            {forecast.firstNegative ? (
+              <div className="flex items-start gap-2 rounded-xl border border-red-500/40 bg-red-500/10 px-3 py-2 text-xs text-red-600 dark:text-red-400">
+                <AlertTriangle className="w-4 h-4 shrink-0 mt-px" />
+                <span>
+                  {t('stats.forecast.belowZero', {
+                    date: forecast.firstNegative.toLocaleDateString(locale || 'en-US', { day: 'numeric', month: 'short' }),
+                    amount: formatCurrency(forecast.minBalance, currencyCode, locale),
+                  })}
+                </span>
+              </div>
+            ) : null}
+            <Row
+              label={t('stats.forecast.endBalance', { count: forecastDays ?? 0 })}
+              value={formatCurrency(forecast.endBalance, currencyCode, locale)}
+            />
+            <Row
+              label={t('stats.forecast.dailyNet')}
+              value={formatCurrency(forecast.dailyNet, currencyCode, locale)}
+            />
+            {forecast.events.length ? (
+              <Row label={t('stats.forecast.scheduled')} value={String(forecast.events.length)} />
+            ) : null}
+          </div>
+        ) : null}
+
+        {/* Legend: tap an account to hide/show it */}
+        {perAccount && lines.length ? (
+          <div className="mt-3 flex flex-wrap gap-2">
+            {lines.map((l) => {
+              const hidden = hiddenIds.includes(l.id);
+              return (
+                <button
+                  key={l.id}
+                  type="button"
+                  onClick={() => toggleAccount(l.id)}
+                  className={cn(
+                    'flex items-center gap-1.5 h-8 px-2.5 rounded-full border text-xs transition-opacity',
+                    'bg-background/40 border-border/50',
+                    hidden && 'opacity-40'
+                  )}
+                >
+                  <span className="w-2 h-2 rounded-full" style={{ background: l.color }} />
+                  <span className="font-medium text-foreground max-w-[120px] truncate">{l.name}</span>
+                  <span
+                    className={cn(
+                      'tabular-nums font-semibold',
+                      l.change < 0 ? 'text-red-600 dark:text-red-400' : 'text-muted-foreground'
+                    )}
+                  >
+                    {l.change > 0 ? '+' : ''}
+                    {formatCurrency(l.change, l.currency, locale)}
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+        ) : null}
+
         {data?.totals ? (
           <div className="mt-3 space-y-1 pt-3 border-t border-border/30">
             <Row label={t('stats.start') || 'Start'} value={formatCurrency(data.totals.start_balance ?? 0, currencyCode, locale)} />
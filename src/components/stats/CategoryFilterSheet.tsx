@@ -0,0 +1,147 @@
+import { Check } from 'lucide-react';
+import { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import type { Category, Subcategory } from '@/core/types';
+import { cn } from '@/lib/utils';
+import { BottomSheetShell } from '@/components/ui/BottomSheetShell';
+
+/** Draft state is seeded once per mount; the caller remounts it (key) for each opening. */
+export function CategoryFilterSheet({
+  open,
+  onOpenChange,
+  categories,
+  subcategories,
+  categoryIds,
+  subcategoryIds,
+  onApply,
+  title,
+}: {
+  open: boolean;
+  onOpenChange: (v: boolean) => void;
+  categories: Category[];
+  subcategories: Subcategory[];
+  categoryIds: number[];
+  subcategoryIds: number[];
+  onApply: (categoryIds: number[], subcategoryIds: number[]) => void;
+  title: string;
+}) {
+  const { t } = useTranslation();
+  const [localCats, setLocalCats] = useState<number[]>(categoryIds);
+  const [localSubs, setLocalSubs] = useState<number[]>(subcategoryIds);
+
+  const subsByCategory = useMemo(() => {
+    const map = new Map<number, Subcategory[]>();
+    for (const s of subcategories) {
+      const list = map.get(s.category_id) ?? [];
+      list.push(s);
+      map.set(s.category_id, list);
+    }
+    return map;
+  }, [subcategories]);
+
+  const allSelected = localCats.length === 0;
+
+  // subcategories only narrow a picked category, so unpicking it drops them too
+  const toggleCategory = (id: number) => {
+    if (localCats.includes(id)) {
+      const dropped = new Set((subsByCategory.get(id) ?? []).map((s) => s.id));
+      setLocalCats((prev) => prev.filter((x) => x !== id));
+      setLocalSubs((prev) => prev.filter((x) => !dropped.has(x)));
+      return;
+    }
+    setLocalCats((prev) => [...prev, id]);
+  };
+
+  const toggleSubcategory = (id: number) => {
+    setLocalSubs((prev) => (prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]));
+  };
+
+  const selectAll = () => {
+    setLocalCats([]);
+    setLocalSubs([]);
+  };
+
+  const apply = () => {
+    onApply(localCats, localSubs);
+    onOpenChange(false);
+  };
+
+  const footer = (
+    <button
+      onClick={apply}
+      className="w-full h-12 rounded-2xl bg-primary text-primary-foreground font-semibold active:scale-[0.99] transition-transform shadow-lg shadow-primary/20"
+    >
+      {t('stats.apply')}
+    </button>
+  );
+
+  return (
+    <BottomSheetShell
+      open={open}
+      onOpenChange={onOpenChange}
+      title={title}
+      footer={footer}
+    >
+      <div className="space-y-2">
+        <button
+          onClick={selectAll}
+          className={cn(
+            'w-full flex items-center justify-between rounded-2xl px-4 py-3 border transition-colors',
+            allSelected ? 'border-primary/50 bg-primary/10' : 'border-border/50 bg-card/40'
+          )}
+        >
+          <div className="font-semibold text-sm">{t('stats.allCategories')}</div>
+          {allSelected && <Check className="w-5 h-5 text-primary" />}
+        </button>
+
+        {categories.map((c) => {
+          const checked = localCats.includes(c.id);
+          const subs = subsByCategory.get(c.id) ?? [];
+          return (
+            <div
+              key={c.id}
+              className={cn(
+                'rounded-2xl border transition-colors',
+                checked ? 'border-primary/50 bg-primary/10' : 'border-border/50 bg-card/40'
+              )}
+            >
+              <button
+                onClick={() => toggleCategory(c.id)}
+                className="w-full flex items-center justify-between px-4 py-3"
+              >
+                <div className="min-w-0 flex items-center gap-2">
+                  <span className="text-base">{c.emoji || '📁'}</span>
+                  <span className="font-semibold text-sm truncate">{c.name}</span>
+                </div>
+                {checked && <Check className="w-5 h-5 text-primary" />}
+              </button>
+
+              {checked && subs.length > 0 && (
+                <div className="flex flex-wrap gap-2 px-4 pb-3">
+                  {subs.map((s) => {
+                    const on = localSubs.includes(s.id);
+                    return (
+                      <button
+                        key={s.id}
+                        onClick={() => toggleSubcategory(s.id)}
+                        className={cn(
+                          'h-8 px-3 rounded-full border text-xs font-medium transition-colors',
+                          on
+                            ? 'bg-primary border-primary text-primary-foreground'
+                            : 'bg-background/40 border-border/50 text-muted-foreground'
+                        )}
+                      >
+                        {s.emoji ? `${s.emoji} ` : ''}
+                        {s.name}
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </BottomSheetShell>
+  );
+}
@@ -0,0 +1,118 @@
+import { useTranslation } from 'react-i18next';
+import { Card, CardContent } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import type { StatsCompareMover } from '@/core/types';
+import { formatCurrency, formatPercentChange } from '@/lib/formatters';
+import { cn } from '@/lib/utils';
+
+function MoverRow({
+  item,
+  currencyCode,
+  locale,
+  onSelect,
+}: {
+  item: StatsCompareMover;
+  currencyCode: string;
+  locale?: string;
+  onSelect?: (item: StatsCompareMover) => void;
+}) {
+  const { t } = useTranslation();
+  // movers are expenses: spending more is bad
+  const good = item.delta_abs === 0 ? null : item.delta_abs < 0;
+
+  return (
+    <button
+      type="button"
+      onClick={() => onSelect?.(item)}
+      className={cn(
+        'w-full text-left rounded-2xl border border-border/40 bg-background/40 px-3 py-3 transition-colors',
+        onSelect ? 'hover:bg-background/60 active:scale-[0.995]' : ''
+      )}
+    >
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-3 min-w-0">
+          <div className="w-10 h-10 rounded-2xl bg-muted/30 flex items-center justify-center text-xl">
+            {item.emoji || '📌'}
+          </div>
+          <div className="min-w-0">
+            <div className="font-semibold text-sm truncate">{item.name || t('stats.category')}</div>
+            <div className="text-xs text-muted-foreground tabular-nums truncate">
+              {formatCurrency(item.compare, currencyCode, locale)} →{' '}
+              {formatCurrency(item.base, currencyCode, locale)}
+            </div>
+          </div>
+        </div>
+
+        <div className="text-right flex-shrink-0">
+          <div
+            className={cn(
+              'font-bold tabular-nums text-sm',
+              good === true && 'text-green-600 dark:text-green-400',
+              good === false && 'text-red-600 dark:text-red-400'
+            )}
+          >
+            {item.delta_abs > 0 ? '+' : item.delta_abs < 0 ? '−' : ''}
+            {formatCurrency(Math.abs(item.delta_abs), currencyCode, locale)}
+          </div>
+          <div className="text-xs text-muted-foreground">{formatPercentChange(item.delta_pct)}</div>
+        </div>
+      </div>
+    </button>
+  );
+}
+
+export function CompareMoversList({
+  loading,
+  items,
+  currencyCode,
+  locale,
+  onSelect,
+}: {
+  loading: boolean;
+  items: StatsCompareMover[];
+  currencyCode: string;
+  locale?: string;
+  onSelect?: (item: StatsCompareMover) => void;
+}) {
+  const { t } = useTranslation();
+
+  const sections = [
+    { key: 'increases', title: t('stats.compare.increases'), items: items.filter((i) => i.delta_abs > 0) },
+    { key: 'decreases', title: t('stats.compare.decreases'), items: items.filter((i) => i.delta_abs < 0) },
+  ].filter((s) => s.items.length > 0);
+
+  return (
+    <Card className="border border-border/40 bg-card/40">
+      <CardContent className="p-4">
+        <h3 className="text-sm font-semibold text-foreground">{t('stats.compare.movers')}</h3>
+
+        {loading && sections.length === 0 ? (
+          <div className="mt-3 space-y-2">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-14 w-full rounded-2xl" />
+            ))}
+          </div>
+        ) : sections.length === 0 ? (
+          <div className="py-8 text-center text-sm text-muted-foreground">{t('stats.compare.noMovers')}</div>
+        ) : (
+          sections.map((section) => (
+            <div key={section.key} className="mt-3">
+              <div className="mb-2 text-xs font-medium text-muted-foreground">{section.title}</div>
+              <div className="space-y-2">
+                {section.items.map((item) => (
+                  <MoverRow
+                    key={item.category_id}
+                    item={item}
+                    currencyCode={currencyCode}
+                    locale={locale}
+                    onSelect={onSelect}
+                  />
+                ))}
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
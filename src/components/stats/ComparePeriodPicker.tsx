@@ -0,0 +1,74 @@
+import { useTranslation } from 'react-i18next';
+import { format } from 'date-fns';
+
+import type { StatsComparePeriod } from '@/core/types';
+import type { DateRange } from '@/components/history/DateRangeSheet';
+import { cn } from '@/lib/utils';
+
+export type CompareSelection = {
+  period: StatsComparePeriod | 'custom';
+  // only used for 'custom'; kept so switching back restores the last pair
+  base: DateRange;
+  compare: DateRange;
+};
+
+const PERIODS: (StatsComparePeriod | 'custom')[] = [
+  'this_month_vs_last_month',
+  'last_7_days_vs_previous_7_days',
+  'this_year_vs_last_year',
+  'custom',
+];
+
+function formatRange(range: DateRange) {
+  return `${format(range.from, 'MMM d')} – ${format(range.to, 'MMM d, yyyy')}`;
+}
+
+export function ComparePeriodPicker({
+  value,
+  onChange,
+  onEditRange,
+}: {
+  value: CompareSelection;
+  onChange: (v: CompareSelection) => void;
+  onEditRange: (which: 'base' | 'compare') => void;
+}) {
+  const { t } = useTranslation();
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2 overflow-x-auto pb-1 scrollbar-hide">
+        {PERIODS.map((period) => (
+          <button
+            key={period}
+            type="button"
+            onClick={() => onChange({ ...value, period })}
+            className={cn(
+              'h-9 px-3 rounded-full text-xs font-semibold whitespace-nowrap transition-colors border',
+              value.period === period
+                ? 'bg-primary text-primary-foreground border-primary'
+                : 'bg-card/40 border-border/50 hover:bg-card/60'
+            )}
+          >
+            {t(`stats.compare.periods.${period}`)}
+          </button>
+        ))}
+      </div>
+
+      {value.period === 'custom' && (
+        <div className="grid grid-cols-2 gap-2">
+          {(['base', 'compare'] as const).map((which) => (
+            <button
+              key={which}
+              type="button"
+              onClick={() => onEditRange(which)}
+              className="h-14 px-3 rounded-2xl bg-card/50 hover:bg-card/70 border border-border/50 text-left transition-colors"
+            >
+              <div className="text-[11px] text-muted-foreground">{t(`stats.compare.${which}`)}</div>
+              <div className="text-xs font-semibold truncate">{formatRange(value[which])}</div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+import { useTranslation } from 'react-i18next';
+import { Card, CardContent } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import type { StatsCompareView } from '@/core/types';
+import { formatCurrency, formatPercentChange, getTrendIcon } from '@/lib/formatters';
+import { cn } from '@/lib/utils';
+
+type Row = {
+  key: 'income' | 'expense' | 'net';
+  base: number;
+  compare: number;
+  changePercent: number;
+  // whether a rise is good news (spending going up isn't)
+  upIsGood: boolean;
+};
+
+export function CompareSummaryCard({
+  loading,
+  data,
+  currencyCode,
+  locale,
+}: {
+  loading: boolean;
+  data: StatsCompareView | null;
+  currencyCode: string;
+  locale?: string;
+}) {
+  const { t } = useTranslation();
+
+  const rows: Row[] = data
+    ? [
+        {
+          key: 'income',
+          base: data.base.income,
+          compare: data.compare.income,
+          changePercent: data.delta.income.pct,
+          upIsGood: true,
+        },
+        {
+          key: 'expense',
+          base: data.base.expense,
+          compare: data.compare.expense,
+          changePercent: data.delta.expense.pct,
+          upIsGood: false,
+        },
+        {
+          key: 'net',
+          base: data.base.net,
+          compare: data.compare.net,
+          changePercent: data.delta.net.pct,
+          upIsGood: true,
+        },
+      ]
+    : [];
+
+  return (
+    <Card className="border border-border/40 bg-card/40">
+      <CardContent className="p-4">
+        <div className="grid grid-cols-[1fr_auto_auto] gap-x-4 items-baseline">
+          <div />
+          <div className="text-right min-w-0">
+            <div className="text-[11px] font-semibold text-foreground">{t('stats.compare.base')}</div>
+            <div className="text-[10px] text-muted-foreground">
+              {data ? `${data.base.from} → ${data.base.to}` : ''}
+            </div>
+          </div>
+          <div className="text-right min-w-0">
+            <div className="text-[11px] font-semibold text-muted-foreground">{t('stats.compare.compare')}</div>
+            <div className="text-[10px] text-muted-foreground">
+              {data ? `${data.compare.from} → ${data.compare.to}` : ''}
+            </div>
+          </div>
+        </div>
+
+        <div className="mt-3 space-y-3">
+          {loading && !data
+            ? [1, 2, 3].map((i) => <Skeleton key={i} className="h-12 w-full rounded-xl" />)
+            : rows.map((row) => {
+                const good = row.changePercent === 0 ? null : row.changePercent > 0 === row.upIsGood;
+                return (
+                  <div
+                    key={row.key}
+                    className="grid grid-cols-[1fr_auto_auto] gap-x-4 items-center rounded-2xl border border-border/40 bg-background/40 px-3 py-2.5"
+                  >
+                    <div className="min-w-0">
+                      <div className="text-xs text-muted-foreground">{t(`stats.compare.${row.key}`)}</div>
+                      <div
+                        className={cn(
+                          'text-[11px] font-semibold',
+                          good === true && 'text-green-600 dark:text-green-400',
+                          good === false && 'text-red-600 dark:text-red-400',
+                          good === null && 'text-muted-foreground'
+                        )}
+                      >
+                        {getTrendIcon(row.changePercent)} {formatPercentChange(row.changePercent)}
+                      </div>
+                    </div>
+                    <div className="text-right text-sm font-bold tabular-nums">
+                      {formatCurrency(row.base, currencyCode, locale)}
+                    </div>
+                    <div className="text-right text-sm tabular-nums text-muted-foreground">
+                      {formatCurrency(row.compare, currencyCode, locale)}
+                    </div>
+                  </div>
+                );
+              })}
+        </div>
+
+        {loading && data ? <div className="mt-3 text-xs text-muted-foreground">{t('stats.updating')}</div> : null}
+      </CardContent>
+    </Card>
+  );
+}
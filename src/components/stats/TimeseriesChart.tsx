@@ -1,7 +1,7 @@
 import { useMemo, useState } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Skeleton } from '@/components/ui/skeleton';
-import type { TimeseriesStatsView } from '@/core/types';
+import type { StatsGroupBy, TimeseriesStatsView } from '@/core/types';
 import { formatCurrency } from '@/lib/formatters';
 import { cn } from '@/lib/utils';
 import {
@@ -14,7 +14,7 @@ import {
 } from 'recharts';
 import { useTranslation } from 'react-i18next';
 
-function shortLabel(ts: string, groupBy: 'day' | 'week' | 'month') {
+function shortLabel(ts: string, groupBy: StatsGroupBy) {
   // Expect formats like YYYY-MM-DD (day/week) or YYYY-MM (month) depending on backend.
   if (!ts) return '';
   if (groupBy === 'month') return ts.slice(0, 7); // YYYY-MM
@@ -32,6 +32,12 @@ function estimateTickInterval(n: number) {
   return Math.floor(n / 7);
 }
 
+const SERIES_COLORS = {
+  net: 'hsl(var(--primary))',
+  income: 'hsl(142, 76%, 45%)',
+  expense: 'hsl(0, 84%, 60%)',
+};
+
 function humanKey(name: string, t: any) {
   if (name === 'income') return t('common.income');
   if (name === 'expense') return t('common.expense');
@@ -110,13 +116,16 @@ export function TimeseriesChart({
   currencyCode,
   locale,
   groupBy,
+  onSelectBucket,
 }: {
   title: string;
   loading: boolean;
   data: TimeseriesStatsView | null;
   currencyCode: string;
   locale?: string;
-  groupBy: 'day' | 'week' | 'month';
+  groupBy: StatsGroupBy;
+  // receives the tapped bucket's ts (its start)
+  onSelectBucket?: (ts: string) => void;
 }) {
   const { t } = useTranslation();
   // Mobile readability: show Net by default; let user toggle income/expense.
@@ -194,7 +203,14 @@ export function TimeseriesChart({
           ) : (
             <>
               <ResponsiveContainer width="100%" height="100%">
-                <LineChart data={points} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                <LineChart
+                  data={points}
+                  margin={{ top: 10, right: 10, left: 0, bottom: 0 }}
+                  onClick={(state) => {
+                    if (onSelectBucket && state?.activeLabel != null) onSelectBucket(String(state.activeLabel));
+                  }}
+                  className={onSelectBucket ? 'cursor-pointer' : undefined}
+                >
                   <XAxis
                     dataKey="ts"
                     tickFormatter={(v) => shortLabel(String(v), groupBy)}
@@ -225,6 +241,7 @@ export function TimeseriesChart({
                   <Line
                     type="monotone"
                     dataKey="net"
+                    stroke={SERIES_COLORS.net}
                     strokeWidth={2.5}
                     dot={false}
                     isAnimationActive={!loading}
@@ -237,6 +254,7 @@ export function TimeseriesChart({
                       <Line
                         type="monotone"
                         dataKey="income"
+                        stroke={SERIES_COLORS.income}
                         strokeWidth={1.8}
                         dot={false}
                         isAnimationActive={!loading}
@@ -245,6 +263,7 @@ export function TimeseriesChart({
                       <Line
                         type="monotone"
                         dataKey="expense"
+                        stroke={SERIES_COLORS.expense}
                         strokeWidth={1.8}
                         dot={false}
                         isAnimationActive={!loading}
@@ -268,10 +287,18 @@ export function TimeseriesChart({
           )}
         </div>
 
+        {data && points.length ? (
+          <div className="mt-3 space-y-1 pt-3 border-t border-border/30">
+            <ValueRow label={humanKey('income', t)} value={formatCurrency(data.totals.income, currencyCode, locale)} />
+            <ValueRow label={humanKey('expense', t)} value={formatCurrency(data.totals.expense, currencyCode, locale)} />
+            <ValueRow label={humanKey('net', t)} value={formatCurrency(data.totals.net, currencyCode, locale)} />
+          </div>
+        ) : null}
+
         {/* tiny helper text */}
         {data && points.length ? (
           <div className="mt-2 text-[11px] text-muted-foreground">
-            {t('stats.tapPoints')}
+            {onSelectBucket ? t('stats.tapBucket') : t('stats.tapPoints')}
           </div>
         ) : null}
       </CardContent>
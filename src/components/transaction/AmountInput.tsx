@@ -7,34 +7,95 @@ import { useFormContext, Controller } from 'react-hook-form';
 import type { ParsedTransaction } from '@/core/types';
 import { useTranslation } from 'react-i18next';
 import { useMoneySync } from '@/hooks/useMoneySync';
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useEffect, useRef } from 'react';
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import { currencyOptions } from '@/lib/currency';
+import { convertToTimezone } from '@/lib/formatters';
 import { useAuth } from '@/contexts/AuthContext';
+import { useFxRate } from '@/hooks/useFxRate';
+import { fxService, type FxRate } from '@/services/fx.service';
 
 function round2(n: number) {
   return Math.round((n + Number.EPSILON) * 100) / 100;
 }
 
-export function AmountInput() {
+// significant digits, so tiny rates like UZS -> USD survive
+function roundRate(n: number) {
+  return Number(n.toPrecision(6));
+}
+
+type Props = {
+  // prefilled from a receipt/voice with low confidence
+  highlighted?: boolean;
+};
+
+export function AmountInput({ highlighted = false }: Props) {
   const { t } = useTranslation();
   const { user } = useAuth();
   const form = useFormContext<ParsedTransaction>();
-  const { control, watch, setValue, formState, getValues } = form;
+  const { control, watch, setValue, getValues, formState } = form;
 
   const [fxOpen, setFxOpen] = useState(false);
 
   const originalAmount = watch('original_amount');
   const fxRate = watch('fx_rate');
+  const originalCurrency = watch('original_currency');
+  // the form's currency is the selected account's currency
+  const currency = watch('currency');
+
+  const originalCurrencies = useMemo(
+    () => currencyOptions(originalCurrency).filter((code) => code !== currency),
+    [originalCurrency, currency]
+  );
 
   const { markEdited } = useMoneySync({ watch, setValue });
 
-  const shouldShowFx = useMemo(() => !!(fxRate || originalAmount), [fxRate, originalAmount]);
+  // rates are quoted for the transaction's day in the user's timezone
+  const performedAt = watch('performed_at');
+  const rateDate = useMemo(
+    () => convertToTimezone(performedAt || new Date(), user?.timezone).toISOString().slice(0, 10),
+    [performedAt, user?.timezone]
+  );
+
+  const fxQuery = useFxRate(originalCurrency, currency, rateDate);
+  const quote = fxQuery.data ?? null;
+
+  const [fxTyped, setFxTyped] = useState(false);
+  const lastPrefill = useRef<number | undefined>(undefined);
+
+  // Prefill fx_rate, but never overwrite a rate the user typed or the transaction came with
+  useEffect(() => {
+    if (!quote) return;
+    const current = getValues('fx_rate');
+    if (current !== undefined && current !== lastPrefill.current) return;
+
+    const next = roundRate(quote.rate);
+    lastPrefill.current = next;
+    if (next !== current) setValue('fx_rate', next, { shouldDirty: true });
+  }, [quote, getValues, setValue]);
+
+  // where the current fx_rate came from: typed by the user, or the provider quote it still matches
+  const fxOrigin: FxRate | 'typed' | null = fxTyped
+    ? 'typed'
+    : quote && fxRate === roundRate(quote.rate)
+      ? quote
+      : null;
+
+  const rateAgeDays = fxOrigin && fxOrigin !== 'typed'
+    ? differenceInCalendarDays(parseISO(rateDate), parseISO(fxOrigin.date))
+    : null;
+
+  const shouldShowFx = useMemo(
+    () => !!(fxRate || originalAmount || (originalCurrency && originalCurrency !== currency)),
+    [fxRate, originalAmount, originalCurrency, currency]
+  );
 
   return (
     <Card className="border-0 bg-card/50 backdrop-blur-sm">
       <CardContent className="p-4 space-y-3">
         <label className="text-xs font-medium text-muted-foreground uppercase tracking-wide block">
           <DollarSign className="inline w-3 h-3 mr-1" />
-          {t('transaction.amount')} ({user?.currency_code})
+          {t('transaction.amount')} ({currency})
         </label>
 
         <Controller
@@ -68,7 +129,7 @@ export function AmountInput() {
                 'w-full px-4 py-3 bg-background rounded-xl border-2 transition-colors',
                 'text-2xl font-bold tabular-nums',
                 'focus:outline-none focus:border-primary',
-                formState.errors.amount ? 'border-red-500' : 'border-transparent'
+                formState.errors.amount ? 'border-red-500' : highlighted ? 'border-amber-500/70' : 'border-transparent'
               )}
             />
           )}
@@ -88,6 +149,26 @@ export function AmountInput() {
           </div>
 
           <CollapsibleContent className="mt-3 space-y-3">
+            <div>
+              <label className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-2 block">
+                {t('transaction.originalCurrency')}
+              </label>
+              <select
+                value={originalCurrency ?? ''}
+                onChange={(e) =>
+                  setValue('original_currency', e.target.value || undefined, { shouldDirty: true })
+                }
+                className="w-full px-4 py-3 bg-background rounded-xl border-2 border-transparent focus:outline-none focus:border-primary appearance-none cursor-pointer"
+              >
+                <option value="">{t('transaction.selectCurrency')}</option>
+                {originalCurrencies.map((code) => (
+                  <option key={code} value={code}>
+                    {code}
+                  </option>
+                ))}
+              </select>
+            </div>
+
             <div className="grid grid-cols-2 gap-3">
               <div>
                 <label className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-2 block">
@@ -122,7 +203,7 @@ export function AmountInput() {
                 />
 
                 <p className="text-[11px] text-muted-foreground mt-1">
-                  {t('transaction.receipt')} {getValues('original_currency') ? `(${getValues('original_currency')})` : ''}
+                  {t('transaction.receipt')} {originalCurrency ? `(${originalCurrency})` : ''}
                 </p>
               </div>
 
@@ -142,6 +223,7 @@ export function AmountInput() {
                       value={field.value ?? ''}
                       onChange={(e) => {
                         markEdited('fx_rate');
+                        setFxTyped(true);
                         const raw = e.target.value;
 
                         if (raw === '') {
@@ -152,6 +234,13 @@ export function AmountInput() {
                         const num = Number(raw);
                         field.onChange(Number.isFinite(num) ? num : undefined);
                       }}
+                      onBlur={() => {
+                        field.onBlur();
+                        // remember typed rates so the next entry for this pair and day is prefilled
+                        if (fxOrigin === 'typed' && originalCurrency && field.value) {
+                          fxService.saveManualRate(originalCurrency, currency, rateDate, field.value);
+                        }
+                      }}
                       placeholder="e.g. 1.12"
                       className="w-full px-4 py-3 bg-background rounded-xl border-2 border-transparent focus:outline-none focus:border-primary"
                     />
@@ -159,13 +248,32 @@ export function AmountInput() {
                 />
 
                 <p className="text-[11px] text-muted-foreground mt-1">
-                  {t('transaction.userCurrency')}: {user?.currency_code}
+                  {t('transaction.accountCurrency')}: {currency}
                 </p>
               </div>
             </div>
 
+            {fxOrigin && fxRate ? (
+              <div className="text-[11px] text-muted-foreground">
+                {t('transaction.fxSourceLabel')}:{' '}
+                <span className="font-medium text-foreground">
+                  {fxOrigin === 'typed' ? t('transaction.fxSource.typed') : t(`transaction.fxSource.${fxOrigin.source}`)}
+                </span>
+                {rateAgeDays !== null && (
+                  <>
+                    {' · '}
+                    {rateAgeDays === 0
+                      ? t('transaction.fxAgeSameDay')
+                      : rateAgeDays < 0
+                        ? t('transaction.fxAgeNewer', { count: -rateAgeDays, date: fxOrigin !== 'typed' ? fxOrigin.date : '' })
+                        : t('transaction.fxAge', { count: rateAgeDays, date: fxOrigin !== 'typed' ? fxOrigin.date : '' })}
+                  </>
+                )}
+              </div>
+            ) : null}
+
             <div className="text-xs text-muted-foreground">
-              {fxRate && originalAmount ? `${t('transaction.convertedPreview')} ≈ ${round2(originalAmount * fxRate)} ${user?.currency_code}` : t('transaction.fxHint')}
+              {fxRate && originalAmount ? `${t('transaction.convertedPreview')} ≈ ${round2(originalAmount * fxRate)} ${currency}` : t('transaction.fxHint')}
             </div>
           </CollapsibleContent>
         </Collapsible>
@@ -0,0 +1,146 @@
+import { useEffect, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Camera, Mic, Square } from 'lucide-react';
+
+import { Card, CardContent } from '@/components/ui/card';
+import { cn } from '@/lib/utils';
+
+// long enough for "coffee 25 thousand, card", short enough to keep uploads small
+const MAX_RECORDING_SECONDS = 60;
+
+type Props = {
+  busy: boolean;
+  needsReview?: boolean;
+  onImage: (file: File) => void;
+  onVoice: (audio: Blob) => void;
+  onError: (error: unknown) => void;
+};
+
+/** Receipt photo (camera or gallery) and in-app voice recording for prefilling the form */
+export function MediaCaptureBar({ busy, needsReview, onImage, onVoice, onError }: Props) {
+  const { t } = useTranslation();
+
+  const fileRef = useRef<HTMLInputElement>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const timerRef = useRef<number | null>(null);
+
+  const [recording, setRecording] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+
+  const canRecord = typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+  const releaseStream = () => {
+    if (timerRef.current !== null) window.clearInterval(timerRef.current);
+    timerRef.current = null;
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+  };
+
+  // never leave the microphone on when leaving the page
+  useEffect(
+    () => () => {
+      recorderRef.current?.stop();
+      releaseStream();
+    },
+    []
+  );
+
+  const stopRecording = () => {
+    if (recorderRef.current?.state === 'recording') recorderRef.current.stop();
+  };
+
+  const startRecording = async () => {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const recorder = new MediaRecorder(stream);
+      const chunks: Blob[] = [];
+
+      recorder.ondataavailable = (e) => {
+        if (e.data.size > 0) chunks.push(e.data);
+      };
+      recorder.onstop = () => {
+        releaseStream();
+        recorderRef.current = null;
+        setRecording(false);
+        if (chunks.length) onVoice(new Blob(chunks, { type: recorder.mimeType || 'audio/webm' }));
+      };
+
+      streamRef.current = stream;
+      recorderRef.current = recorder;
+      recorder.start();
+
+      setElapsed(0);
+      setRecording(true);
+      const startedAt = Date.now();
+      timerRef.current = window.setInterval(() => {
+        const seconds = Math.floor((Date.now() - startedAt) / 1000);
+        setElapsed(seconds);
+        if (seconds >= MAX_RECORDING_SECONDS) stopRecording();
+      }, 250);
+    } catch (error) {
+      releaseStream();
+      onError(error);
+    }
+  };
+
+  const buttonClass = (active: boolean) =>
+    cn(
+      'flex-1 h-11 rounded-xl text-sm font-medium flex items-center justify-center gap-2 transition-colors',
+      'disabled:opacity-50 disabled:cursor-not-allowed',
+      active ? 'bg-red-500/15 text-red-500' : 'bg-background text-foreground'
+    );
+
+  return (
+    <Card className="border-0 bg-card/50 backdrop-blur-sm">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex gap-2">
+          <button
+            type="button"
+            disabled={busy || recording}
+            onClick={() => fileRef.current?.click()}
+            className={buttonClass(false)}
+          >
+            <Camera className="w-4 h-4" />
+            {t('transaction.media.receipt')}
+          </button>
+
+          {canRecord && (
+            <button
+              type="button"
+              disabled={busy}
+              onClick={recording ? stopRecording : startRecording}
+              className={buttonClass(recording)}
+            >
+              {recording ? <Square className="w-4 h-4" /> : <Mic className="w-4 h-4" />}
+              {recording
+                ? t('transaction.media.stop', { seconds: MAX_RECORDING_SECONDS - elapsed })
+                : t('transaction.media.voice')}
+            </button>
+          )}
+        </div>
+
+        <input
+          ref={fileRef}
+          type="file"
+          accept="image/*"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) onImage(file);
+          }}
+        />
+
+        {busy && (
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <div className="w-3 h-3 border-2 border-current border-t-transparent rounded-full animate-spin" />
+            {t('transaction.media.processing')}
+          </div>
+        )}
+
+        {!busy && needsReview && <p className="text-xs text-amber-500">{t('transaction.media.review')}</p>}
+      </CardContent>
+    </Card>
+  );
+}
@@ -21,6 +21,7 @@ interface SearchableSelectProps {
   icon?: React.ReactNode;
   className?: string;
   disabled?: boolean;
+  highlighted?: boolean;
 }
 
 export function SearchableSelect({
@@ -31,7 +32,8 @@ export function SearchableSelect({
   placeholder,
   icon,
   className,
-  disabled
+  disabled,
+  highlighted
 }: SearchableSelectProps) {
   const { t } = useTranslation();
   const [open, setOpen] = useState(false);
@@ -94,7 +96,7 @@ export function SearchableSelect({
                 <div
                     className={cn(
                         "flex items-center w-full px-4 py-3 bg-background rounded-xl border-2 border-transparent transition-all cursor-text",
-                        open ? "border-primary ring-2 ring-primary/20" : "hover:border-border",
+                        open ? "border-primary ring-2 ring-primary/20" : highlighted ? "border-amber-500/70" : "hover:border-border",
                         disabled && "opacity-50 cursor-not-allowed"
                     )}
                     onClick={() => {
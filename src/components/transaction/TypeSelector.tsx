@@ -41,6 +41,18 @@ export function TypeSelector() {
           >
             📥 {t('transaction.income')}
           </Button>
+          <Button
+            type="button"
+            onClick={() => setValue('type', 'transfer', { shouldDirty: true })}
+            className={cn(
+              "flex-1 py-6 rounded-xl font-medium transition-all",
+              txType === 'transfer'
+                ? "bg-blue-500 text-white shadow-lg shadow-blue-500/20 hover:bg-blue-500"
+                : "bg-blue-500/10 text-blue-500 hover:bg-blue-500/20"
+            )}
+          >
+            🔁 {t('transaction.transfer')}
+          </Button>
         </div>
       </CardContent>
     </Card>
@@ -1,13 +1,18 @@
 import { createContext, useContext, useEffect, useState } from 'react';
 import type { ReactNode } from 'react';
 import { apiClient } from '../api/client';
+import { queryClient, queryKeys } from '../api/queryClient';
 import { authService } from '../services/auth.service';
+import { outboxService } from '../services/outbox.service';
 import { useTelegramWebApp } from '../hooks/useTelegramWebApp';
 import type { User } from '../core/types';
 import i18n from '../i18n/config';
 
+export type AuthStatus = 'loading' | 'authenticated' | 'unauthenticated' | 'session_expired';
+
 interface AuthContextType {
   user: User | null;
+  status: AuthStatus;
   loading: boolean;
   error: string | null;
   refetch: () => Promise<void>;
@@ -16,56 +21,77 @@ interface AuthContextType {
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export function AuthProvider({ children }: { children: ReactNode }) {
-  const { user: tgUser, isReady } = useTelegramWebApp();
+  const { isReady, initData } = useTelegramWebApp();
 
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [status, setStatus] = useState<AuthStatus>('loading');
 
   const authenticate = async () => {
     try {
       setLoading(true);
+      setStatus('loading');
       setError(null);
 
-      // 1) token from URL (?token=...)
-      let token = authService.getTokenFromURL();
+      let me: User | null = null;
 
-      // 2) token from storage
-      if (!token) token = authService.getToken();
+      // 1) token from URL (?token=...) or storage - only if backend accepts it
+      const candidates = [authService.getTokenFromURL(), authService.getToken()];
+      for (const token of candidates) {
+        if (!token) continue;
+        me = await authService.validateToken(token);
+        if (me) {
+          authService.setToken(token);
+          break;
+        }
+      }
 
-      // 3) if no token -> BAD auth by tg_user_id
-      if (!token) {
-        if (!tgUser) throw new Error('Telegram user is not available');
-        await authService.authenticateWithUserId(tgUser.id, {
-          first_name: tgUser.first_name,
-          last_name: tgUser.last_name,
-          username: tgUser.username,
-          language_code: tgUser.language_code,
-        });
+      // 2) otherwise -> signed Telegram init data
+      if (!me) {
+        authService.clearToken();
+        const initData = authService.getInitData();
+        if (!initData) throw new Error('Telegram init data is not available');
+        await authService.authenticateWithInitData(initData);
       }
 
-      // 4) fetch user
-      const me = await apiClient.getMe();
+      // 3) fetch user
+      if (!me) me = await apiClient.getMe();
       if (me.language_code) {
         await i18n.changeLanguage(me.language_code);
       }
+      queryClient.setQueryData(queryKeys.me, me);
       setUser(me);
+      setStatus('authenticated');
+      // replay anything queued while offline
+      outboxService.start();
     } catch (err) {
       console.error('Authentication failed:', err);
       setUser(null);
+      setStatus('unauthenticated');
       setError(err instanceof Error ? err.message : 'Failed to authenticate');
     } finally {
       setLoading(false);
     }
   };
 
+  // the queue shows (and waits for the network) even when auth can't complete offline
+  useEffect(() => {
+    outboxService.init();
+  }, []);
+
+  // APIClient gave up re-authenticating -> keep user data, flag the session
+  useEffect(() => {
+    return authService.onSessionExpired(() => setStatus('session_expired'));
+  }, []);
+
   useEffect(() => {
     if (!isReady) return;
     authenticate();
-  }, [isReady, tgUser?.id]);
+  }, [isReady, initData]);
 
   return (
-    <AuthContext.Provider value={{ user, loading, error, refetch: authenticate }}>
+    <AuthContext.Provider value={{ user, status, loading, error, refetch: authenticate }}>
       {children}
     </AuthContext.Provider>
   );
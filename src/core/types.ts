@@ -14,7 +14,9 @@ export interface Account {
     id: string;
     name: string;
     balance: number;
+    currency_code?: string; // falls back to the user's currency for older accounts
     is_default: boolean;
+    is_archived?: boolean; // client-side (see lib/archivedAccounts); hidden from pickers, still in history and stats
 }
 
 export interface Category {
@@ -34,14 +36,21 @@ export interface Subcategory {
     user_id?: string;
 }
 
+// adjustment: reconciliation entry, amount is the signed delta to the real balance
+export type TransactionType = 'withdrawal' | 'deposit' | 'transfer' | 'adjustment';
+
 export interface Transaction {
     id: string;
     account_id: string;
     category_id?: number;
     subcategory_id?: number;
-    type: 'withdrawal' | 'deposit';
+    type: TransactionType;
     amount: number;
     currency_code: string;
+    // transfer only: destination side (to_amount differs for cross-currency)
+    to_account_id?: string;
+    to_amount?: number;
+    to_currency_code?: string;
     original_amount?: number;
     original_currency_code?: string;
     fx_rate?: number;
@@ -53,6 +62,29 @@ export interface Transaction {
     user_id?: string;
 }
 
+export interface CreateTransactionRequest {
+    account_id: string;
+    type: TransactionType;
+    amount: number;
+    to_account_id?: string;
+    to_amount?: number;
+    currency_code?: string;
+    category_id?: number;
+    subcategory_id?: number;
+    note?: string;
+    performed_at?: string;
+    original_amount?: number;
+    original_currency_code?: string;
+    fx_rate?: number;
+}
+
+export interface UpdateTransactionRequest {
+    category_id?: number;
+    subcategory_id?: number | null; // null clears it
+    note?: string;
+    performed_at?: string;
+}
+
 export interface TransactionsResponse {
     items: Transaction[];
     pagination: PaginationResponse;
@@ -68,13 +100,15 @@ export interface PaginationResponse {
 }
 
 export interface ParsedTransaction {
-  type: 'withdrawal' | 'deposit';
+  type: TransactionType;
   amount: number;
   currency: string;
   original_amount?: number;
   original_currency?: string;
   fx_rate?: number;
   account_id?: string;
+  to_account_id?: string;
+  to_amount?: number;
   category_id?: number;
   subcategory_id?: number;
   note?: string;
@@ -204,59 +238,74 @@ export type BalanceTimeseriesView = {
 
 export interface AccountStatsItem {
     account_id: string;
-    account_name: string;
-    total_amount: number;
-    share: number;
-    transaction_count: number;
+    name: string;
+    income: number;
+    expense: number;
+    net: number;
+    count: number;
 }
 
 export interface AccountStatsView {
-    accounts: AccountStatsItem[];
-    total_amount: number;
-    total_transactions: number;
+    from: string;
+    to: string;
+    items: AccountStatsItem[];
+    totals: {
+        income: number;
+        expense: number;
+        net: number;
+        count: number;
+    };
+}
+
+export type StatsComparePeriod =
+    | 'this_month_vs_last_month'
+    | 'last_7_days_vs_previous_7_days'
+    | 'this_year_vs_last_year';
+
+export interface StatsComparePeriodStats {
+    from: string;
+    to: string;
+    income: number;
+    expense: number;
+    net: number;
+    count: number;
+}
+
+export interface StatsCompareDelta {
+    abs: number;
+    pct: number;
+}
+
+// always expenses, whatever `type` was asked for
+export interface StatsCompareMover {
+    category_id: number;
+    name: string;
+    emoji: string;
+    base: number;
+    compare: number;
+    delta_abs: number;
+    delta_pct: number;
 }
 
 export interface StatsCompareView {
-    base_period: {
-        from: string;
-        to: string;
-        total_income: number;
-        total_expense: number;
-        net: number;
-    };
-    compare_period: {
-        from: string;
-        to: string;
-        total_income: number;
-        total_expense: number;
-        net: number;
+    base: StatsComparePeriodStats;
+    compare: StatsComparePeriodStats;
+    delta: {
+        income: StatsCompareDelta;
+        expense: StatsCompareDelta;
+        net: StatsCompareDelta;
     };
-    changes: {
-        income_change: number;
-        expense_change: number;
-        net_change: number;
-        income_change_percent: number;
-        expense_change_percent: number;
-        net_change_percent: number;
+    top_changes: {
+        expense_by_category?: StatsCompareMover[];
     };
-    top_increases?: Array<{
-        category_id: number;
-        category_name: string;
-        emoji: string;
-        base_amount: number;
-        compare_amount: number;
-        change: number;
-        change_percent: number;
-    }>;
-    top_decreases?: Array<{
-        category_id: number;
-        category_name: string;
-        emoji: string;
-        base_amount: number;
-        compare_amount: number;
-        change: number;
-        change_percent: number;
-    }>;
+}
+
+// FX
+export interface FxRateView {
+    from: string;
+    to: string;
+    rate: number; // 1 `from` = rate `to`
+    date: string; // YYYY-MM-DD the rate applies to
 }
 
 // Debts
@@ -271,10 +320,20 @@ export interface Debt {
     name: string;
     note?: string;
     due_at?: string;
+    paid_at?: string;
     created_at: string;
     updated_at: string;
 }
 
+// no amount or currency: they come from the linked transaction (or a follow-up update)
+export interface CreateDebtRequest {
+    type: 'borrow' | 'lend';
+    name: string;
+    note?: string;
+    due_at?: string;
+    transaction_id?: string;
+}
+
 export interface DebtsResponse {
     items: Debt[];
     pagination: {
@@ -284,32 +343,101 @@ export interface DebtsResponse {
     };
 }
 
-// Parse
-export interface ParseTextView {
-    amount?: number;
-    currency?: string;
-    category?: string;
+// Recurring
+export type RecurrenceCadence = 'daily' | 'weekly' | 'monthly' | 'custom';
+
+export interface RecurringRule {
+    id: string;
+    account_id: string;
+    type: 'withdrawal' | 'deposit';
+    amount: number; // in the account's currency
+    category_id?: number;
+    subcategory_id?: number;
     note?: string;
-    confidence?: number;
+    cadence: RecurrenceCadence;
+    rrule?: string; // custom cadence only, e.g. FREQ=MONTHLY;INTERVAL=3
+    start_date: string; // YYYY-MM-DD, first occurrence
+    last_occurrence?: string; // YYYY-MM-DD of the last confirmed or skipped occurrence
+    is_active: boolean;
+    created_at: string;
+    updated_at?: string;
 }
 
+export interface CreateRecurringRuleRequest {
+    account_id: string;
+    type: 'withdrawal' | 'deposit';
+    amount: number;
+    category_id?: number;
+    subcategory_id?: number;
+    note?: string;
+    cadence: RecurrenceCadence;
+    rrule?: string;
+    start_date: string;
+}
+
+export type UpdateRecurringRuleRequest = Partial<CreateRecurringRuleRequest> & {
+    last_occurrence?: string;
+    is_active?: boolean;
+};
+
+// Budgets
+export type BudgetRollover = 'none' | 'unspent' | 'all';
+
+export interface Budget {
+    id: string;
+    category_id: number;
+    subcategory_id?: number; // narrows the budget to one subcategory
+    amount: number; // monthly limit in the user's currency
+    rollover: BudgetRollover; // 'unspent' carries leftovers forward, 'all' carries overspending too
+    start_month: string; // YYYY-MM, first month the budget applies to
+    created_at: string;
+    updated_at?: string;
+}
+
+export interface CreateBudgetRequest {
+    category_id: number;
+    subcategory_id?: number;
+    amount: number;
+    rollover: BudgetRollover;
+    start_month: string;
+}
+
+export type UpdateBudgetRequest = Partial<CreateBudgetRequest>;
+
+// Parse
+
 export interface ParseTextDebtView {
     amount?: number;
     currency?: string;
-    person_name?: string;
+    counterparty_name?: string;
     note?: string;
     type?: 'borrow' | 'lend';
-    due_date?: string;
+    due_at?: string;
     confidence?: number;
 }
 
-export interface ParseImageView {
-    text: string;
-    parsed?: ParseTextView;
+// what the text/receipt/voice parsers make of the input, already matched to the user's ids
+export interface ParsedTransactionView {
+    type?: string;
+    amount?: number;
+    currency?: string;
+    account_id?: string;
+    category_id?: number;
+    subcategory_id?: number;
+    note?: string;
+    performed_at?: string;
+    original_amount?: number;
+    original_currency?: string;
+    fx_rate?: number;
+    confidence?: number;
+    debt_details?: {
+        counterparty_name?: string;
+        due_date?: string;
+        confidence?: number;
+    };
 }
 
-export interface ParseAudioView {
-    text: string;
-    parsed?: ParseTextView;
-}
+export type ParseTextView = ParsedTransactionView;
+export type ParseImageView = ParsedTransactionView;
+export type ParseAudioView = ParsedTransactionView;
 
@@ -0,0 +1,24 @@
+import { useQuery } from '@tanstack/react-query';
+import { apiClient } from '@/api/client';
+import { queryKeys } from '@/api/queryClient';
+
+const HISTORY_LIMIT = 10;
+
+/**
+ * Latest balance adjustments recorded for one account.
+ * Keyed under transactions so any transaction invalidation refreshes it.
+ */
+export function useAccountAdjustments(accountId: string | undefined) {
+  return useQuery({
+    queryKey: [...queryKeys.transactions, 'adjustments', accountId],
+    queryFn: async () => {
+      const res = await apiClient.getTransactions({
+        type: 'adjustment',
+        account_ids: [accountId!],
+        limit: HISTORY_LIMIT,
+      });
+      return res.items;
+    },
+    enabled: !!accountId,
+  });
+}
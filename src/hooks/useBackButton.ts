@@ -0,0 +1,24 @@
+import { createContext, useContext, useEffect } from 'react';
+
+export type BackButtonRegistry = {
+  // returns the unregister function
+  push: (handler: () => void) => () => void;
+};
+
+export const BackButtonContext = createContext<BackButtonRegistry | undefined>(undefined);
+
+/**
+ * Replace the default back behaviour (history back, or the tab root) while mounted,
+ * e.g. a bot draft that has nothing to go back to and closes the MiniApp instead.
+ */
+export function useBackButtonOverride(handler?: () => void) {
+  const registry = useContext(BackButtonContext);
+  if (registry === undefined) {
+    throw new Error('useBackButtonOverride must be used within a BackButtonController');
+  }
+
+  useEffect(() => {
+    if (!handler) return;
+    return registry.push(handler);
+  }, [registry, handler]);
+}
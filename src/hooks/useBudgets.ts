@@ -0,0 +1,113 @@
+import { useMemo } from 'react';
+import { useQueries, useQuery, type QueryClient } from '@tanstack/react-query';
+import { addMonths, differenceInCalendarMonths, startOfMonth } from 'date-fns';
+
+import { apiClient } from '@/api/client';
+import { queryKeys } from '@/api/queryClient';
+import type { Budget } from '@/core/types';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  budgetProgress,
+  isBudgetActive,
+  monthKey,
+  monthRange,
+  monthSpendFromStats,
+  parseMonth,
+  rolloverCarry,
+  type BudgetProgress,
+  type MonthSpend,
+} from '@/lib/budgets';
+
+// rollover is replayed at most this far back; older months start from a clean slate
+const MAX_ROLLOVER_MONTHS = 12;
+
+export function useBudgets() {
+  const { user } = useAuth();
+  return useQuery({
+    queryKey: queryKeys.budgets,
+    queryFn: () => apiClient.getBudgets(),
+    enabled: !!user,
+  });
+}
+
+// categories whose subcategories carry a budget of their own
+function subcategoryParents(budgets: Budget[]): number[] {
+  return [...new Set(budgets.filter((b) => b.subcategory_id).map((b) => b.category_id))].sort((a, b) => a - b);
+}
+
+// nested under `budgets` so saving a transaction can invalidate both at once
+function spendQuery(month: Date, parents: number[]) {
+  return {
+    queryKey: [...queryKeys.budgets, 'spend', monthKey(month), parents] as const,
+    queryFn: async (): Promise<MonthSpend> => {
+      const range = monthRange(month);
+      const [cat, sub] = await Promise.all([
+        apiClient.getStatsByCategory({ ...range, type: 'withdrawal' }),
+        parents.length
+          ? apiClient.getStatsBySubcategory({ ...range, type: 'withdrawal', category_ids: parents })
+          : Promise.resolve(null),
+      ]);
+      return monthSpendFromStats(cat, sub);
+    },
+  };
+}
+
+/** The month itself, preceded by whatever rollover history it needs */
+function monthsFor(budgets: Budget[], month: string): Date[] {
+  const target = startOfMonth(parseMonth(month));
+  const starts = budgets
+    .filter((b) => b.rollover !== 'none' && b.start_month < month)
+    .map((b) => parseMonth(b.start_month));
+  if (!starts.length) return [target];
+
+  const earliest = Math.min(...starts.map((d) => d.getTime()));
+  const back = Math.min(MAX_ROLLOVER_MONTHS, differenceInCalendarMonths(target, earliest));
+  return Array.from({ length: back + 1 }, (_, i) => addMonths(target, i - back));
+}
+
+function progressFor(budgets: Budget[], months: Date[], spends: MonthSpend[]): BudgetProgress[] {
+  const month = months[months.length - 1];
+  const current = spends[spends.length - 1];
+  const history = months.slice(0, -1).map((m, i) => ({ month: m, spend: spends[i] }));
+
+  return budgets
+    .filter((b) => isBudgetActive(b, month))
+    .map((b) => budgetProgress(b, month, current, rolloverCarry(b, history)));
+}
+
+/** Progress of every budget active in `month` (YYYY-MM), rollover included */
+export function useBudgetProgress(budgets: Budget[], month: string) {
+  const { user } = useAuth();
+
+  const months = useMemo(() => monthsFor(budgets, month), [budgets, month]);
+  const parents = useMemo(() => subcategoryParents(budgets), [budgets]);
+
+  const spend = useQueries({
+    queries: months.map((m) => ({ ...spendQuery(m, parents), enabled: !!user && budgets.length > 0 })),
+    combine: (results) => ({
+      data: results.every((r) => r.data) ? results.map((r) => r.data!) : null,
+      isPending: results.some((r) => r.isPending),
+      isError: results.some((r) => r.isError),
+      refetch: () => results.forEach((r) => r.refetch()),
+    }),
+  });
+
+  const progress = useMemo(
+    () => (spend.data ? progressFor(budgets, months, spend.data) : []),
+    [budgets, months, spend.data]
+  );
+
+  return { progress, isPending: budgets.length > 0 && spend.isPending, isError: spend.isError, refetch: spend.refetch };
+}
+
+/** Same numbers outside render (e.g. right before saving), sharing the cached month spend */
+export async function fetchBudgetProgress(
+  queryClient: QueryClient,
+  budgets: Budget[],
+  month: string
+): Promise<BudgetProgress[]> {
+  const months = monthsFor(budgets, month);
+  const parents = subcategoryParents(budgets);
+  const spends = await Promise.all(months.map((m) => queryClient.fetchQuery(spendQuery(m, parents))));
+  return progressFor(budgets, months, spends);
+}
@@ -0,0 +1,135 @@
+import { useMemo } from 'react';
+import { useQueries } from '@tanstack/react-query';
+import { addDays, format, startOfDay, subDays } from 'date-fns';
+
+import { apiClient } from '@/api/client';
+import { queryKeys } from '@/api/queryClient';
+import type { Account } from '@/core/types';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  FORECAST_HISTORY_DAYS,
+  baselineDailyNet,
+  buildForecast,
+  scheduledEvents,
+  scheduledHistoryTotal,
+  type CashflowForecast,
+} from '@/lib/forecast';
+import { detectSubscriptions, isTrackedByRule } from '@/lib/subscriptions';
+
+// one page of expenses is enough for the subscription detector to find monthly bills
+const SUBSCRIPTION_SCAN_LIMIT = 200;
+
+/**
+ * Projected balance for the next `days` days from `startBalance` (today's balance).
+ * History queries sit under `transactions` so saving a transaction refreshes the forecast.
+ */
+export function useCashflowForecast({
+  startBalance,
+  days,
+  accountIds,
+  accounts,
+  currencyCode,
+  enabled,
+}: {
+  startBalance: number | null;
+  days: number;
+  accountIds: string[];
+  accounts: Account[];
+  currencyCode: string;
+  enabled: boolean;
+}) {
+  const { user } = useAuth();
+  const on = !!user && enabled;
+
+  // history ends yesterday: today is still in progress
+  const today = startOfDay(new Date());
+  const historyTo = format(subDays(today, 1), 'yyyy-MM-dd');
+  const historyFrom = format(subDays(today, FORECAST_HISTORY_DAYS), 'yyyy-MM-dd');
+  const ids = accountIds.length ? accountIds : undefined;
+
+  const inputs = useQueries({
+    queries: [
+      {
+        queryKey: [...queryKeys.transactions, 'forecast', 'net', historyFrom, ids] as const,
+        queryFn: () =>
+          apiClient.getStatsIncomeExpenseTimeseries({
+            from: historyFrom,
+            to: historyTo,
+            group_by: 'day',
+            account_ids: ids,
+          }),
+        enabled: on,
+      },
+      {
+        queryKey: [...queryKeys.transactions, 'forecast', 'expenses', historyFrom, ids] as const,
+        queryFn: async () =>
+          (
+            await apiClient.getTransactions({
+              from: historyFrom,
+              to: historyTo,
+              type: 'withdrawal',
+              account_ids: ids,
+              limit: SUBSCRIPTION_SCAN_LIMIT,
+            })
+          ).items,
+        enabled: on,
+      },
+      {
+        queryKey: queryKeys.recurring,
+        queryFn: () => apiClient.getRecurringRules(),
+        enabled: on,
+      },
+      {
+        queryKey: [...queryKeys.debts, 'open'] as const,
+        queryFn: async () => (await apiClient.getDebts({ statuses: ['open'] })).items,
+        enabled: on,
+      },
+    ],
+    // rules are optional: unreadable storage just means nothing is scheduled from them
+    combine: ([history, expenses, rules, debts]) => ({
+      history: history.data,
+      expenses: expenses.data,
+      rules: rules.isError ? [] : rules.data,
+      debts: debts.data,
+      isPending: history.isPending || expenses.isPending || (rules.isPending && !rules.isError) || debts.isPending,
+      isError: history.isError || expenses.isError || debts.isError,
+    }),
+  });
+
+  const todayKey = today.getTime();
+
+  const { history, expenses, rules, debts } = inputs;
+
+  const forecast: CashflowForecast | null = useMemo(() => {
+    if (startBalance == null || !history || !expenses || !rules || !debts) return null;
+
+    const day = new Date(todayKey);
+    const schedule = {
+      rules,
+      debts,
+      // a bill that already has a rule would be counted twice
+      subscriptions: detectSubscriptions(expenses).filter((c) => !isTrackedByRule(c, rules)),
+      accounts,
+      accountIds,
+      currencyCode,
+    };
+
+    const historyStart = subDays(day, FORECAST_HISTORY_DAYS);
+    const historyEnd = subDays(day, 1);
+    const dailyNet = baselineDailyNet(
+      history.points,
+      FORECAST_HISTORY_DAYS,
+      scheduledHistoryTotal(schedule, historyStart, historyEnd)
+    );
+
+    return buildForecast({
+      startBalance,
+      dailyNet,
+      events: scheduledEvents(schedule, day, addDays(day, days)),
+      days,
+      today: day,
+    });
+  }, [history, expenses, rules, debts, startBalance, days, accounts, accountIds, currencyCode, todayKey]);
+
+  return { forecast, isPending: on && inputs.isPending, isError: inputs.isError };
+}
@@ -0,0 +1,34 @@
+import { useQueries, useQuery } from '@tanstack/react-query';
+import { fxService } from '@/services/fx.service';
+import type { FxRates } from '@/lib/currency';
+
+/** Rate to convert `from` into `to` on `date` (YYYY-MM-DD); idle until both currencies differ */
+export function useFxRate(from: string | undefined, to: string | undefined, date: string) {
+  return useQuery({
+    queryKey: ['fx', from, to, date],
+    queryFn: () => fxService.getRate(from!, to!, date),
+    enabled: !!from && !!to && from !== to,
+    // quotes for a past day don't change; saving a manual rate invalidates the pair
+    staleTime: Infinity,
+  });
+}
+
+/** Rates to convert each of `currencies` into `base` on `date`; currencies without a quote are left out */
+export function useFxRates(currencies: string[], base: string, date: string): FxRates {
+  const others = Array.from(new Set(currencies)).filter((code) => code !== base);
+
+  return useQueries({
+    queries: others.map((from) => ({
+      queryKey: ['fx', from, base, date],
+      queryFn: () => fxService.getRate(from, base, date),
+      staleTime: Infinity,
+    })),
+    combine: (results) => {
+      const rates: FxRates = { [base]: 1 };
+      results.forEach((r, i) => {
+        if (r.data) rates[others[i]] = r.data.rate;
+      });
+      return rates;
+    },
+  });
+}
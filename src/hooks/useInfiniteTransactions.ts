@@ -1,15 +1,14 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { apiClient } from '@/api/client';
-import type { Transaction } from '@/core/types';
-
-type TxType = 'withdrawal' | 'deposit';
+import type { Transaction, TransactionType } from '@/core/types';
 
 export type TransactionsQuery = {
   from: string;
   to: string;
   limit?: number;
-  type?: TxType;
+  type?: TransactionType;
   category_ids?: number[];
+  subcategory_ids?: number[];
   account_ids?: string[];
   min_amount?: number;
   max_amount?: number;
@@ -29,6 +28,28 @@ type State = {
   error: string | null;
 };
 
+// Does a (locally patched) transaction still belong to the loaded list?
+function matchesQuery(tx: Transaction, q: TransactionsQuery) {
+  const ts = new Date(tx.performed_at || tx.created_at).getTime();
+  if (ts < new Date(q.from).getTime() || ts > new Date(q.to).getTime()) return false;
+  if (q.category_ids?.length && (!tx.category_id || !q.category_ids.includes(tx.category_id))) return false;
+  if (q.subcategory_ids?.length && (!tx.subcategory_id || !q.subcategory_ids.includes(tx.subcategory_id))) return false;
+  return true;
+}
+
+// Summary delta for adding (sign = 1) or removing (sign = -1) one row
+function totalsDelta(s: State, tx: Transaction, sign: 1 | -1): Partial<State> {
+  const income = tx.type === 'deposit' ? Math.abs(tx.amount) : 0;
+  const expense = tx.type === 'withdrawal' ? Math.abs(tx.amount) : 0;
+  return {
+    total: s.total + sign,
+    offset: s.offset + sign,
+    total_income: s.total_income + sign * income,
+    total_expense: s.total_expense + sign * expense,
+    netBalance: s.netBalance + sign * (income - expense),
+  };
+}
+
 function stableKey(q: TransactionsQuery) {
   return JSON.stringify({
     ...q,
@@ -164,6 +185,82 @@ export function useInfiniteTransactions(query: TransactionsQuery) {
 
   const hasNext = state.items.length < state.total;
 
+  const commitLocal = useCallback((fn: (s: State) => State) => {
+    setState((s) => {
+      const next = fn(s);
+      offsetRef.current = next.offset;
+      totalRef.current = next.total;
+      return next;
+    });
+  }, []);
+
+  /**
+   * Optimistically patch a loaded row in place (no reload, scroll is kept).
+   * Rows that no longer match the filters are dropped with their totals.
+   * Returns a rollback that restores the original row.
+   */
+  const patchItem = useCallback(
+    (id: string, patch: Partial<Transaction>) => {
+      let original: Transaction | undefined;
+      let index = -1;
+
+      commitLocal((s) => {
+        index = s.items.findIndex((it) => it.id === id);
+        if (index === -1) return s;
+        original = s.items[index];
+
+        const updated = { ...original, ...patch };
+        if (!matchesQuery(updated, query)) {
+          return { ...s, items: s.items.filter((it) => it.id !== id), ...totalsDelta(s, original, -1) };
+        }
+        return { ...s, items: s.items.map((it) => (it.id === id ? updated : it)) };
+      });
+
+      return () => {
+        commitLocal((s) => {
+          if (!original) return s;
+          const restored = original;
+          if (s.items.some((it) => it.id === id)) {
+            return { ...s, items: s.items.map((it) => (it.id === id ? restored : it)) };
+          }
+          const items = [...s.items];
+          items.splice(Math.min(index, items.length), 0, restored);
+          return { ...s, items, ...totalsDelta(s, restored, 1) };
+        });
+      };
+    },
+    [commitLocal, query]
+  );
+
+  /**
+   * Optimistically drop a row and subtract it from the summary totals.
+   * Returns a rollback that puts it back at the same position.
+   */
+  const removeItem = useCallback(
+    (id: string) => {
+      let removed: Transaction | undefined;
+      let index = -1;
+
+      commitLocal((s) => {
+        index = s.items.findIndex((it) => it.id === id);
+        if (index === -1) return s;
+        removed = s.items[index];
+        return { ...s, items: s.items.filter((it) => it.id !== id), ...totalsDelta(s, removed, -1) };
+      });
+
+      return () => {
+        commitLocal((s) => {
+          if (!removed || s.items.some((it) => it.id === id)) return s;
+          const restored = removed;
+          const items = [...s.items];
+          items.splice(Math.min(index, items.length), 0, restored);
+          return { ...s, items, ...totalsDelta(s, restored, 1) };
+        });
+      };
+    },
+    [commitLocal]
+  );
+
   const fetchNext = useCallback(() => {
     const offset = offsetRef.current;
     const total = totalRef.current;
@@ -192,5 +289,7 @@ export function useInfiniteTransactions(query: TransactionsQuery) {
     hasNext,
     fetchNext,
     refetch: () => fetchPage(0),
+    patchItem,
+    removeItem,
   };
 }
@@ -0,0 +1,15 @@
+import { useSyncExternalStore } from 'react';
+import { outboxService } from '@/services/outbox.service';
+
+export function useOutbox() {
+  const items = useSyncExternalStore(
+    (listener) => outboxService.subscribe(listener),
+    () => outboxService.getItems()
+  );
+
+  return {
+    items,
+    retry: (id: string) => outboxService.retry(id),
+    discard: (id: string) => outboxService.discard(id),
+  };
+}
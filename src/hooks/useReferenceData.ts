@@ -0,0 +1,45 @@
+import { useQuery } from '@tanstack/react-query';
+import { apiClient } from '@/api/client';
+import { queryKeys } from '@/api/queryClient';
+import { useAuth } from '@/contexts/AuthContext';
+import { applyOrder } from '@/lib/categoryOrder';
+import { applyArchived } from '@/lib/archivedAccounts';
+
+// Shared cached queries for data every page needs.
+// Disabled until AuthContext has a valid session.
+
+export function useMe() {
+  const { user } = useAuth();
+  return useQuery({
+    queryKey: queryKeys.me,
+    queryFn: () => apiClient.getMe(),
+    enabled: !!user,
+  });
+}
+
+export function useAccounts() {
+  const { user } = useAuth();
+  return useQuery({
+    queryKey: queryKeys.accounts,
+    queryFn: async () => applyArchived(await apiClient.getAccounts()),
+    enabled: !!user,
+  });
+}
+
+export function useCategories() {
+  const { user } = useAuth();
+  return useQuery({
+    queryKey: queryKeys.categories,
+    queryFn: async () => applyOrder('categories', await apiClient.getCategories()),
+    enabled: !!user,
+  });
+}
+
+export function useSubcategories() {
+  const { user } = useAuth();
+  return useQuery({
+    queryKey: queryKeys.subcategories,
+    queryFn: async () => applyOrder('subcategories', await apiClient.getSubcategories()),
+    enabled: !!user,
+  });
+}
@@ -0,0 +1,22 @@
+import { CloudCollection } from '@/services/cloudStore.service';
+
+// The API has no archive flag on accounts, so archived ones are kept in Telegram CloudStorage
+// (one key per account) and follow the user across devices
+const archived = new CloudCollection<{ id: string }>('archived_account');
+
+/** Overlay the saved archive state onto `is_archived` */
+export async function applyArchived<T extends { id: string; is_archived?: boolean }>(accounts: T[]): Promise<T[]> {
+  let ids = new Set<string>();
+  try {
+    ids = new Set((await archived.list()).map((a) => a.id));
+  } catch (error) {
+    // showing archived accounts beats showing none
+    console.error('Failed to read archived accounts:', error);
+  }
+  return accounts.map((a) => ({ ...a, is_archived: ids.has(a.id) }));
+}
+
+export async function setArchived(accountId: string, isArchived: boolean): Promise<void> {
+  if (isArchived) await archived.put({ id: accountId });
+  else await archived.remove(accountId);
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { budgetProgress, budgetTarget, projectMonthEnd, rolloverCarry, type MonthSpend } from './budgets';
+import type { Budget } from '@/core/types';
+
+const month = (y: number, m: number) => new Date(y, m - 1, 1);
+
+const budget = (overrides: Partial<Budget> = {}): Budget => ({
+  id: 'b1',
+  category_id: 7,
+  amount: 100,
+  rollover: 'unspent',
+  start_month: '2024-01',
+  created_at: '2024-01-01T00:00:00Z',
+  ...overrides,
+});
+
+const spend = (b: Budget, total: number): MonthSpend => new Map([[budgetTarget(b), total]]);
+
+describe('rolloverCarry', () => {
+  it('carries nothing without rollover', () => {
+    const b = budget({ rollover: 'none' });
+    expect(rolloverCarry(b, [{ month: month(2024, 1), spend: spend(b, 40) }])).toBe(0);
+  });
+
+  it('accumulates leftovers but never carries overspending with "unspent"', () => {
+    const b = budget();
+    const history = [
+      { month: month(2024, 1), spend: spend(b, 40) }, // +60
+      { month: month(2024, 2), spend: spend(b, 150) }, // 160 - 150 = +10
+      { month: month(2024, 3), spend: spend(b, 300) }, // over: back to 0
+    ];
+    expect(rolloverCarry(b, history.slice(0, 2))).toBe(10);
+    expect(rolloverCarry(b, history)).toBe(0);
+  });
+
+  it('carries overspending too with "all"', () => {
+    const b = budget({ rollover: 'all' });
+    const history = [
+      { month: month(2024, 1), spend: spend(b, 130) }, // -30
+      { month: month(2024, 2), spend: spend(b, 50) }, // 70 - 50 = +20
+    ];
+    expect(rolloverCarry(b, history.slice(0, 1))).toBe(-30);
+    expect(rolloverCarry(b, history)).toBe(20);
+  });
+
+  it('ignores months before the budget started and months with no spending', () => {
+    const b = budget({ start_month: '2024-02' });
+    const history = [
+      { month: month(2024, 1), spend: spend(b, 999) },
+      { month: month(2024, 2), spend: new Map() },
+    ];
+    expect(rolloverCarry(b, history)).toBe(100);
+  });
+
+  it('tracks a subcategory budget separately from its category', () => {
+    const b = budget({ subcategory_id: 3 });
+    const history = [{ month: month(2024, 1), spend: new Map([['cat:7', 500], ['sub:3', 25]]) }];
+    expect(rolloverCarry(b, history)).toBe(75);
+  });
+});
+
+describe('budgetProgress', () => {
+  const now = new Date(2024, 3, 10); // 10 April
+
+  it('adds the carry to the limit', () => {
+    const b = budget();
+    const p = budgetProgress(b, month(2024, 4), spend(b, 20), 50, now);
+    expect(p).toMatchObject({ limit: 150, spent: 20, remaining: 130, status: 'ok' });
+  });
+
+  it('warns near the limit or when the run rate would cross it, and flags overspending', () => {
+    const b = budget();
+    expect(budgetProgress(b, month(2024, 3), spend(b, 85), 0, now).status).toBe('warning');
+    // 40 in 10 days projects to 120 for April
+    expect(budgetProgress(b, month(2024, 4), spend(b, 40), 0, now).status).toBe('warning');
+    expect(budgetProgress(b, month(2024, 4), spend(b, 101), 0, now).status).toBe('over');
+    // a negative carry shrinks the limit
+    expect(budgetProgress(b, month(2024, 3), spend(b, 80), -30, now).status).toBe('over');
+  });
+});
+
+describe('projectMonthEnd', () => {
+  const now = new Date(2024, 1, 10); // 10 Feb 2024, 29 days
+
+  it('extrapolates the current month', () => {
+    expect(projectMonthEnd(100, month(2024, 2), now)).toBeCloseTo(290);
+  });
+
+  it('keeps past months and zeroes future ones', () => {
+    expect(projectMonthEnd(100, month(2024, 1), now)).toBe(100);
+    expect(projectMonthEnd(100, month(2024, 3), now)).toBe(0);
+  });
+});
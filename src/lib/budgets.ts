@@ -0,0 +1,84 @@
+import { differenceInCalendarDays, endOfMonth, format, getDaysInMonth, isSameMonth, parse, startOfMonth } from 'date-fns';
+import type { Budget, CategoryStatsView, SubcategoryStatsView } from '@/core/types';
+
+// spending past this share of the limit (or a projection over it) shows as a warning
+export const BUDGET_WARNING_RATIO = 0.8;
+
+/** Expense totals for one month, keyed by budgetTarget() */
+export type MonthSpend = Map<string, number>;
+
+export type BudgetStatus = 'ok' | 'warning' | 'over';
+
+export type BudgetProgress = {
+  budget: Budget;
+  carry: number; // rolled over from earlier months, negative when overspending carries
+  limit: number; // amount + carry
+  spent: number;
+  remaining: number;
+  projected: number; // month-end spend at the current daily run rate
+  status: BudgetStatus;
+};
+
+export function monthKey(date: Date): string {
+  return format(date, 'yyyy-MM');
+}
+
+export function parseMonth(key: string): Date {
+  return parse(key, 'yyyy-MM', new Date());
+}
+
+/** Stats query range (YYYY-MM-DD) covering the whole month */
+export function monthRange(month: Date): { from: string; to: string } {
+  return {
+    from: format(startOfMonth(month), 'yyyy-MM-dd'),
+    to: format(endOfMonth(month), 'yyyy-MM-dd'),
+  };
+}
+
+export function budgetTarget(budget: Pick<Budget, 'category_id' | 'subcategory_id'>): string {
+  return budget.subcategory_id ? `sub:${budget.subcategory_id}` : `cat:${budget.category_id}`;
+}
+
+export function monthSpendFromStats(cat: CategoryStatsView, sub?: SubcategoryStatsView | null): MonthSpend {
+  const spend: MonthSpend = new Map();
+  cat.items.forEach((it) => spend.set(`cat:${it.category_id}`, it.total));
+  sub?.items.forEach((it) => spend.set(`sub:${it.subcategory_id}`, it.total));
+  return spend;
+}
+
+export function isBudgetActive(budget: Budget, month: Date): boolean {
+  // YYYY-MM compares correctly as a string
+  return monthKey(month) >= budget.start_month;
+}
+
+/** What the budget brings into the month after `history` (earlier months, oldest first) */
+export function rolloverCarry(budget: Budget, history: { month: Date; spend: MonthSpend }[]): number {
+  if (budget.rollover === 'none') return 0;
+
+  let carry = 0;
+  for (const { month, spend } of history) {
+    if (!isBudgetActive(budget, month)) continue;
+    const left = budget.amount + carry - (spend.get(budgetTarget(budget)) ?? 0);
+    carry = budget.rollover === 'unspent' ? Math.max(0, left) : left;
+  }
+  return carry;
+}
+
+/** Month-end spend if the rest of the month goes like the days so far; past months are final */
+export function projectMonthEnd(spent: number, month: Date, now = new Date()): number {
+  if (!isSameMonth(month, now)) return month < now ? spent : 0;
+  const elapsed = differenceInCalendarDays(now, startOfMonth(month)) + 1;
+  return (spent / elapsed) * getDaysInMonth(month);
+}
+
+export function budgetProgress(budget: Budget, month: Date, spend: MonthSpend, carry: number, now = new Date()): BudgetProgress {
+  const spent = spend.get(budgetTarget(budget)) ?? 0;
+  const limit = budget.amount + carry;
+  const projected = projectMonthEnd(spent, month, now);
+
+  let status: BudgetStatus = 'ok';
+  if (spent > limit) status = 'over';
+  else if (spent >= limit * BUDGET_WARNING_RATIO || projected > limit) status = 'warning';
+
+  return { budget, carry, limit, spent, remaining: limit - spent, projected, status };
+}
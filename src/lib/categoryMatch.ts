@@ -0,0 +1,74 @@
+import type { Category, Subcategory } from '@/core/types';
+
+export type CategoryMatch = {
+  category_id: number;
+  subcategory_id?: number;
+  score: number; // 0..1, 1 = same name
+};
+
+// strip emoji, punctuation and case so "🍔 Food!" matches "food"
+function normalize(s: string): string {
+  return s
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + cost);
+    }
+    prev = curr;
+  }
+  return prev[b.length];
+}
+
+/** Similarity of two names in 0..1 (exact > prefix/contains > edit distance) */
+export function nameSimilarity(query: string, name: string): number {
+  const q = normalize(query);
+  const n = normalize(name);
+  if (!q || !n) return 0;
+  if (q === n) return 1;
+  if (n.startsWith(q) || q.startsWith(n)) return 0.9;
+  if (n.includes(q) || q.includes(n)) return 0.8;
+
+  const distance = levenshtein(q, n);
+  return Math.max(0, 1 - distance / Math.max(q.length, n.length));
+}
+
+/**
+ * Best category (or subcategory, which implies its category) for a free-text name.
+ * Returns null when nothing is similar enough to be a reasonable guess.
+ */
+export function matchCategory(
+  name: string | undefined,
+  categories: Category[],
+  subcategories: Subcategory[] = [],
+  minScore = 0.6
+): CategoryMatch | null {
+  if (!name?.trim()) return null;
+
+  let best: CategoryMatch | null = null;
+
+  for (const c of categories) {
+    const score = nameSimilarity(name, c.name);
+    if (!best || score > best.score) best = { category_id: c.id, score };
+  }
+
+  for (const s of subcategories) {
+    const score = nameSimilarity(name, s.name);
+    // categories win ties: the broader guess is the safer one
+    if (!best || score > best.score) best = { category_id: s.category_id, subcategory_id: s.id, score };
+  }
+
+  return best && best.score >= minScore ? best : null;
+}
@@ -0,0 +1,31 @@
+import { CloudCollection } from '@/services/cloudStore.service';
+
+type Kind = 'categories' | 'subcategories';
+type StoredOrder = { id: Kind; positions: Record<number, number> };
+
+// The API has no route to update a category, so the drag order lives in Telegram CloudStorage,
+// one record per kind, and follows the user across devices like budgets and recurring rules
+const orders = new CloudCollection<StoredOrder>('category_order');
+
+async function read(kind: Kind): Promise<Record<number, number> | undefined> {
+  const all = await orders.list();
+  return all.find((o) => o.id === kind)?.positions;
+}
+
+/** Overlay the saved order onto `position`; rows that were never dragged keep the server's */
+export async function applyOrder<T extends { id: number; position?: number }>(kind: Kind, items: T[]): Promise<T[]> {
+  let order: Record<number, number> | undefined;
+  try {
+    order = await read(kind);
+  } catch (error) {
+    // the list itself matters more than its order
+    console.error('Failed to read category order:', error);
+  }
+  if (!order) return items;
+  return items.map((item) => (item.id in order ? { ...item, position: order[item.id] } : item));
+}
+
+export async function saveOrder(kind: Kind, positions: Map<number, number>): Promise<void> {
+  const current = await read(kind);
+  await orders.put({ id: kind, positions: { ...current, ...Object.fromEntries(positions) } });
+}
@@ -0,0 +1,35 @@
+import type { Account } from '@/core/types';
+
+// Currencies offered in pickers; the backend accepts any ISO 4217 code
+export const CURRENCY_CODES = ['UZS', 'USD', 'EUR', 'RUB', 'KZT', 'KGS', 'TJS', 'GBP', 'TRY', 'CNY', 'AED'] as const;
+
+/** Picker options: known currencies plus any extra codes already in use */
+export function currencyOptions(...extra: (string | undefined)[]): string[] {
+  const codes = new Set<string>();
+  extra.forEach((code) => code && codes.add(code));
+  CURRENCY_CODES.forEach((code) => codes.add(code));
+  return Array.from(codes);
+}
+
+// units of the base currency per 1 unit of the keyed currency
+export type FxRates = Record<string, number>;
+
+export function accountCurrency(account: Account | undefined, fallback: string): string {
+  return account?.currency_code || fallback;
+}
+
+/** null when there is no known rate for the currency */
+export function convertToBase(amount: number, currency: string, rates: FxRates): number | null {
+  const rate = rates[currency];
+  return rate === undefined ? null : amount * rate;
+}
+
+/** Sum balances per currency, keeping the first-seen currency order */
+export function balancesByCurrency(accounts: Account[], fallback: string): { currency: string; total: number }[] {
+  const totals = new Map<string, number>();
+  for (const acc of accounts) {
+    const code = accountCurrency(acc, fallback);
+    totals.set(code, (totals.get(code) ?? 0) + acc.balance);
+  }
+  return Array.from(totals, ([currency, total]) => ({ currency, total }));
+}
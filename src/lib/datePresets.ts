@@ -0,0 +1,63 @@
+import {
+  startOfMonth,
+  endOfMonth,
+  subMonths,
+  startOfWeek,
+  endOfWeek,
+  subWeeks,
+  subDays,
+  startOfDay,
+  endOfDay,
+} from 'date-fns';
+
+export type PresetKey =
+  | 'thisMonth'
+  | 'lastMonth'
+  | 'thisWeek'
+  | 'lastWeek'
+  | 'last30Days'
+  | 'custom';
+
+export const DATE_PRESETS: PresetKey[] = ['thisMonth', 'lastMonth', 'thisWeek', 'lastWeek', 'last30Days', 'custom'];
+
+export function isPresetKey(value: string): value is PresetKey {
+  return (DATE_PRESETS as string[]).includes(value);
+}
+
+/** Range for a named preset relative to now; null for `custom` */
+export function computePreset(key: PresetKey) {
+  const now = new Date();
+
+  switch (key) {
+    case 'thisMonth': {
+      const from = startOfDay(startOfMonth(now));
+      const to = endOfDay(endOfMonth(now));
+      return { from, to };
+    }
+    case 'lastMonth': {
+      const m = subMonths(now, 1);
+      const from = startOfDay(startOfMonth(m));
+      const to = endOfDay(endOfMonth(m));
+      return { from, to };
+    }
+    case 'thisWeek': {
+      const from = startOfDay(startOfWeek(now, { weekStartsOn: 1 }));
+      const to = endOfDay(endOfWeek(now, { weekStartsOn: 1 }));
+      return { from, to };
+    }
+    case 'lastWeek': {
+      const w = subWeeks(now, 1);
+      const from = startOfDay(startOfWeek(w, { weekStartsOn: 1 }));
+      const to = endOfDay(endOfWeek(w, { weekStartsOn: 1 }));
+      return { from, to };
+    }
+    case 'last30Days': {
+      const from = startOfDay(subDays(now, 30));
+      const to = endOfDay(now);
+      return { from, to };
+    }
+    case 'custom':
+    default:
+      return null;
+  }
+}
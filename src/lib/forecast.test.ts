@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { bucketKey, buildForecast, currentBucketIndex, forecastBuckets, scheduledEvents } from './forecast';
+import type { Debt } from '@/core/types';
+
+const day = (y: number, m: number, d: number) => new Date(y, m - 1, d);
+
+describe('bucketKey', () => {
+  it('starts weeks on Monday, also across a month and year end', () => {
+    // Sunday 31 Dec 2023 belongs to the week of Monday 25 Dec
+    expect(bucketKey(day(2023, 12, 31), 'week')).toBe('2023-12-25');
+    expect(bucketKey(day(2024, 1, 1), 'week')).toBe('2024-01-01');
+    expect(bucketKey(day(2024, 3, 3), 'week')).toBe('2024-02-26');
+  });
+
+  it('uses the first of the month and the day itself', () => {
+    expect(bucketKey(day(2024, 2, 29), 'month')).toBe('2024-02-01');
+    expect(bucketKey(day(2024, 2, 29), 'day')).toBe('2024-02-29');
+  });
+});
+
+describe('buildForecast', () => {
+  const today = day(2024, 1, 30);
+
+  it('books today and the last day, but nothing past the horizon', () => {
+    const f = buildForecast({
+      startBalance: 100,
+      dailyNet: -10,
+      days: 3,
+      today,
+      events: [
+        { date: today, amount: -5, source: 'recurring' },
+        { date: day(2024, 2, 2), amount: 50, source: 'debt' },
+        { date: day(2024, 2, 3), amount: 1000, source: 'debt' },
+      ],
+    });
+
+    expect(f.points.map((p) => p.balance)).toEqual([95, 85, 75, 115]);
+    expect(f.endBalance).toBe(115);
+    expect(f.events).toHaveLength(2);
+  });
+
+  it('reports the first day below zero and the minimum', () => {
+    const f = buildForecast({ startBalance: 15, dailyNet: -10, days: 3, today, events: [] });
+    expect(f.firstNegative).toEqual(day(2024, 2, 1));
+    expect(f.minBalance).toBe(-15);
+  });
+});
+
+describe('forecastBuckets', () => {
+  it('keeps the end-of-bucket balance for each week', () => {
+    // Sat 6 .. Tue 9 Jan 2024: the week flips on Monday the 8th
+    const points = [6, 7, 8, 9].map((d, i) => ({ date: day(2024, 1, d), balance: i }));
+    expect(forecastBuckets(points, 'week')).toEqual([
+      { ts: '2024-01-01', balance: 1 },
+      { ts: '2024-01-08', balance: 3 },
+    ]);
+  });
+
+  it('splits months on the first', () => {
+    const points = [day(2024, 1, 31), day(2024, 2, 1)].map((date, i) => ({ date, balance: i }));
+    expect(forecastBuckets(points, 'month').map((b) => b.ts)).toEqual(['2024-01-01', '2024-02-01']);
+  });
+});
+
+describe('currentBucketIndex', () => {
+  const buckets = [{ ts: '2024-01-01' }, { ts: '2024-01-08' }, { ts: '2024-01-15T00:00:00Z' }];
+
+  it('finds the bucket holding today, including its first day', () => {
+    expect(currentBucketIndex(buckets, day(2024, 1, 8))).toBe(1);
+    expect(currentBucketIndex(buckets, day(2024, 1, 14))).toBe(1);
+    expect(currentBucketIndex(buckets, day(2024, 1, 20))).toBe(2);
+  });
+
+  it('is -1 when the range starts after today', () => {
+    expect(currentBucketIndex(buckets, day(2023, 12, 31))).toBe(-1);
+  });
+});
+
+describe('scheduledEvents', () => {
+  const debt = (overrides: Partial<Debt>): Debt => ({
+    id: 'd1',
+    user_id: 'u1',
+    type: 'borrow',
+    status: 'open',
+    amount: 40,
+    currency_code: 'USD',
+    name: 'Alex',
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z',
+    ...overrides,
+  });
+  const input = { rules: [], subscriptions: [], accounts: [], currencyCode: 'USD' };
+  const today = day(2024, 1, 10);
+
+  it('moves overdue debts to today and drops those due after the horizon', () => {
+    const events = scheduledEvents(
+      {
+        ...input,
+        debts: [
+          debt({ id: 'overdue', due_at: day(2024, 1, 2).toISOString() }),
+          debt({ id: 'lent', type: 'lend', due_at: day(2024, 1, 20).toISOString() }),
+          debt({ id: 'late', due_at: day(2024, 3, 1).toISOString() }),
+        ],
+      },
+      today,
+      day(2024, 2, 9)
+    );
+    expect(events.map((e) => [e.date, e.amount])).toEqual([
+      [today, -40],
+      [day(2024, 1, 20), 40],
+    ]);
+  });
+
+  it('leaves debts out of per-account forecasts and other currencies out entirely', () => {
+    const debts = [debt({ due_at: day(2024, 1, 20).toISOString() })];
+    expect(scheduledEvents({ ...input, debts, accountIds: ['a1'] }, today, day(2024, 2, 9))).toEqual([]);
+    expect(scheduledEvents({ ...input, debts, currencyCode: 'EUR' }, today, day(2024, 2, 9))).toEqual([]);
+  });
+});
@@ -0,0 +1,217 @@
+import { addDays, addMonths, addWeeks, differenceInCalendarDays, format, startOfDay, startOfMonth, startOfWeek } from 'date-fns';
+import type { Account, Debt, RecurringRule, StatsGroupBy, TimeseriesDataPoint } from '@/core/types';
+import { accountCurrency } from '@/lib/currency';
+import { occurrencesBetween, parseDate, pendingOccurrences, ruleRecurrence } from '@/lib/recurrence';
+import type { SubscriptionCandidate } from '@/lib/subscriptions';
+
+export const FORECAST_HORIZONS = [30, 60, 90] as const;
+export type ForecastHorizon = (typeof FORECAST_HORIZONS)[number];
+
+// daily net is averaged over this many days before today
+export const FORECAST_HISTORY_DAYS = 90;
+
+export type ForecastEventSource = 'debt' | 'recurring' | 'subscription';
+
+export type ForecastEvent = {
+  date: Date;
+  amount: number; // signed: negative leaves the wallet
+  source: ForecastEventSource;
+  label?: string;
+};
+
+export type ForecastPoint = {
+  date: Date;
+  balance: number; // end of day
+};
+
+export type CashflowForecast = {
+  dailyNet: number;
+  points: ForecastPoint[]; // today first
+  events: ForecastEvent[];
+  endBalance: number;
+  minBalance: number;
+  firstNegative: Date | null;
+};
+
+type ScheduleInput = {
+  rules: RecurringRule[];
+  debts: Debt[];
+  subscriptions: SubscriptionCandidate[];
+  accounts: Account[];
+  accountIds?: string[]; // empty = every account
+  currencyCode: string;
+};
+
+// amounts in other currencies can't be added to the balance without rates, so they're left out
+function inScope(input: ScheduleInput, accountId: string | undefined, currency: string): boolean {
+  if (currency !== input.currencyCode) return false;
+  if (!accountId || !input.accountIds?.length) return true;
+  return input.accountIds.includes(accountId);
+}
+
+function ruleCurrency(input: ScheduleInput, rule: RecurringRule): string {
+  return accountCurrency(
+    input.accounts.find((a) => a.id === rule.account_id),
+    input.currencyCode
+  );
+}
+
+function subscriptionDates(sub: SubscriptionCandidate, from: Date, to: Date): Date[] {
+  const step = (d: Date) => (sub.cadence === 'weekly' ? addWeeks(d, 1) : addMonths(d, 1));
+  // a missed cycle means it was probably cancelled
+  if (step(sub.next_date) < from) return [];
+
+  const out: Date[] = [];
+  for (let d = sub.next_date; d <= to; d = step(d)) out.push(d < from ? from : d);
+  return out;
+}
+
+/**
+ * Known money movements between today and `to`: open debts by due date (borrowed = we pay,
+ * lent = we get paid), pending recurring occurrences and detected subscriptions.
+ * Anything already overdue is expected today.
+ */
+export function scheduledEvents(input: ScheduleInput, today: Date, to: Date): ForecastEvent[] {
+  const from = startOfDay(today);
+  const events: ForecastEvent[] = [];
+
+  for (const debt of input.debts) {
+    if (debt.status !== 'open' || !debt.due_at) continue;
+    // debts carry no account, so they only belong to the all-accounts forecast
+    if (input.accountIds?.length) continue;
+    if (!inScope(input, undefined, debt.currency_code)) continue;
+
+    const due = startOfDay(new Date(debt.due_at));
+    if (due > to) continue;
+    events.push({
+      date: due < from ? from : due,
+      amount: debt.type === 'borrow' ? -debt.amount : debt.amount,
+      source: 'debt',
+      label: debt.name,
+    });
+  }
+
+  for (const rule of input.rules) {
+    if (!inScope(input, rule.account_id, ruleCurrency(input, rule))) continue;
+
+    const amount = rule.type === 'withdrawal' ? -rule.amount : rule.amount;
+    for (const d of pendingOccurrences(rule, to, 200)) {
+      events.push({ date: d < from ? from : d, amount, source: 'recurring', label: rule.note });
+    }
+  }
+
+  for (const sub of input.subscriptions) {
+    if (!inScope(input, sub.account_id, sub.currency_code)) continue;
+
+    for (const d of subscriptionDates(sub, from, to)) {
+      events.push({ date: d, amount: -sub.amount, source: 'subscription', label: sub.note });
+    }
+  }
+
+  return events.sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+/** What the rules and subscriptions booked over [from, to]; already part of the history net */
+export function scheduledHistoryTotal(input: ScheduleInput, from: Date, to: Date): number {
+  let total = 0;
+
+  for (const rule of input.rules) {
+    if (!rule.is_active || !rule.last_occurrence) continue;
+    if (!inScope(input, rule.account_id, ruleCurrency(input, rule))) continue;
+    const rec = ruleRecurrence(rule);
+    if (!rec) continue;
+
+    // only confirmed occurrences made it into the history; pending ones are still scheduled
+    const last = parseDate(rule.last_occurrence);
+    const n = occurrencesBetween(rec, parseDate(rule.start_date), from, last < to ? last : to, 500).length;
+    total += n * (rule.type === 'withdrawal' ? -rule.amount : rule.amount);
+  }
+
+  // the detector only sees the loaded window, so its count is the in-window count
+  for (const sub of input.subscriptions) {
+    if (!inScope(input, sub.account_id, sub.currency_code)) continue;
+    total -= sub.count * sub.amount;
+  }
+
+  return total;
+}
+
+/**
+ * Typical day outside the scheduled items: history net minus what the schedule already
+ * explains, spread over every day of the window (days without transactions count as zero).
+ */
+export function baselineDailyNet(history: TimeseriesDataPoint[], days: number, scheduled: number): number {
+  if (days <= 0) return 0;
+  const net = history.reduce((sum, p) => sum + Number(p.net ?? 0), 0);
+  return (net - scheduled) / days;
+}
+
+/** Day-by-day balance for `days` days after today, starting from today's balance */
+export function buildForecast({
+  startBalance,
+  dailyNet,
+  events,
+  days,
+  today,
+}: {
+  startBalance: number;
+  dailyNet: number;
+  events: ForecastEvent[];
+  days: number;
+  today: Date;
+}): CashflowForecast {
+  const start = startOfDay(today);
+  const byDay = new Map<number, number>();
+  for (const e of events) {
+    const i = differenceInCalendarDays(e.date, start);
+    if (i < 0 || i > days) continue;
+    byDay.set(i, (byDay.get(i) ?? 0) + e.amount);
+  }
+
+  // today's regular spending is already in the balance; only its scheduled items are still due
+  let balance = startBalance + (byDay.get(0) ?? 0);
+  const points: ForecastPoint[] = [{ date: start, balance }];
+  let minBalance = balance;
+  let firstNegative: Date | null = balance < 0 ? start : null;
+
+  for (let i = 1; i <= days; i++) {
+    balance += dailyNet + (byDay.get(i) ?? 0);
+    const date = addDays(start, i);
+    points.push({ date, balance });
+    minBalance = Math.min(minBalance, balance);
+    if (balance < 0 && !firstNegative) firstNegative = date;
+  }
+
+  return {
+    dailyNet,
+    points,
+    events: events.filter((e) => differenceInCalendarDays(e.date, start) <= days),
+    endBalance: balance,
+    minBalance,
+    firstNegative,
+  };
+}
+
+/** Bucket key as the stats endpoints format it: day, Monday of the week, or first of the month */
+export function bucketKey(date: Date, groupBy: StatsGroupBy): string {
+  if (groupBy === 'month') return format(startOfMonth(date), 'yyyy-MM-dd');
+  if (groupBy === 'week') return format(startOfWeek(date, { weekStartsOn: 1 }), 'yyyy-MM-dd');
+  return format(date, 'yyyy-MM-dd');
+}
+
+/** The forecast at chart resolution: the balance at the end of each bucket */
+export function forecastBuckets(points: ForecastPoint[], groupBy: StatsGroupBy): { ts: string; balance: number }[] {
+  const buckets = new Map<string, number>();
+  for (const p of points) buckets.set(bucketKey(p.date, groupBy), p.balance);
+  return [...buckets].map(([ts, balance]) => ({ ts, balance }));
+}
+
+/** Index of the bucket holding today (bucket ts sorts as a date prefix), -1 when the range starts later */
+export function currentBucketIndex(points: { ts: string }[], today: Date): number {
+  const key = format(today, 'yyyy-MM-dd');
+  let index = -1;
+  points.forEach((p, i) => {
+    if (p.ts.slice(0, 10) <= key) index = i;
+  });
+  return index;
+}
@@ -0,0 +1,55 @@
+// Minimal promise wrapper around IndexedDB for small key-value stores.
+
+const DB_NAME = 'ewallet';
+const DB_VERSION = 1;
+export const STORES = ['outbox'] as const;
+export type StoreName = (typeof STORES)[number];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDB(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        STORES.forEach((name) => {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name, { keyPath: 'id' });
+          }
+        });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        dbPromise = null;
+        reject(req.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function run<T>(store: StoreName, mode: IDBTransactionMode, fn: (s: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  return openDB().then(
+    (db) =>
+      new Promise<T>((resolve, reject) => {
+        const tx = db.transaction(store, mode);
+        const req = fn(tx.objectStore(store));
+        tx.oncomplete = () => resolve(req.result);
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+      })
+  );
+}
+
+export function idbGetAll<T>(store: StoreName): Promise<T[]> {
+  return run(store, 'readonly', (s) => s.getAll() as IDBRequest<T[]>);
+}
+
+export function idbPut<T extends { id: string }>(store: StoreName, value: T): Promise<IDBValidKey> {
+  return run(store, 'readwrite', (s) => s.put(value));
+}
+
+export function idbDelete(store: StoreName, id: string): Promise<undefined> {
+  return run(store, 'readwrite', (s) => s.delete(id));
+}
@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import { occurrencesBetween, parseRRule, pendingOccurrences, toDateKey } from './recurrence';
+import type { RecurringRule } from '@/core/types';
+
+const keys = (dates: Date[]) => dates.map(toDateKey);
+const day = (y: number, m: number, d: number) => new Date(y, m - 1, d);
+
+describe('parseRRule', () => {
+  it('reads the supported parts, with or without the prefix', () => {
+    expect(parseRRule('RRULE:FREQ=MONTHLY;INTERVAL=3;BYMONTHDAY=-1;COUNT=4')).toEqual({
+      freq: 'MONTHLY',
+      interval: 3,
+      byMonthDay: [-1],
+      count: 4,
+    });
+    expect(parseRRule('freq=weekly;byday=mo,fr')).toEqual({ freq: 'WEEKLY', interval: 1, byDay: [1, 5] });
+    expect(parseRRule('FREQ=DAILY;UNTIL=20240305T000000Z')?.until).toEqual(day(2024, 3, 5));
+  });
+
+  it('rejects what it does not understand', () => {
+    expect(parseRRule('')).toBeNull();
+    expect(parseRRule('FREQ=HOURLY')).toBeNull();
+    expect(parseRRule('FREQ=DAILY;INTERVAL=0')).toBeNull();
+    expect(parseRRule('FREQ=WEEKLY;BYDAY=XX')).toBeNull();
+    expect(parseRRule('FREQ=MONTHLY;BYMONTHDAY=32')).toBeNull();
+    expect(parseRRule('FREQ=DAILY;COUNT=-1')).toBeNull();
+    expect(parseRRule('FREQ=DAILY;UNTIL=soon')).toBeNull();
+    expect(parseRRule('FREQ')).toBeNull();
+  });
+});
+
+describe('occurrencesBetween', () => {
+  it('moves the 31st to the last day of shorter months', () => {
+    const rec = { freq: 'MONTHLY' as const, interval: 1 };
+    expect(keys(occurrencesBetween(rec, day(2024, 1, 31), day(2024, 1, 1), day(2024, 5, 31)))).toEqual([
+      '2024-01-31',
+      '2024-02-29',
+      '2024-03-31',
+      '2024-04-30',
+      '2024-05-31',
+    ]);
+  });
+
+  it('counts negative month days from the end', () => {
+    const rec = parseRRule('FREQ=MONTHLY;BYMONTHDAY=-1')!;
+    expect(keys(occurrencesBetween(rec, day(2023, 1, 15), day(2023, 1, 1), day(2023, 3, 31)))).toEqual([
+      '2023-01-31',
+      '2023-02-28',
+      '2023-03-31',
+    ]);
+  });
+
+  it('keeps a leap day yearly rule on Feb 28 in common years', () => {
+    const rec = { freq: 'YEARLY' as const, interval: 1 };
+    expect(keys(occurrencesBetween(rec, day(2024, 2, 29), day(2024, 1, 1), day(2028, 12, 31)))).toEqual([
+      '2024-02-29',
+      '2025-02-28',
+      '2026-02-28',
+      '2027-02-28',
+      '2028-02-29',
+    ]);
+  });
+
+  it('stops after COUNT, counting occurrences before the window too', () => {
+    const rec = parseRRule('FREQ=WEEKLY;COUNT=3')!;
+    const start = day(2024, 1, 1);
+    expect(keys(occurrencesBetween(rec, start, start, day(2024, 12, 31)))).toEqual([
+      '2024-01-01',
+      '2024-01-08',
+      '2024-01-15',
+    ]);
+    expect(keys(occurrencesBetween(rec, start, day(2024, 1, 10), day(2024, 12, 31)))).toEqual(['2024-01-15']);
+  });
+
+  it('includes the UNTIL day and nothing after it', () => {
+    const rec = parseRRule('FREQ=DAILY;INTERVAL=2;UNTIL=20240107')!;
+    expect(keys(occurrencesBetween(rec, day(2024, 1, 1), day(2024, 1, 1), day(2024, 1, 31)))).toEqual([
+      '2024-01-01',
+      '2024-01-03',
+      '2024-01-05',
+      '2024-01-07',
+    ]);
+  });
+
+  it('expands BYDAY within each week, never before the start', () => {
+    const rec = parseRRule('FREQ=WEEKLY;BYDAY=MO,TH')!;
+    // Wednesday start: that week's Monday is skipped
+    expect(keys(occurrencesBetween(rec, day(2024, 1, 3), day(2024, 1, 1), day(2024, 1, 15)))).toEqual([
+      '2024-01-04',
+      '2024-01-08',
+      '2024-01-11',
+      '2024-01-15',
+    ]);
+  });
+
+  it('respects the limit', () => {
+    const rec = { freq: 'DAILY' as const, interval: 1 };
+    expect(occurrencesBetween(rec, day(2024, 1, 1), day(2024, 1, 1), day(2024, 12, 31), 5)).toHaveLength(5);
+  });
+});
+
+describe('pendingOccurrences', () => {
+  const rule: RecurringRule = {
+    id: 'r1',
+    account_id: 'a1',
+    type: 'withdrawal',
+    amount: 10,
+    cadence: 'monthly',
+    start_date: '2024-01-31',
+    is_active: true,
+    created_at: '2024-01-01T00:00:00Z',
+  };
+
+  it('starts after the last confirmed occurrence', () => {
+    expect(keys(pendingOccurrences({ ...rule, last_occurrence: '2024-02-29' }, day(2024, 4, 30)))).toEqual([
+      '2024-03-31',
+      '2024-04-30',
+    ]);
+  });
+
+  it('is empty for paused rules and unreadable custom rules', () => {
+    expect(pendingOccurrences({ ...rule, is_active: false }, day(2024, 4, 30))).toEqual([]);
+    expect(pendingOccurrences({ ...rule, cadence: 'custom', rrule: 'FREQ=SOMETIMES' }, day(2024, 4, 30))).toEqual([]);
+  });
+});
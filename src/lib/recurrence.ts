@@ -0,0 +1,187 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  addYears,
+  format,
+  getDaysInMonth,
+  isValid,
+  parse,
+  startOfDay,
+  startOfWeek,
+} from 'date-fns';
+import type { RecurringRule } from '@/core/types';
+
+// RFC 5545 subset: FREQ, INTERVAL, BYDAY (weekly), BYMONTHDAY (monthly), COUNT, UNTIL
+export type Frequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export type Recurrence = {
+  freq: Frequency;
+  interval: number;
+  byDay?: number[]; // 0 = Sunday, like Date#getDay
+  byMonthDay?: number[]; // 1..31, negative counts from the month end
+  count?: number;
+  until?: Date;
+};
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// stop runaway rules (e.g. a tiny interval over a long window)
+const MAX_ITERATIONS = 2000;
+
+export function parseDate(value: string): Date {
+  return parse(value.slice(0, 10), 'yyyy-MM-dd', new Date());
+}
+
+export function toDateKey(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+/** Parse an RRULE string (with or without the `RRULE:` prefix); null when unsupported */
+export function parseRRule(text: string): Recurrence | null {
+  const body = text.trim().replace(/^RRULE:/i, '');
+  if (!body) return null;
+
+  const parts = new Map<string, string>();
+  for (const part of body.split(';')) {
+    const [key, value] = part.split('=');
+    if (!key || value === undefined) return null;
+    parts.set(key.trim().toUpperCase(), value.trim().toUpperCase());
+  }
+
+  const freq = parts.get('FREQ') as Frequency | undefined;
+  if (!freq || !['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(freq)) return null;
+
+  const interval = parts.has('INTERVAL') ? Number(parts.get('INTERVAL')) : 1;
+  if (!Number.isInteger(interval) || interval < 1) return null;
+
+  const rec: Recurrence = { freq, interval };
+
+  if (parts.has('BYDAY')) {
+    const days = parts.get('BYDAY')!.split(',').map((d) => WEEKDAYS.indexOf(d));
+    if (days.some((d) => d < 0)) return null;
+    rec.byDay = days;
+  }
+
+  if (parts.has('BYMONTHDAY')) {
+    const days = parts.get('BYMONTHDAY')!.split(',').map(Number);
+    if (days.some((d) => !Number.isInteger(d) || d === 0 || d < -31 || d > 31)) return null;
+    rec.byMonthDay = days;
+  }
+
+  if (parts.has('COUNT')) {
+    const count = Number(parts.get('COUNT'));
+    if (!Number.isInteger(count) || count < 1) return null;
+    rec.count = count;
+  }
+
+  if (parts.has('UNTIL')) {
+    const until = parse(parts.get('UNTIL')!.slice(0, 8), 'yyyyMMdd', new Date());
+    if (!isValid(until)) return null;
+    rec.until = until;
+  }
+
+  return rec;
+}
+
+/** The rule's cadence as a recurrence; presets repeat on the start date's weekday / day of month */
+export function ruleRecurrence(rule: Pick<RecurringRule, 'cadence' | 'rrule'>): Recurrence | null {
+  switch (rule.cadence) {
+    case 'daily':
+      return { freq: 'DAILY', interval: 1 };
+    case 'weekly':
+      return { freq: 'WEEKLY', interval: 1 };
+    case 'monthly':
+      return { freq: 'MONTHLY', interval: 1 };
+    case 'custom':
+      return rule.rrule ? parseRRule(rule.rrule) : null;
+    default:
+      return null;
+  }
+}
+
+// a bill "on the 31st" lands on the last day of shorter months
+function dayInMonth(year: number, month: number, day: number): Date {
+  const days = getDaysInMonth(new Date(year, month, 1));
+  const d = day > 0 ? Math.min(day, days) : Math.max(1, days + day + 1);
+  return new Date(year, month, d);
+}
+
+/** Occurrences in [from, to], counted from `start` (inclusive) */
+export function occurrencesBetween(rec: Recurrence, start: Date, from: Date, to: Date, limit = 50): Date[] {
+  const first = startOfDay(start);
+  const lo = startOfDay(from);
+  const end = rec.until && rec.until < to ? rec.until : to;
+
+  const out: Date[] = [];
+  let emitted = 0;
+
+  const take = (d: Date) => {
+    if (d < first) return true;
+    if (d > end) return false;
+    emitted += 1;
+    if (rec.count && emitted > rec.count) return false;
+    if (d >= lo) out.push(d);
+    return out.length < limit;
+  };
+
+  for (let k = 0; k < MAX_ITERATIONS; k++) {
+    const step = k * rec.interval;
+    let candidates: Date[];
+
+    switch (rec.freq) {
+      case 'DAILY':
+        candidates = [addDays(first, step)];
+        break;
+      case 'WEEKLY': {
+        const week = addWeeks(startOfWeek(first), step);
+        const days = rec.byDay?.length ? [...rec.byDay].sort((a, b) => a - b) : [first.getDay()];
+        candidates = days.map((d) => addDays(week, d));
+        break;
+      }
+      case 'MONTHLY': {
+        const month = addMonths(new Date(first.getFullYear(), first.getMonth(), 1), step);
+        const days = rec.byMonthDay?.length ? rec.byMonthDay : [first.getDate()];
+        candidates = days
+          .map((d) => dayInMonth(month.getFullYear(), month.getMonth(), d))
+          .sort((a, b) => a.getTime() - b.getTime());
+        break;
+      }
+      case 'YEARLY': {
+        const year = addYears(first, step).getFullYear();
+        candidates = [dayInMonth(year, first.getMonth(), first.getDate())];
+        break;
+      }
+    }
+
+    if (candidates[0] > end) break;
+    for (const d of candidates) {
+      if (!take(d)) return out;
+    }
+  }
+
+  return out;
+}
+
+/**
+ * Occurrences still waiting for confirmation: after the last confirmed/skipped one
+ * (or from the start date) up to `until`. Empty for paused or invalid rules.
+ */
+export function pendingOccurrences(rule: RecurringRule, until: Date, limit = 50): Date[] {
+  if (!rule.is_active) return [];
+  const rec = ruleRecurrence(rule);
+  if (!rec) return [];
+
+  const from = rule.last_occurrence ? addDays(parseDate(rule.last_occurrence), 1) : parseDate(rule.start_date);
+  return occurrencesBetween(rec, parseDate(rule.start_date), from, until, limit);
+}
+
+/** Next occurrence that hasn't been confirmed yet, looking up to two years ahead */
+export function nextOccurrence(rule: RecurringRule): Date | null {
+  return pendingOccurrences(rule, addYears(new Date(), 2), 1)[0] ?? null;
+}
+
+/** Short date for occurrence lists, e.g. "Mon, 3 Nov" */
+export function formatOccurrence(date: Date, locale?: string): string {
+  return date.toLocaleDateString(locale || 'en-US', { weekday: 'short', day: 'numeric', month: 'short' });
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { parseStartParam } from './startParam';
+
+describe('parseStartParam', () => {
+  it('reads each command', () => {
+    expect(parseStartParam('tx_9f3a-01')).toEqual({ kind: 'tx', id: '9f3a-01' });
+    expect(parseStartParam('debt_42')).toEqual({ kind: 'debt', id: '42' });
+    expect(parseStartParam('stats_lastMonth')).toEqual({ kind: 'stats', preset: 'lastMonth' });
+    expect(parseStartParam('history_12')).toEqual({ kind: 'history', categoryId: 12 });
+    expect(parseStartParam('history_eating_out')).toEqual({ kind: 'history', categoryName: 'eating out' });
+  });
+
+  it('ignores the command case and surrounding whitespace, not the argument case', () => {
+    expect(parseStartParam('  TX_AbC ')).toEqual({ kind: 'tx', id: 'AbC' });
+  });
+
+  it('keeps underscores after the first one in ids', () => {
+    expect(parseStartParam('tx_a_b')).toEqual({ kind: 'tx', id: 'a_b' });
+  });
+
+  it('returns null for missing or malformed input', () => {
+    for (const raw of [undefined, null, '', '   ', 'tx', 'tx_', '_123', 'unknown_1', 'debt-42']) {
+      expect(parseStartParam(raw)).toBeNull();
+    }
+  });
+
+  it('rejects presets that need dates and unknown presets', () => {
+    expect(parseStartParam('stats_custom')).toBeNull();
+    expect(parseStartParam('stats_forever')).toBeNull();
+    expect(parseStartParam('stats_LASTMONTH')).toBeNull();
+  });
+
+  it('treats mixed digits and letters as a category name', () => {
+    expect(parseStartParam('history_12a')).toEqual({ kind: 'history', categoryName: '12a' });
+    expect(parseStartParam('history__food_')).toEqual({ kind: 'history', categoryName: 'food' });
+  });
+
+  it('rejects a category name made only of separators', () => {
+    expect(parseStartParam('history_--')).toBeNull();
+    expect(parseStartParam('history___')).toBeNull();
+  });
+});
@@ -0,0 +1,37 @@
+import { isPresetKey, type PresetKey } from './datePresets';
+
+// Telegram start_param: up to 64 chars of [A-Za-z0-9_-], e.g. t.me/<bot>/<app>?startapp=debt_<id>
+export type StartCommand =
+  | { kind: 'tx'; id: string }
+  | { kind: 'debt'; id: string }
+  | { kind: 'stats'; preset: PresetKey }
+  | { kind: 'history'; categoryId: number }
+  | { kind: 'history'; categoryName: string };
+
+/** `tx_<id>`, `debt_<id>`, `stats_<preset>`, `history_<category id or name>`; anything else is null */
+export function parseStartParam(raw?: string | null): StartCommand | null {
+  const value = raw?.trim();
+  if (!value) return null;
+
+  const sep = value.indexOf('_');
+  if (sep <= 0 || sep === value.length - 1) return null;
+  const command = value.slice(0, sep).toLowerCase();
+  const arg = value.slice(sep + 1);
+
+  switch (command) {
+    case 'tx':
+      return { kind: 'tx', id: arg };
+    case 'debt':
+      return { kind: 'debt', id: arg };
+    case 'stats':
+      return isPresetKey(arg) && arg !== 'custom' ? { kind: 'stats', preset: arg } : null;
+    case 'history': {
+      if (/^\d+$/.test(arg)) return { kind: 'history', categoryId: Number(arg) };
+      // no spaces allowed in start_param, so names come with _ or -
+      const name = arg.replace(/[_-]+/g, ' ').trim();
+      return name ? { kind: 'history', categoryName: name } : null;
+    }
+    default:
+      return null;
+  }
+}
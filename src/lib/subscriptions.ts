@@ -0,0 +1,121 @@
+import { addDays, addMonths, differenceInCalendarDays, startOfDay } from 'date-fns';
+import type { RecurringRule, Transaction } from '@/core/types';
+
+export type SubscriptionCandidate = {
+  key: string;
+  note?: string;
+  amount: number; // latest payment, positive
+  currency_code: string;
+  account_id: string;
+  category_id?: number;
+  subcategory_id?: number;
+  cadence: 'weekly' | 'monthly';
+  count: number;
+  last_date: Date;
+  next_date: Date;
+};
+
+// day gaps that still read as "the same bill again"
+const CADENCE_GAPS = {
+  weekly: [6, 8],
+  monthly: [26, 35],
+} as const;
+
+// price changes and FX noise within this share still count as one subscription
+const AMOUNT_TOLERANCE = 0.1;
+
+function noteKey(note?: string): string {
+  return (note ?? '').toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+// withdrawals come back signed negative
+function paid(tx: Transaction): number {
+  return Math.abs(tx.amount);
+}
+
+// same note, or without a note the same category and amount
+function groupKey(tx: Transaction): string {
+  const note = noteKey(tx.note);
+  if (note) return `note:${note}|${tx.currency_code}`;
+  return `amount:${tx.category_id ?? ''}:${paid(tx)}|${tx.currency_code}`;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function cadenceOf(gaps: number[]): SubscriptionCandidate['cadence'] | null {
+  for (const cadence of ['weekly', 'monthly'] as const) {
+    const [min, max] = CADENCE_GAPS[cadence];
+    if (gaps.every((g) => g >= min && g <= max)) return cadence;
+  }
+  return null;
+}
+
+/**
+ * Expenses that repeat on a weekly or monthly rhythm with (nearly) the same amount,
+ * e.g. streaming, phone or gym. Works on whatever is loaded, so longer ranges find more.
+ */
+export function detectSubscriptions(transactions: Transaction[], minOccurrences = 2): SubscriptionCandidate[] {
+  const groups = new Map<string, Transaction[]>();
+  for (const tx of transactions) {
+    if (tx.type !== 'withdrawal' || tx.amount === 0) continue;
+    const key = groupKey(tx);
+    const list = groups.get(key);
+    if (list) list.push(tx);
+    else groups.set(key, [tx]);
+  }
+
+  const out: SubscriptionCandidate[] = [];
+
+  for (const [key, list] of groups) {
+    if (list.length < minOccurrences) continue;
+
+    const mid = median(list.map(paid));
+    const similar = list.filter((tx) => Math.abs(paid(tx) - mid) <= mid * AMOUNT_TOLERANCE);
+
+    // one entry per day; two payments on the same day aren't a rhythm
+    const byDay = new Map<number, Transaction>();
+    for (const tx of similar) {
+      const day = startOfDay(new Date(tx.performed_at || tx.created_at)).getTime();
+      if (!byDay.has(day)) byDay.set(day, tx);
+    }
+    const days = [...byDay.keys()].sort((a, b) => a - b);
+    if (days.length < minOccurrences) continue;
+
+    const gaps = days.slice(1).map((d, i) => differenceInCalendarDays(d, days[i]));
+    const cadence = cadenceOf(gaps);
+    if (!cadence) continue;
+
+    const lastDate = new Date(days[days.length - 1]);
+    const latest = byDay.get(days[days.length - 1])!;
+
+    out.push({
+      key,
+      note: latest.note || undefined,
+      amount: paid(latest),
+      currency_code: latest.currency_code,
+      account_id: latest.account_id,
+      category_id: latest.category_id,
+      subcategory_id: latest.subcategory_id,
+      cadence,
+      count: days.length,
+      last_date: lastDate,
+      next_date: cadence === 'weekly' ? addDays(lastDate, 7) : addMonths(lastDate, 1),
+    });
+  }
+
+  return out.sort((a, b) => b.amount - a.amount);
+}
+
+/** Whether an existing rule already covers the candidate (same account and note, similar amount) */
+export function isTrackedByRule(candidate: SubscriptionCandidate, rules: RecurringRule[]): boolean {
+  return rules.some(
+    (rule) =>
+      rule.account_id === candidate.account_id &&
+      noteKey(rule.note) === noteKey(candidate.note) &&
+      Math.abs(rule.amount - candidate.amount) <= candidate.amount * AMOUNT_TOLERANCE
+  );
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { createZip } from './zip';
+import { toXLSX } from './export';
+
+type ReadEntry = { path: string; crc: number; content: string };
+
+// Reads a stored (uncompressed) archive the way unzip does: end record -> central directory -> local headers
+function readZip(bytes: Uint8Array): ReadEntry[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+  const eocd = bytes.length - 22;
+  expect(view.getUint32(eocd, true)).toBe(0x06054b50);
+
+  const count = view.getUint16(eocd + 10, true);
+  const centralSize = view.getUint32(eocd + 12, true);
+  const centralOffset = view.getUint32(eocd + 16, true);
+  expect(centralOffset + centralSize).toBe(eocd);
+
+  const entries: ReadEntry[] = [];
+  let pos = centralOffset;
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(pos, true)).toBe(0x02014b50);
+    const crc = view.getUint32(pos + 16, true);
+    const size = view.getUint32(pos + 20, true);
+    const nameLength = view.getUint16(pos + 28, true);
+    const localOffset = view.getUint32(pos + 42, true);
+    const path = decoder.decode(bytes.subarray(pos + 46, pos + 46 + nameLength));
+
+    expect(view.getUint32(localOffset, true)).toBe(0x04034b50);
+    expect(view.getUint16(localOffset + 8, true)).toBe(0); // stored
+    expect(view.getUint32(localOffset + 14, true)).toBe(crc);
+    expect(view.getUint32(localOffset + 22, true)).toBe(size);
+    const localNameLength = view.getUint16(localOffset + 26, true);
+    const dataStart = localOffset + 30 + localNameLength + view.getUint16(localOffset + 28, true);
+    expect(decoder.decode(bytes.subarray(localOffset + 30, localOffset + 30 + localNameLength))).toBe(path);
+
+    entries.push({ path, crc, content: decoder.decode(bytes.subarray(dataStart, dataStart + size)) });
+    pos += 46 + nameLength + view.getUint16(pos + 30, true) + view.getUint16(pos + 32, true);
+  }
+  return entries;
+}
+
+describe('createZip', () => {
+  it('writes entries a zip reader can walk back, with the standard CRC-32', () => {
+    const entries = readZip(
+      createZip([
+        { path: 'check.txt', content: '123456789' },
+        { path: 'dir/ünïcode.txt', content: 'привет' },
+        { path: 'bytes.bin', content: new Uint8Array([0, 255, 1]) },
+      ])
+    );
+
+    expect(entries.map((e) => e.path)).toEqual(['check.txt', 'dir/ünïcode.txt', 'bytes.bin']);
+    // the CRC-32 check value for "123456789"
+    expect(entries[0].crc).toBe(0xcbf43926);
+    expect(entries[1].content).toBe('привет');
+  });
+
+  it('produces a valid empty archive', () => {
+    const zip = createZip([]);
+    expect(zip).toHaveLength(22);
+    expect(readZip(zip)).toEqual([]);
+  });
+});
+
+describe('toXLSX', () => {
+  const sheetOf = (bytes: Uint8Array) => readZip(bytes).find((e) => e.path === 'xl/worksheets/sheet1.xml')!.content;
+
+  it('packages the parts a spreadsheet app needs', () => {
+    const paths = readZip(toXLSX({ headers: ['a'], rows: [] })).map((e) => e.path);
+    expect(paths).toEqual(
+      expect.arrayContaining([
+        '[Content_Types].xml',
+        '_rels/.rels',
+        'xl/workbook.xml',
+        'xl/_rels/workbook.xml.rels',
+        'xl/worksheets/sheet1.xml',
+      ])
+    );
+  });
+
+  it('keeps numbers numeric, escapes text and skips empty cells', () => {
+    const sheet = sheetOf(toXLSX({ headers: ['Amount', 'Note'], rows: [[-12.5, 'Tom & <Jerry> "x"'], [3, null]] }));
+
+    expect(sheet).toContain('<c r="A2"><v>-12.5</v></c>');
+    expect(sheet).toContain('<t xml:space="preserve">Tom &amp; &lt;Jerry&gt; &quot;x&quot;</t>');
+    expect(sheet).toContain('<row r="3"><c r="A3"><v>3</v></c></row>');
+  });
+
+  it('names columns past Z like a spreadsheet', () => {
+    const headers = Array.from({ length: 28 }, (_, i) => `h${i}`);
+    const sheet = sheetOf(toXLSX({ headers, rows: [] }));
+    expect(sheet).toContain('r="Z1"');
+    expect(sheet).toContain('r="AA1"');
+    expect(sheet).toContain('r="AB1"');
+  });
+});
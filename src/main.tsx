@@ -3,12 +3,16 @@ import { createRoot } from 'react-dom/client'
 import './i18n/config' // Initialize i18n
 import './index.css'
 import App from './App.tsx'
+import { QueryClientProvider } from '@tanstack/react-query';
 import { AuthProvider } from './contexts/AuthContext';
+import { queryClient } from './api/queryClient';
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <AuthProvider>
-      <App />
-    </AuthProvider>
+    <QueryClientProvider client={queryClient}>
+      <AuthProvider>
+        <App />
+      </AuthProvider>
+    </QueryClientProvider>
   </StrictMode>,
 )
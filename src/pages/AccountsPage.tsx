@@ -1,10 +1,19 @@
-import { useEffect, useState, useMemo, useCallback } from 'react';
+import { useState, useMemo, useCallback, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { format, startOfMonth, endOfMonth } from 'date-fns';
 
 import { apiClient } from '@/api/client';
-import type { User, Account } from '@/core/types';
+import { queryKeys } from '@/api/queryClient';
+import type { Account, Debt, Transaction } from '@/core/types';
 
 import { useTelegramWebApp } from '@/hooks/useTelegramWebApp';
+import { useMe, useAccounts } from '@/hooks/useReferenceData';
+import { useFxRates } from '@/hooks/useFxRate';
+import { accountCurrency, convertToBase } from '@/lib/currency';
+import { setArchived } from '@/lib/archivedAccounts';
+import { convertToTimezone, formatCurrency } from '@/lib/formatters';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Button } from '@/components/ui/button';
 
@@ -12,44 +21,169 @@ import { AnimatedBalance } from '@/components/accounts/AnimatedBalance';
 import { AccountListCard } from '@/components/accounts/AccountListCard';
 import { CreateAccountSheet } from '@/components/accounts/CreateAccountSheet';
 import { AccountActionsSheet } from '@/components/accounts/AccountActionsSheet';
+import { DeleteAccountSheet } from '@/components/accounts/DeleteAccountSheet';
+import { DateRangeSheet, type DateRange } from '@/components/history/DateRangeSheet';
+import { AccountBreakdown } from '@/components/stats/AccountBreakdown';
+
+function toYMD(d: Date) {
+  return format(d, 'yyyy-MM-dd');
+}
+
+// debts are linked to accounts only through their transaction
+const DEBT_LOOKUP_CHUNK = 100;
+
+async function linkedDebts(transactionIds: string[]): Promise<Map<string, Debt[]>> {
+  const byTransaction = new Map<string, Debt[]>();
+  for (let i = 0; i < transactionIds.length; i += DEBT_LOOKUP_CHUNK) {
+    const res = await apiClient.getDebts({
+      transaction_ids: transactionIds.slice(i, i + DEBT_LOOKUP_CHUNK),
+      limit: DEBT_LOOKUP_CHUNK,
+    });
+    for (const debt of res.items) {
+      if (!debt.transaction_id) continue;
+      byTransaction.set(debt.transaction_id, [...(byTransaction.get(debt.transaction_id) ?? []), debt]);
+    }
+  }
+  return byTransaction;
+}
+
+/**
+ * The update endpoint takes no account_id, so each transaction is recreated on `toId` (same
+ * amounts, date and category) before the original is deleted, one at a time so a failure
+ * leaves nothing doubled. Debts linked to it are recreated on the copy with their status.
+ */
+async function moveTransactions(fromId: string, toId: string) {
+  const transactions: Transaction[] = [];
+  for (let offset = 0; ; offset += 200) {
+    const res = await apiClient.getTransactions({ account_ids: [fromId], limit: 200, offset });
+    transactions.push(...res.items);
+    if (res.items.length < 200) break;
+  }
+  const debts = await linkedDebts(transactions.map((tx) => tx.id));
+  const swap = (id?: string) => (id === fromId ? toId : id);
+
+  for (const tx of transactions) {
+    const accountId = swap(tx.account_id)!;
+    const toAccountId = swap(tx.to_account_id);
+
+    // a transfer between the two accounts would become one from the target to itself
+    if (accountId !== toAccountId) {
+      const copy = await apiClient.createTransaction({
+        account_id: accountId,
+        type: tx.type,
+        amount: Math.abs(tx.amount),
+        currency_code: tx.currency_code,
+        to_account_id: toAccountId,
+        to_amount: tx.to_amount !== undefined ? Math.abs(tx.to_amount) : undefined,
+        category_id: tx.category_id,
+        subcategory_id: tx.subcategory_id,
+        note: tx.note,
+        performed_at: tx.performed_at || tx.created_at,
+        original_amount: tx.original_amount,
+        original_currency_code: tx.original_currency_code,
+        fx_rate: tx.fx_rate,
+      });
+
+      for (const debt of debts.get(tx.id) ?? []) {
+        const moved = await apiClient.createDebt(
+          { type: debt.type, name: debt.name, note: debt.note, due_at: debt.due_at, transaction_id: copy.id },
+          debt.amount
+        );
+        if (debt.status === 'paid') await apiClient.payDebt(moved.id, { paid_at: debt.paid_at });
+        else if (debt.status === 'cancelled') await apiClient.cancelDebt(moved.id);
+      }
+    }
+
+    // the original's debts go with it
+    await apiClient.deleteTransaction(tx.id);
+  }
+}
 
 export default function AccountsPage() {
   const { t } = useTranslation();
+  const navigate = useNavigate();
   const { isReady, haptic, WebApp } = useTelegramWebApp();
 
-  const [user, setUser] = useState<User | null>(null);
-  const [accounts, setAccounts] = useState<Account[]>([]);
-  const [loadingInit, setLoadingInit] = useState(true);
+  const queryClient = useQueryClient();
+  const meQuery = useMe();
+  const accountsQuery = useAccounts();
+
+  const user = meQuery.data ?? null;
+  const accounts = useMemo(() => accountsQuery.data ?? [], [accountsQuery.data]);
+  const loadingInit = meQuery.isPending || accountsQuery.isPending;
 
   const [createSheetOpen, setCreateSheetOpen] = useState(false);
   const [selectedAccount, setSelectedAccount] = useState<Account | null>(null);
+  const [accountToDelete, setAccountToDelete] = useState<Account | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+
+  // period for the per-account spending breakdown
+  const [periodRange, setPeriodRange] = useState<DateRange>(() => {
+    const cached = sessionStorage.getItem('accounts_dateRange');
+    if (cached) {
+      try {
+        const parsed = JSON.parse(cached);
+        return { from: new Date(parsed.from), to: new Date(parsed.to), label: parsed.label };
+      } catch {
+        // fall through
+      }
+    }
+    const now = new Date();
+    return { from: startOfMonth(now), to: endOfMonth(now), label: 'thisMonth' };
+  });
+  const [periodSheetOpen, setPeriodSheetOpen] = useState(false);
+
+  useEffect(() => {
+    sessionStorage.setItem(
+      'accounts_dateRange',
+      JSON.stringify({ from: periodRange.from.toISOString(), to: periodRange.to.toISOString(), label: periodRange.label })
+    );
+  }, [periodRange]);
+
+  const periodFrom = toYMD(periodRange.from);
+  const periodTo = toYMD(periodRange.to);
+
+  // nested under transactions so saving or deleting one refreshes it
+  const byAccountQuery = useQuery({
+    queryKey: [...queryKeys.transactions, 'by-account', periodFrom, periodTo],
+    queryFn: () => apiClient.getStatsByAccount({ from: periodFrom, to: periodTo, type: 'withdrawal' }),
+    enabled: !!user,
+  });
+
+  const activeAccounts = useMemo(() => accounts.filter((a) => !a.is_archived), [accounts]);
+  const archivedAccounts = useMemo(() => accounts.filter((a) => a.is_archived), [accounts]);
 
   const currencyCode = user?.currency_code || 'USD';
   const locale = user?.language_code;
 
-  const totalBalance = useMemo(() => {
-    return accounts.reduce((sum, acc) => sum + acc.balance, 0);
-  }, [accounts]);
+  // same rates (manual, backend, bundled) the transaction form quotes, for today
+  const today = convertToTimezone(new Date(), user?.timezone).toISOString().slice(0, 10);
+  const rates = useFxRates(
+    accounts.map((acc) => accountCurrency(acc, currencyCode)),
+    currencyCode,
+    today
+  );
 
-  // Init load (me + accounts)
-  useEffect(() => {
-    if (!isReady) return;
-    (async () => {
-      try {
-        const [me, acc] = await Promise.all([apiClient.getMe(), apiClient.getAccounts()]);
-        setUser(me);
-        setAccounts(acc);
-      } finally {
-        setLoadingInit(false);
-      }
-    })();
-  }, [isReady]);
+  // Net worth in the user's currency; accounts without a known rate are left out and listed
+  const { totalBalance, unconverted } = useMemo(() => {
+    let total = 0;
+    const missing = new Set<string>();
+    for (const acc of accounts) {
+      const currency = accountCurrency(acc, currencyCode);
+      const converted = convertToBase(acc.balance, currency, rates);
+      if (converted === null) missing.add(currency);
+      else total += converted;
+    }
+    return { totalBalance: total, unconverted: Array.from(missing) };
+  }, [accounts, currencyCode, rates]);
 
   const handleCreateAccount = useCallback(
-    async (data: { name: string; balance?: number; is_default?: boolean }) => {
+    async (data: { name: string; balance?: number; currency_code?: string; is_default?: boolean }) => {
       try {
         const newAccount = await apiClient.createAccount(data);
-        setAccounts((prev) => [...prev, newAccount]);
+        queryClient.setQueryData<Account[]>(queryKeys.accounts, (prev) => [...(prev ?? []), newAccount]);
+        // a new default account flips is_default on the others
+        queryClient.invalidateQueries({ queryKey: queryKeys.accounts });
         haptic?.notificationOccurred?.('success');
         WebApp.showAlert?.(t('accounts.createSuccess'));
       } catch (error) {
@@ -59,14 +193,17 @@ export default function AccountsPage() {
         throw error;
       }
     },
-    [haptic, WebApp, t]
+    [haptic, WebApp, t, queryClient]
   );
 
   const handleUpdateAccount = useCallback(
     async (accountId: string, data: { name?: string; is_default?: boolean }) => {
       try {
         const updatedAccount = await apiClient.updateAccount(accountId, data);
-        setAccounts((prev) => prev.map((a) => (a.id === accountId ? updatedAccount : a)));
+        queryClient.setQueryData<Account[]>(queryKeys.accounts, (prev) =>
+          (prev ?? []).map((a) => (a.id === accountId ? { ...updatedAccount, is_archived: a.is_archived } : a))
+        );
+        queryClient.invalidateQueries({ queryKey: queryKeys.accounts });
         haptic?.notificationOccurred?.('success');
         WebApp.showAlert?.(t('accounts.updateSuccess'));
       } catch (error) {
@@ -76,7 +213,93 @@ export default function AccountsPage() {
         throw error;
       }
     },
-    [haptic, WebApp, t]
+    [haptic, WebApp, t, queryClient]
+  );
+
+  // Record the difference to the real (bank) balance as an adjustment transaction
+  const handleReconcile = useCallback(
+    async (accountId: string, actualBalance: number) => {
+      const account = accounts.find((a) => a.id === accountId);
+      if (!account) return;
+
+      const delta = Math.round((actualBalance - account.balance) * 100) / 100;
+      if (delta === 0) return;
+
+      try {
+        await apiClient.createTransaction({
+          account_id: accountId,
+          type: 'adjustment',
+          amount: delta,
+          currency_code: accountCurrency(account, currencyCode),
+          note: t('accounts.balanceAdjustment'),
+          performed_at: new Date().toISOString(),
+        });
+
+        const patch = (a: Account) => (a.id === accountId ? { ...a, balance: actualBalance } : a);
+        queryClient.setQueryData<Account[]>(queryKeys.accounts, (prev) => (prev ?? []).map(patch));
+        setSelectedAccount((prev) => (prev ? patch(prev) : prev));
+
+        queryClient.invalidateQueries({ queryKey: queryKeys.accounts });
+        queryClient.invalidateQueries({ queryKey: queryKeys.transactions });
+        haptic?.notificationOccurred?.('success');
+      } catch (error) {
+        console.error('Failed to record balance adjustment:', error);
+        haptic?.notificationOccurred?.('error');
+        WebApp.showAlert?.(t('errors.saveFailed'));
+        throw error;
+      }
+    },
+    [accounts, currencyCode, haptic, WebApp, t, queryClient]
+  );
+
+  // archive state is device-local: the API has no field for it
+  const handleArchive = useCallback(
+    async (accountId: string, archived: boolean) => {
+      try {
+        await setArchived(accountId, archived);
+        queryClient.setQueryData<Account[]>(queryKeys.accounts, (prev) =>
+          (prev ?? []).map((a) => (a.id === accountId ? { ...a, is_archived: archived } : a))
+        );
+        haptic?.notificationOccurred?.('success');
+      } catch (error) {
+        console.error('Failed to archive account:', error);
+        haptic?.notificationOccurred?.('error');
+        WebApp.showAlert?.(t('errors.updateFailed'));
+        throw error;
+      }
+    },
+    [haptic, WebApp, t, queryClient]
+  );
+
+  // Optionally move every transaction (and the debts linked to them) before deleting
+  const handleDelete = useCallback(
+    async (accountId: string, moveTo?: string) => {
+      try {
+        if (moveTo) {
+          await moveTransactions(accountId, moveTo);
+          // anything added meanwhile (another device, the bot) would be lost with the account
+          const left = await apiClient.getTransactionIds({ account_ids: [accountId] });
+          if (left.length > 0) throw new Error(`${left.length} transactions were added to the account while moving`);
+        }
+        await apiClient.deleteAccount(accountId);
+        await setArchived(accountId, false).catch((error) => console.error('Failed to clear archive state:', error));
+
+        queryClient.setQueryData<Account[]>(queryKeys.accounts, (prev) => (prev ?? []).filter((a) => a.id !== accountId));
+        queryClient.invalidateQueries({ queryKey: queryKeys.accounts });
+        queryClient.invalidateQueries({ queryKey: queryKeys.transactions });
+        queryClient.invalidateQueries({ queryKey: queryKeys.debts });
+        setSelectedAccount(null);
+        haptic?.notificationOccurred?.('success');
+      } catch (error) {
+        console.error('Failed to delete account:', error);
+        haptic?.notificationOccurred?.('error');
+        // some transactions may already have moved
+        queryClient.invalidateQueries({ queryKey: queryKeys.accounts });
+        queryClient.invalidateQueries({ queryKey: queryKeys.transactions });
+        throw error;
+      }
+    },
+    [haptic, queryClient]
   );
 
   const handleAccountTap = useCallback(
@@ -87,6 +310,22 @@ export default function AccountsPage() {
     [haptic]
   );
 
+  const handleOpenAccountHistory = useCallback(
+    (accountId: string) => {
+      haptic?.impactOccurred?.('light');
+      navigate('/history', {
+        state: {
+          from: periodRange.from,
+          to: periodRange.to,
+          type: 'withdrawal',
+          account_ids: [accountId],
+          drillDown: true,
+        },
+      });
+    },
+    [haptic, navigate, periodRange]
+  );
+
   const handleAddAccountTap = useCallback(() => {
     haptic?.selectionChanged?.();
     setCreateSheetOpen(true);
@@ -120,7 +359,7 @@ export default function AccountsPage() {
     );
   }
 
-  const isEmpty = accounts.length === 0;
+  const isEmpty = activeAccounts.length === 0;
 
   return (
     <div className="min-h-screen bg-background text-foreground">
@@ -152,8 +391,14 @@ export default function AccountsPage() {
 
           {/* Optional subtle meta */}
           <p className="mt-2 text-xs text-muted-foreground text-center">
-            {t('accounts.accountsCount', { count: accounts.length })}
+            {t('accounts.accountsCount', { count: activeAccounts.length })}
           </p>
+
+          {unconverted.length > 0 && (
+            <p className="mt-1 text-xs text-muted-foreground text-center">
+              {t('accounts.netWorthMissingRates', { currencies: unconverted.join(', ') })}
+            </p>
+          )}
         </section>
 
         {/* Accounts section */}
@@ -181,16 +426,90 @@ export default function AccountsPage() {
             </div>
           ) : (
             <AccountListCard
-              accounts={accounts}
-              totalBalance={totalBalance}
+              accounts={activeAccounts}
               currencyCode={currencyCode}
               locale={locale}
               onAccountTap={handleAccountTap}
               onAddAccountTap={handleAddAccountTap}
+              periodStats={byAccountQuery.data}
             />
           )}
         </section>
 
+        {/* Spending by account over the chosen period */}
+        {!isEmpty && (
+          <section className="mt-8">
+            <div className="flex items-center justify-between gap-3 mb-3 px-1">
+              <h2 className="text-xs font-semibold text-muted-foreground uppercase tracking-wide">
+                {t('accounts.spendingByAccount')}
+              </h2>
+              <button
+                type="button"
+                onClick={() => setPeriodSheetOpen(true)}
+                className="px-3 h-8 rounded-xl bg-card/50 hover:bg-card/70 border border-border/50 text-xs font-semibold transition-colors"
+              >
+                {periodFrom} → {periodTo}
+              </button>
+            </div>
+
+            {byAccountQuery.isError ? (
+              <div className="rounded-3xl border border-border/40 bg-card/30 p-6 text-center space-y-3">
+                <p className="text-sm text-muted-foreground">{t('errors.failedToLoad')}</p>
+                <button
+                  type="button"
+                  onClick={() => byAccountQuery.refetch()}
+                  className="px-4 h-10 rounded-xl bg-primary/10 text-primary text-sm font-semibold"
+                >
+                  {t('common.retry')}
+                </button>
+              </div>
+            ) : (
+              <AccountBreakdown
+                title={t('stats.expenseByAccount')}
+                listTitle={t('stats.accounts')}
+                loading={byAccountQuery.isPending}
+                data={byAccountQuery.data ?? null}
+                txType="withdrawal"
+                currencyCode={currencyCode}
+                locale={locale}
+                onOpenAccount={handleOpenAccountHistory}
+              />
+            )}
+          </section>
+        )}
+
+        {/* Archived accounts: out of pickers, still in net worth, history and stats */}
+        {archivedAccounts.length > 0 && (
+          <section className="mt-6">
+            <button
+              type="button"
+              onClick={() => setShowArchived((v) => !v)}
+              className="w-full flex items-center justify-between mb-3 px-1 text-xs font-semibold text-muted-foreground uppercase tracking-wide"
+            >
+              <span>{t('accounts.archived', { count: archivedAccounts.length })}</span>
+              <span>{showArchived ? '−' : '+'}</span>
+            </button>
+
+            {showArchived && (
+              <div className="rounded-3xl border border-border/40 bg-card/30 divide-y divide-border/40">
+                {archivedAccounts.map((acc) => (
+                  <button
+                    key={acc.id}
+                    type="button"
+                    onClick={() => handleAccountTap(acc)}
+                    className="w-full flex items-center justify-between gap-3 px-4 py-3 text-left opacity-70 hover:opacity-100 transition-opacity"
+                  >
+                    <span className="text-sm font-medium truncate">{acc.name}</span>
+                    <span className="text-sm tabular-nums text-muted-foreground">
+                      {formatCurrency(acc.balance, accountCurrency(acc, currencyCode), locale)}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </section>
+        )}
+
         <div className="h-safe-bottom" />
       </main>
 
@@ -198,6 +517,7 @@ export default function AccountsPage() {
       <CreateAccountSheet
         open={createSheetOpen}
         onOpenChange={setCreateSheetOpen}
+        defaultCurrency={currencyCode}
         onCreate={handleCreateAccount}
       />
 
@@ -205,8 +525,30 @@ export default function AccountsPage() {
         account={selectedAccount}
         currencyCode={currencyCode}
         locale={locale}
+        timezone={user?.timezone}
         onClose={() => setSelectedAccount(null)}
         onSave={handleUpdateAccount}
+        onReconcile={handleReconcile}
+        onArchive={handleArchive}
+        onDelete={(account) => {
+          setSelectedAccount(null);
+          setAccountToDelete(account);
+        }}
+      />
+
+      <DateRangeSheet
+        open={periodSheetOpen}
+        onOpenChange={setPeriodSheetOpen}
+        value={periodRange}
+        onApply={setPeriodRange}
+      />
+
+      <DeleteAccountSheet
+        account={accountToDelete}
+        accounts={accounts}
+        currencyCode={currencyCode}
+        onClose={() => setAccountToDelete(null)}
+        onConfirm={handleDelete}
       />
     </div>
   );
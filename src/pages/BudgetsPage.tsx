@@ -0,0 +1,326 @@
+import { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useQueryClient } from '@tanstack/react-query';
+import { ChevronLeft, ChevronRight, Plus } from 'lucide-react';
+import { addMonths } from 'date-fns';
+
+import { apiClient } from '@/api/client';
+import { queryKeys } from '@/api/queryClient';
+import type { Budget, CreateBudgetRequest } from '@/core/types';
+import { cn } from '@/lib/utils';
+import { formatCurrency } from '@/lib/formatters';
+import { budgetTarget, monthKey, parseMonth, type BudgetProgress, type BudgetStatus } from '@/lib/budgets';
+import { useTelegramWebApp } from '@/hooks/useTelegramWebApp';
+import { useMe, useCategories, useSubcategories } from '@/hooks/useReferenceData';
+import { useBudgets, useBudgetProgress } from '@/hooks/useBudgets';
+import { Skeleton } from '@/components/ui/skeleton';
+import { BudgetSheet } from '@/components/budgets/BudgetSheet';
+
+type SheetState = { seq: number; budget?: Budget };
+
+const BAR_COLORS: Record<BudgetStatus, string> = {
+  ok: 'bg-primary/70',
+  warning: 'bg-amber-500',
+  over: 'bg-red-500',
+};
+
+function BudgetsPage() {
+  const { t } = useTranslation();
+  const { isReady, haptic, WebApp } = useTelegramWebApp();
+  const queryClient = useQueryClient();
+
+  const meQuery = useMe();
+  const categoriesQuery = useCategories();
+  const subcategoriesQuery = useSubcategories();
+  const budgetsQuery = useBudgets();
+
+  const user = meQuery.data ?? null;
+  const categories = useMemo(() => categoriesQuery.data ?? [], [categoriesQuery.data]);
+  const subcategories = useMemo(() => subcategoriesQuery.data ?? [], [subcategoriesQuery.data]);
+  const budgets = useMemo(() => budgetsQuery.data ?? [], [budgetsQuery.data]);
+  const loadingInit = [meQuery, categoriesQuery, subcategoriesQuery, budgetsQuery].some((q) => q.isPending);
+
+  const currencyCode = user?.currency_code || 'USD';
+  const locale = user?.language_code;
+
+  const currentMonth = monthKey(new Date());
+  const [month, setMonth] = useState(currentMonth);
+  const isCurrentMonth = month === currentMonth;
+
+  const progressQuery = useBudgetProgress(budgets, month);
+
+  const [sheet, setSheet] = useState<SheetState>({ seq: 0 });
+  const [sheetOpen, setSheetOpen] = useState(false);
+  const openSheet = (budget?: Budget) => {
+    setSheet((prev) => ({ budget, seq: prev.seq + 1 }));
+    setSheetOpen(true);
+  };
+
+  const taken = useMemo(() => new Set(budgets.map(budgetTarget)), [budgets]);
+
+  const totals = useMemo(
+    () =>
+      progressQuery.progress.reduce(
+        (acc, p) => ({ limit: acc.limit + p.limit, spent: acc.spent + p.spent, projected: acc.projected + p.projected }),
+        { limit: 0, spent: 0, projected: 0 }
+      ),
+    [progressQuery.progress]
+  );
+
+  const shiftMonth = (delta: number) => {
+    haptic?.selectionChanged?.();
+    setMonth((m) => monthKey(addMonths(parseMonth(m), delta)));
+  };
+
+  const handleSave = async (data: CreateBudgetRequest) => {
+    const editing = sheet.budget;
+    try {
+      if (editing) {
+        const updated = await apiClient.updateBudget(editing.id, data);
+        queryClient.setQueryData<Budget[]>(queryKeys.budgets, (prev) =>
+          (prev ?? []).map((b) => (b.id === updated.id ? updated : b))
+        );
+      } else {
+        const created = await apiClient.createBudget(data);
+        queryClient.setQueryData<Budget[]>(queryKeys.budgets, (prev) => [...(prev ?? []), created]);
+      }
+      haptic?.notificationOccurred?.('success');
+    } catch (error) {
+      console.error('Failed to save budget:', error);
+      haptic?.notificationOccurred?.('error');
+      WebApp.showAlert?.(t('errors.saveFailed'));
+      throw error;
+    }
+  };
+
+  const handleDelete = async (budget: Budget) => {
+    try {
+      await apiClient.deleteBudget(budget.id);
+      queryClient.setQueryData<Budget[]>(queryKeys.budgets, (prev) => (prev ?? []).filter((b) => b.id !== budget.id));
+      haptic?.notificationOccurred?.('success');
+    } catch (error) {
+      console.error('Failed to delete budget:', error);
+      haptic?.notificationOccurred?.('error');
+      WebApp.showAlert?.(t('errors.deleteFailed'));
+      throw error;
+    }
+  };
+
+  const budgetTitle = (budget: Budget) => {
+    const category = categories.find((c) => c.id === budget.category_id);
+    const sub = budget.subcategory_id ? subcategories.find((s) => s.id === budget.subcategory_id) : undefined;
+    return {
+      emoji: sub?.emoji || category?.emoji || '📌',
+      label: sub ? `${category?.name ?? ''} › ${sub.name}` : category?.name || t('stats.category'),
+    };
+  };
+
+  const money = (amount: number) => formatCurrency(amount, currencyCode, locale);
+
+  const statusLine = (p: BudgetProgress) => {
+    if (p.remaining < 0) return t('budgets.overBy', { amount: money(-p.remaining) });
+    if (isCurrentMonth && p.projected > p.limit) return t('budgets.projectedOver', { amount: money(p.projected) });
+    return t('budgets.left', { amount: money(p.remaining) });
+  };
+
+  if (!isReady || loadingInit) {
+    return (
+      <div className="min-h-screen bg-background">
+        <div className="h-safe-top" />
+        <div className="px-4 pt-3 pb-8 max-w-md mx-auto space-y-3">
+          <Skeleton className="h-8 w-40 mx-auto mb-4" />
+          <Skeleton className="h-28 w-full rounded-3xl" />
+          {[1, 2, 3].map((i) => (
+            <Skeleton key={i} className="h-20 w-full rounded-2xl" />
+          ))}
+        </div>
+        <div className="h-safe-bottom" />
+      </div>
+    );
+  }
+
+  const monthLabel = parseMonth(month).toLocaleDateString(locale || 'en-US', { month: 'long', year: 'numeric' });
+  const totalRatio = totals.limit > 0 ? totals.spent / totals.limit : 0;
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <div className="px-4 pb-8 max-w-md mx-auto">
+        {/* Header */}
+        <header className="sticky top-0 z-10 bg-background/85 backdrop-blur-md -mx-4 px-4 border-b border-border/40">
+          <div className="h-safe-top" />
+          <div className="pt-2 pb-4 relative">
+            <h1 className="text-xl font-bold text-center">{t('budgets.title')}</h1>
+            <button
+              type="button"
+              onClick={() => openSheet()}
+              className="absolute right-0 top-1/2 -translate-y-1/2 p-2 rounded-full hover:bg-muted transition-colors"
+              aria-label={t('budgets.createTitle')}
+            >
+              <Plus className="w-5 h-5 text-muted-foreground" />
+            </button>
+          </div>
+        </header>
+
+        {/* Month switcher */}
+        <div className="mt-4 flex items-center justify-between">
+          <button
+            type="button"
+            onClick={() => shiftMonth(-1)}
+            className="p-2 rounded-full hover:bg-muted transition-colors"
+            aria-label={t('budgets.previousMonth')}
+          >
+            <ChevronLeft className="w-5 h-5" />
+          </button>
+          <span className="text-sm font-semibold capitalize">{monthLabel}</span>
+          <button
+            type="button"
+            onClick={() => shiftMonth(1)}
+            disabled={isCurrentMonth}
+            className="p-2 rounded-full hover:bg-muted transition-colors disabled:opacity-30"
+            aria-label={t('budgets.nextMonth')}
+          >
+            <ChevronRight className="w-5 h-5" />
+          </button>
+        </div>
+
+        {budgetsQuery.isError || progressQuery.isError ? (
+          <div className="mt-4 rounded-3xl border border-border/40 bg-card/30 p-6 text-center space-y-3">
+            <p className="text-sm text-muted-foreground">{t('errors.failedToLoad')}</p>
+            <button
+              type="button"
+              onClick={() => (budgetsQuery.isError ? budgetsQuery.refetch() : progressQuery.refetch())}
+              className="px-4 h-10 rounded-xl bg-primary/10 text-primary text-sm font-semibold"
+            >
+              {t('common.retry')}
+            </button>
+          </div>
+        ) : budgets.length === 0 ? (
+          <div className="mt-4 rounded-3xl border border-border/40 bg-card/30 p-6 text-center space-y-2">
+            <div className="text-4xl">🐷</div>
+            <p className="font-semibold">{t('budgets.emptyTitle')}</p>
+            <p className="text-sm text-muted-foreground">{t('budgets.emptySubtitle')}</p>
+          </div>
+        ) : progressQuery.isPending ? (
+          <div className="mt-4 space-y-3">
+            <Skeleton className="h-28 w-full rounded-3xl" />
+            {budgets.map((b) => (
+              <Skeleton key={b.id} className="h-20 w-full rounded-2xl" />
+            ))}
+          </div>
+        ) : progressQuery.progress.length === 0 ? (
+          <p className="mt-6 text-center text-sm text-muted-foreground">{t('budgets.noneThisMonth')}</p>
+        ) : (
+          <>
+            {/* Summary */}
+            <div className="mt-4 rounded-3xl border border-border/40 bg-card/30 p-4">
+              <div className="flex items-baseline justify-between gap-3">
+                <span className="text-xs text-muted-foreground uppercase tracking-wide">{t('budgets.spent')}</span>
+                <span className="text-xs text-muted-foreground">
+                  {t('budgets.ofLimit', { amount: money(totals.limit) })}
+                </span>
+              </div>
+              <div className="mt-1 text-2xl font-bold tabular-nums">{money(totals.spent)}</div>
+              <div className="mt-3 h-2 rounded-full bg-muted/30 overflow-hidden">
+                <div
+                  className={cn('h-full', totalRatio > 1 ? 'bg-red-500' : 'bg-primary/70')}
+                  style={{ width: `${Math.min(100, totalRatio * 100)}%` }}
+                />
+              </div>
+              {isCurrentMonth && (
+                <p
+                  className={cn(
+                    'mt-2 text-xs',
+                    totals.projected > totals.limit ? 'text-amber-600' : 'text-muted-foreground'
+                  )}
+                >
+                  {t('budgets.projected', { amount: money(totals.projected) })}
+                </p>
+              )}
+            </div>
+
+            {/* Budgets */}
+            <div className="mt-4 space-y-2">
+              {progressQuery.progress.map((p) => {
+                const { emoji, label } = budgetTitle(p.budget);
+                const ratio = p.limit > 0 ? p.spent / p.limit : p.spent > 0 ? 1 : 0;
+                // where the run rate lands by month end, drawn as a marker on the bar
+                const projectedAt = p.limit > 0 ? Math.min(100, (p.projected / p.limit) * 100) : 100;
+
+                return (
+                  <button
+                    key={p.budget.id}
+                    type="button"
+                    onClick={() => openSheet(p.budget)}
+                    className="w-full text-left rounded-2xl border border-border/40 bg-card/40 px-4 py-3 active:scale-[0.995] transition-transform"
+                  >
+                    <div className="flex items-center gap-3">
+                      <span className="text-xl">{emoji}</span>
+                      <div className="flex-1 min-w-0">
+                        <div className="text-sm font-medium truncate">{label}</div>
+                        <div
+                          className={cn(
+                            'text-xs',
+                            p.status === 'over'
+                              ? 'text-red-500'
+                              : p.status === 'warning'
+                                ? 'text-amber-600'
+                                : 'text-muted-foreground'
+                          )}
+                        >
+                          {statusLine(p)}
+                        </div>
+                      </div>
+                      <div className="text-right shrink-0">
+                        <div className="text-sm font-semibold tabular-nums">{money(p.spent)}</div>
+                        <div className="text-xs text-muted-foreground tabular-nums">/ {money(p.limit)}</div>
+                      </div>
+                    </div>
+
+                    <div className="relative mt-2 h-2 rounded-full bg-muted/30 overflow-hidden">
+                      <div
+                        className={cn('h-full', BAR_COLORS[p.status])}
+                        style={{ width: `${Math.min(100, ratio * 100)}%` }}
+                      />
+                      {isCurrentMonth && p.projected > p.spent && (
+                        <div
+                          className="absolute top-0 h-full w-0.5 bg-foreground/40"
+                          style={{ left: `calc(${projectedAt}% - 1px)` }}
+                        />
+                      )}
+                    </div>
+
+                    {p.carry !== 0 && (
+                      <div className="mt-1.5 text-[11px] text-muted-foreground">
+                        {p.carry > 0
+                          ? t('budgets.carriedIn', { amount: money(p.carry) })
+                          : t('budgets.carriedOver', { amount: money(-p.carry) })}
+                      </div>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+          </>
+        )}
+      </div>
+
+      <BudgetSheet
+        key={sheet.seq}
+        open={sheetOpen}
+        onOpenChange={setSheetOpen}
+        budget={sheet.budget}
+        taken={taken}
+        categories={categories}
+        subcategories={subcategories}
+        currencyCode={currencyCode}
+        defaultMonth={month}
+        onSave={handleSave}
+        onDelete={handleDelete}
+      />
+
+      <div className="h-safe-bottom" />
+    </div>
+  );
+}
+
+export default BudgetsPage;
@@ -0,0 +1,358 @@
+import { useCallback, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Reorder } from 'framer-motion';
+import { ChevronDown, Plus, Trash2 } from 'lucide-react';
+
+import { apiClient } from '@/api/client';
+import { queryKeys } from '@/api/queryClient';
+import type { Category, Subcategory, UpdateTransactionRequest } from '@/core/types';
+
+import { useTelegramWebApp } from '@/hooks/useTelegramWebApp';
+import { useCategories, useSubcategories } from '@/hooks/useReferenceData';
+import { Skeleton } from '@/components/ui/skeleton';
+import { cn } from '@/lib/utils';
+import { saveOrder } from '@/lib/categoryOrder';
+
+import { ReorderRow } from '@/components/categories/ReorderRow';
+import { CategoryEditSheet } from '@/components/categories/CategoryEditSheet';
+import { DeleteCategorySheet, type DeleteTarget } from '@/components/categories/DeleteCategorySheet';
+
+type Positioned = { id: number; position?: number };
+
+// the API can create and delete categories but not update them, so there's no rename
+type EditState = { mode: 'createCategory' } | { mode: 'createSubcategory'; category: Category };
+
+function byPosition<T extends Positioned>(items: T[]): T[] {
+  return items.slice().sort((a, b) => (a.position ?? 999) - (b.position ?? 999));
+}
+
+export default function CategoriesSettingsPage() {
+  const { t } = useTranslation();
+  const { isReady, haptic, WebApp } = useTelegramWebApp();
+
+  const queryClient = useQueryClient();
+  const categoriesQuery = useCategories();
+  const subcategoriesQuery = useSubcategories();
+
+  const categories = useMemo(() => byPosition(categoriesQuery.data ?? []), [categoriesQuery.data]);
+  const subcategories = useMemo(() => byPosition(subcategoriesQuery.data ?? []), [subcategoriesQuery.data]);
+  const loadingInit = categoriesQuery.isPending || subcategoriesQuery.isPending;
+
+  // local order while a drag is in progress; the cache is patched on drop
+  const [dragCategories, setDragCategories] = useState<Category[] | null>(null);
+  const [dragSubcategories, setDragSubcategories] = useState<Subcategory[] | null>(null);
+
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [editState, setEditState] = useState<EditState | null>(null);
+  const [editSeq, setEditSeq] = useState(0);
+  const [deleteTarget, setDeleteTarget] = useState<DeleteTarget | null>(null);
+
+  const openEdit = (state: EditState) => {
+    haptic?.selectionChanged?.();
+    setEditState(state);
+    setEditSeq((n) => n + 1);
+  };
+
+  const shownCategories = dragCategories ?? categories;
+  const subcategoriesOf = useCallback(
+    (categoryId: number) =>
+      dragSubcategories?.[0]?.category_id === categoryId
+        ? dragSubcategories
+        : subcategories.filter((s) => s.category_id === categoryId),
+    [dragSubcategories, subcategories]
+  );
+
+  const refreshReferenceData = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.categories });
+    queryClient.invalidateQueries({ queryKey: queryKeys.subcategories });
+  }, [queryClient]);
+
+  /** Write the dropped order into the cache and the cloud order store (see categoryOrder) */
+  const persistOrder = useCallback(
+    <T extends Positioned>(ordered: T[], kind: 'categories' | 'subcategories') => {
+      if (ordered.every((item, index) => item.position === index)) return;
+
+      const positions = new Map(ordered.map((item, index) => [item.id, index]));
+      saveOrder(kind, positions).catch((error) => {
+        console.error('Failed to save category order:', error);
+        haptic?.notificationOccurred?.('error');
+      });
+      queryClient.setQueryData<T[]>(queryKeys[kind], (prev) =>
+        (prev ?? []).map((item) => (positions.has(item.id) ? { ...item, position: positions.get(item.id) } : item))
+      );
+      haptic?.selectionChanged?.();
+    },
+    [queryClient, haptic]
+  );
+
+  const handleCategoryDrop = () => {
+    if (!dragCategories) return;
+    const ordered = dragCategories;
+    setDragCategories(null);
+    persistOrder(ordered, 'categories');
+  };
+
+  const handleSubcategoryDrop = () => {
+    if (!dragSubcategories) return;
+    const ordered = dragSubcategories;
+    setDragSubcategories(null);
+    persistOrder(ordered, 'subcategories');
+  };
+
+  const handleSave = useCallback(
+    async (data: { name: string; emoji: string }) => {
+      if (!editState) return;
+      try {
+        switch (editState.mode) {
+          case 'createCategory':
+            await apiClient.createCategory(data);
+            break;
+          case 'createSubcategory':
+            await apiClient.createSubcategory({ ...data, category_id: editState.category.id });
+            setExpandedId(editState.category.id);
+            break;
+        }
+        refreshReferenceData();
+        haptic?.notificationOccurred?.('success');
+      } catch (error) {
+        console.error('Failed to save category:', error);
+        haptic?.notificationOccurred?.('error');
+        WebApp.showAlert?.(t('errors.saveFailed'));
+        throw error;
+      }
+    },
+    [editState, refreshReferenceData, haptic, WebApp, t]
+  );
+
+  // How many transactions the delete would orphan
+  const countQuery = useQuery({
+    queryKey: [...queryKeys.transactions, 'count', deleteTarget?.kind, deleteTarget?.id],
+    queryFn: async () => {
+      const filter =
+        deleteTarget!.kind === 'category'
+          ? { category_ids: [deleteTarget!.id] }
+          : { subcategory_ids: [deleteTarget!.id] };
+      const res = await apiClient.getTransactions({ ...filter, limit: 1 });
+      return res.pagination.total;
+    },
+    enabled: !!deleteTarget,
+  });
+
+  const reassignOptions = useMemo(() => {
+    if (!deleteTarget) return [];
+    if (deleteTarget.kind === 'category') {
+      return categories.filter((c) => c.id !== deleteTarget.id).map((c) => ({ id: c.id, label: c.name, emoji: c.emoji }));
+    }
+    // subcategories move within their own category
+    const parentId = subcategories.find((s) => s.id === deleteTarget.id)?.category_id;
+    return subcategories
+      .filter((s) => s.category_id === parentId && s.id !== deleteTarget.id)
+      .map((s) => ({ id: s.id, label: s.name, emoji: s.emoji }));
+  }, [deleteTarget, categories, subcategories]);
+
+  const handleDelete = useCallback(
+    async (target: DeleteTarget, reassignTo?: number) => {
+      try {
+        if (reassignTo !== undefined) {
+          // every id is collected before the first update shifts the pages
+          const moves: [string, UpdateTransactionRequest][] = [];
+
+          if (target.kind === 'category') {
+            // a subcategory can't follow into another category: use the same-named one there, or drop it
+            const norm = (name: string) => name.trim().toLowerCase();
+            const targetSubs = new Map(
+              subcategories.filter((s) => s.category_id === reassignTo).map((s) => [norm(s.name), s.id])
+            );
+            const moved = new Set<string>();
+            for (const sub of subcategories.filter((s) => s.category_id === target.id)) {
+              const subcategoryId = targetSubs.get(norm(sub.name)) ?? null;
+              for (const id of await apiClient.getTransactionIds({ subcategory_ids: [sub.id] })) {
+                moved.add(id);
+                moves.push([id, { category_id: reassignTo, subcategory_id: subcategoryId }]);
+              }
+            }
+            for (const id of await apiClient.getTransactionIds({ category_ids: [target.id] })) {
+              if (!moved.has(id)) moves.push([id, { category_id: reassignTo, subcategory_id: null }]);
+            }
+          } else {
+            const parentId = subcategories.find((s) => s.id === reassignTo)?.category_id;
+            for (const id of await apiClient.getTransactionIds({ subcategory_ids: [target.id] })) {
+              moves.push([id, { category_id: parentId, subcategory_id: reassignTo }]);
+            }
+          }
+
+          for (const [id, data] of moves) await apiClient.updateTransaction(id, data);
+        }
+
+        if (target.kind === 'category') await apiClient.deleteCategory(String(target.id));
+        else await apiClient.deleteSubcategory(String(target.id));
+
+        refreshReferenceData();
+        queryClient.invalidateQueries({ queryKey: queryKeys.transactions });
+        haptic?.notificationOccurred?.('success');
+      } catch (error) {
+        console.error('Failed to delete category:', error);
+        haptic?.notificationOccurred?.('error');
+        WebApp.showAlert?.(t('errors.deleteFailed'));
+        // a partial reassignment is already visible, so reload either way
+        refreshReferenceData();
+        throw error;
+      }
+    },
+    [subcategories, refreshReferenceData, queryClient, haptic, WebApp, t]
+  );
+
+  const editTitle = useMemo(() => {
+    switch (editState?.mode) {
+      case 'createCategory':
+        return t('categories.newCategory');
+      case 'createSubcategory':
+        return t('categories.newSubcategory', { name: editState.category.name });
+      default:
+        return '';
+    }
+  }, [editState, t]);
+
+  if (!isReady || loadingInit) {
+    return (
+      <div className="min-h-screen bg-background">
+        <div className="h-safe-top" />
+        <div className="px-4 pt-3 pb-8 max-w-md mx-auto space-y-3">
+          <Skeleton className="h-8 w-40 mx-auto mb-4" />
+          {[1, 2, 3, 4, 5, 6].map((i) => (
+            <Skeleton key={i} className="h-14 w-full rounded-2xl" />
+          ))}
+        </div>
+        <div className="h-safe-bottom" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <div className="px-4 pb-8 max-w-md mx-auto">
+        {/* Header */}
+        <header className="sticky top-0 z-10 bg-background/85 backdrop-blur-md -mx-4 px-4 border-b border-border/40">
+          <div className="h-safe-top" />
+          <div className="pt-2 pb-4 relative">
+            <h1 className="text-xl font-bold text-center">{t('categories.title')}</h1>
+            <button
+              type="button"
+              onClick={() => openEdit({ mode: 'createCategory' })}
+              className="absolute right-0 top-1/2 -translate-y-1/2 p-2 rounded-full hover:bg-muted transition-colors"
+              aria-label={t('categories.newCategory')}
+            >
+              <Plus className="w-5 h-5 text-muted-foreground" />
+            </button>
+          </div>
+        </header>
+
+        <p className="text-xs text-muted-foreground text-center mt-3 mb-4">{t('categories.hint')}</p>
+
+        {shownCategories.length === 0 ? (
+          <div className="rounded-3xl border border-border/40 bg-card/30 p-6 text-center">
+            <p className="text-sm text-muted-foreground">{t('categories.empty')}</p>
+          </div>
+        ) : (
+          <Reorder.Group axis="y" values={shownCategories} onReorder={setDragCategories} className="space-y-2">
+            {shownCategories.map((category) => {
+              const subs = subcategoriesOf(category.id);
+              const expanded = expandedId === category.id;
+
+              return (
+                <ReorderRow
+                  key={category.id}
+                  value={category}
+                  onDragEnd={handleCategoryDrop}
+                  className="rounded-2xl bg-card/40 border border-border/40 px-3 py-2"
+                >
+                  <div className="flex items-center gap-2">
+                    <div className="flex-1 min-w-0 flex items-center gap-3 py-1.5">
+                      <span className="text-xl">{category.emoji || '🏷️'}</span>
+                      <span className="font-medium truncate">{category.name}</span>
+                    </div>
+
+                    <button
+                      type="button"
+                      onClick={() => setExpandedId(expanded ? null : category.id)}
+                      className="px-2 py-1 rounded-full text-xs text-muted-foreground hover:bg-muted flex items-center gap-1"
+                    >
+                      {subs.length}
+                      <ChevronDown className={cn('w-3.5 h-3.5 transition-transform', expanded && 'rotate-180')} />
+                    </button>
+
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setDeleteTarget({ kind: 'category', id: category.id, name: category.name, emoji: category.emoji })
+                      }
+                      className="p-2 rounded-full text-muted-foreground hover:text-red-500 hover:bg-red-500/10"
+                      aria-label={t('categories.delete.confirm')}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+
+                  {expanded && (
+                    <div className="mt-2 ml-2 pl-3 border-l border-border/50 space-y-1">
+                      <Reorder.Group axis="y" values={subs} onReorder={setDragSubcategories} className="space-y-1">
+                        {subs.map((sub) => (
+                          <ReorderRow key={sub.id} value={sub} onDragEnd={handleSubcategoryDrop}>
+                            <div className="flex items-center gap-2">
+                              <div className="flex-1 min-w-0 flex items-center gap-2 py-1.5 text-sm">
+                                <span>{sub.emoji || '•'}</span>
+                                <span className="truncate">{sub.name}</span>
+                              </div>
+                              <button
+                                type="button"
+                                onClick={() =>
+                                  setDeleteTarget({ kind: 'subcategory', id: sub.id, name: sub.name, emoji: sub.emoji })
+                                }
+                                className="p-2 rounded-full text-muted-foreground hover:text-red-500 hover:bg-red-500/10"
+                                aria-label={t('categories.delete.confirm')}
+                              >
+                                <Trash2 className="w-3.5 h-3.5" />
+                              </button>
+                            </div>
+                          </ReorderRow>
+                        ))}
+                      </Reorder.Group>
+
+                      <button
+                        type="button"
+                        onClick={() => openEdit({ mode: 'createSubcategory', category })}
+                        className="w-full flex items-center gap-2 py-2 text-sm text-primary"
+                      >
+                        <Plus className="w-4 h-4" />
+                        {t('categories.addSubcategory')}
+                      </button>
+                    </div>
+                  )}
+                </ReorderRow>
+              );
+            })}
+          </Reorder.Group>
+        )}
+      </div>
+
+      <CategoryEditSheet
+        key={editSeq}
+        open={!!editState}
+        onOpenChange={(v) => !v && setEditState(null)}
+        title={editTitle}
+        onSave={handleSave}
+      />
+
+      <DeleteCategorySheet
+        target={deleteTarget}
+        count={countQuery.data}
+        reassignOptions={reassignOptions}
+        onClose={() => setDeleteTarget(null)}
+        onConfirm={handleDelete}
+      />
+
+      <div className="h-safe-bottom" />
+    </div>
+  );
+}
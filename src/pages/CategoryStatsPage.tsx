@@ -4,9 +4,10 @@ import { useTranslation } from 'react-i18next';
 import { format } from 'date-fns';
 
 import { apiClient } from '@/api/client';
-import type { User, SubcategoryStatsView } from '@/core/types';
+import type { SubcategoryStatsView } from '@/core/types';
 import { useTelegramWebApp } from '@/hooks/useTelegramWebApp';
 import { useAuth } from '@/contexts/AuthContext';
+import { useMe } from '@/hooks/useReferenceData';
 import { Skeleton } from '@/components/ui/skeleton';
 
 import { SubcategoryRankList } from '@/components/stats/SubcategoryRankList';
@@ -43,8 +44,9 @@ export default function CategoryStatsPage() {
   const accountIds = navState.accountIds || [];
   const categoryType = navState.categoryType || 'withdrawal';
 
-  const [user, setUser] = useState<User | null>(null);
-  const [loadingInit, setLoadingInit] = useState(true);
+  const meQuery = useMe();
+  const user = meQuery.data ?? null;
+  const loadingInit = authLoading || meQuery.isPending;
 
   const [subData, setSubData] = useState<SubcategoryStatsView | null>(null);
   const [loadingSub, setLoadingSub] = useState(false);
@@ -53,18 +55,6 @@ export default function CategoryStatsPage() {
   const currencyCode = user?.currency_code || 'USD';
   const locale = user?.language_code;
 
-  useEffect(() => {
-    if (!isReady || authLoading) return;
-    (async () => {
-      try {
-        const me = await apiClient.getMe();
-        setUser(me);
-      } finally {
-        setLoadingInit(false);
-      }
-    })();
-  }, [isReady, authLoading]);
-
   const fetchSubcategories = useCallback(async () => {
     setLoadingSub(true);
     setErrorSub(null);
@@ -89,22 +79,6 @@ export default function CategoryStatsPage() {
     fetchSubcategories();
   }, [isReady, loadingInit, catId, fetchSubcategories]);
 
-  // TWA BackButton
-  useEffect(() => {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const tg = (window as any)?.Telegram?.WebApp;
-    if (!tg) return;
-
-    tg.BackButton.show();
-    const handler = () => navigate(-1);
-    tg.BackButton.onClick(handler);
-
-    return () => {
-      tg.BackButton.hide();
-      tg.BackButton.offClick(handler);
-    };
-  }, [navigate]);
-
   // Donut chart data
   const donutItems: ExploreItem[] = useMemo(() => {
     const items = subData?.items ?? [];
@@ -210,6 +184,7 @@ export default function CategoryStatsPage() {
                 // Navigate to History page with filters
                 navigate('/history', {
                   state: {
+                    drillDown: true,
                     from: dateRange.from.toISOString(),
                     to: dateRange.to.toISOString(),
                     type: categoryType === 'deposit' ? 'deposit' : 'withdrawal',
@@ -229,6 +204,7 @@ export default function CategoryStatsPage() {
             onClick={() => {
               navigate('/history', {
                 state: {
+                  drillDown: true,
                   from: dateRange.from.toISOString(),
                   to: dateRange.to.toISOString(),
                   type: categoryType === 'deposit' ? 'deposit' : 'withdrawal',
@@ -1,33 +1,40 @@
 import { useEffect, useState, useMemo } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useLocation } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { motion } from 'framer-motion';
+import { Plus } from 'lucide-react';
 
 import { apiClient } from '@/api/client';
-import type { User, Debt } from '@/core/types';
+import { outboxService, isNetworkError, isUncertainDelivery } from '@/services/outbox.service';
+import type { CreateDebtRequest, Debt } from '@/core/types';
 import { Skeleton } from '@/components/ui/skeleton';
 import { useTelegramWebApp } from '@/hooks/useTelegramWebApp';
 import { useAuth } from '@/contexts/AuthContext';
+import { useMe } from '@/hooks/useReferenceData';
 import { sortDebtsByUrgency } from '@/lib/debtHelpers';
 
 import { DebtTabs } from '@/components/debts/DebtTabs';
 import { DebtCard } from '@/components/debts/DebtCard';
 import { DebtDetailModal } from '@/components/debts/DebtDetailModal';
+import { CreateDebtSheet } from '@/components/debts/CreateDebtSheet';
 
 function DebtsPage() {
   const { t } = useTranslation();
-  const navigate = useNavigate();
-  const { isReady } = useTelegramWebApp();
+  const location = useLocation();
+  const { isReady, WebApp } = useTelegramWebApp();
   const { loading: authLoading } = useAuth();
 
-  const [user, setUser] = useState<User | null>(null);
+  const { data: user } = useMe();
   const [debts, setDebts] = useState<Debt[]>([]);
   const [loadingBootstrap, setLoadingBootstrap] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   // UI state
-  const [activeTab, setActiveTab] = useState<'borrow' | 'lend'>('borrow');
+  const [activeTab, setActiveTab] = useState<'borrow' | 'lend'>(() =>
+    sessionStorage.getItem('debts_tab') === 'lend' ? 'lend' : 'borrow'
+  );
   const [selectedDebt, setSelectedDebt] = useState<Debt | null>(null);
+  const [createOpen, setCreateOpen] = useState(false);
 
   useEffect(() => {
     if (!isReady || authLoading) return;
@@ -35,12 +42,7 @@ function DebtsPage() {
     const fetchBootstrap = async () => {
       try {
         setLoadingBootstrap(true);
-        const [userData, debtsData] = await Promise.all([
-          apiClient.getMe(),
-          apiClient.getDebts({ statuses: ['open'] }), // Only fetch open debts
-        ]);
-
-        setUser(userData);
+        const debtsData = await apiClient.getDebts({ statuses: ['open'] }); // Only fetch open debts
         setDebts(debtsData.items || []);
       } catch (err) {
         console.error('Failed to fetch debts bootstrap:', err);
@@ -53,12 +55,32 @@ function DebtsPage() {
     fetchBootstrap();
   }, [isReady, authLoading]);
 
-  // TWA BackButton - not used on debts page as it's a standalone page
-  // But keeping navigate imported in case we add navigation later
   useEffect(() => {
-    // Could add back button logic here if needed
-    console.log('Debts page mounted', navigate);
-  }, [navigate]);
+    sessionStorage.setItem('debts_tab', activeTab);
+  }, [activeTab]);
+
+  // Deep link (debt_<id>): open the debt on its tab, whatever its status
+  const linkedDebtId = (location.state as { debtId?: string } | null)?.debtId;
+  useEffect(() => {
+    if (!isReady || authLoading || !linkedDebtId) return;
+
+    let cancelled = false;
+    apiClient
+      .getDebt(linkedDebtId)
+      .then((debt) => {
+        if (cancelled) return;
+        setActiveTab(debt.type);
+        setSelectedDebt(debt);
+      })
+      .catch((err) => {
+        console.error('Failed to open linked debt:', err);
+        if (!cancelled) WebApp.showAlert?.(t('errors.failedToLoad'));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isReady, authLoading, linkedDebtId, WebApp, t]);
 
   // Filter debts by active tab
   const filteredDebts = useMemo(() => {
@@ -86,6 +108,31 @@ function DebtsPage() {
     }
   };
 
+  const handleCreateDebt = async (data: CreateDebtRequest, amount?: number) => {
+    try {
+      const created = await apiClient.createDebt(data, amount);
+      setDebts((prev) => [created, ...prev]);
+      setActiveTab(created.type);
+      WebApp.HapticFeedback.notificationOccurred('success');
+      refetchDebts();
+    } catch (err) {
+      if (isNetworkError(err)) {
+        await outboxService.enqueue({ kind: 'createDebt', payload: data, amount });
+        WebApp.HapticFeedback.notificationOccurred('warning');
+        WebApp.showAlert(t('transaction.savedOffline'));
+        return;
+      }
+      if (isUncertainDelivery(err)) {
+        WebApp.HapticFeedback.notificationOccurred('warning');
+        WebApp.showAlert(t('errors.maybeSaved'));
+        return;
+      }
+      // the sheet stays open and shows the error
+      WebApp.HapticFeedback.notificationOccurred('error');
+      throw err;
+    }
+  };
+
   if (loadingBootstrap) {
     return (
       <div className="min-h-screen bg-background">
@@ -129,8 +176,19 @@ function DebtsPage() {
         {/* Header */}
         <header className="sticky top-0 z-10 bg-background/85 backdrop-blur-md -mx-4 px-4 border-b border-border/40">
           <div className="h-safe-top" />
-          <div className="pt-3 pb-3">
+          <div className="pt-3 pb-3 relative">
             <h1 className="text-xl font-bold text-foreground text-center">{t('debts.title')}</h1>
+            <button
+              type="button"
+              onClick={() => {
+                WebApp.HapticFeedback.selectionChanged();
+                setCreateOpen(true);
+              }}
+              className="absolute right-0 top-1/2 -translate-y-1/2 p-2 rounded-full hover:bg-muted transition-colors"
+              aria-label={t('debts.create.title')}
+            >
+              <Plus className="w-5 h-5 text-muted-foreground" />
+            </button>
           </div>
         </header>
 
@@ -179,6 +237,16 @@ function DebtsPage() {
         timezone={user?.timezone}
       />
 
+      <CreateDebtSheet
+        open={createOpen}
+        onOpenChange={setCreateOpen}
+        defaultType={activeTab}
+        currencyCode={user?.currency_code || 'USD'}
+        locale={user?.language_code}
+        timezone={user?.timezone}
+        onCreate={handleCreateDebt}
+      />
+
       <div className="h-safe-bottom" />
     </motion.div>
   );
@@ -2,9 +2,13 @@ import { useEffect, useMemo, useRef, useState } from 'react';
 import { useLocation, useNavigate } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { motion } from 'framer-motion';
+import { Download, Plus, Repeat } from 'lucide-react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 
 import { apiClient } from '@/api/client';
-import type { Transaction, User, Category, Subcategory, Account } from '@/core/types';
+import { queryKeys } from '@/api/queryClient';
+import { outboxService, isNetworkError, isUncertainDelivery } from '@/services/outbox.service';
+import type { Transaction, Category, Subcategory, Account, CreateTransactionRequest } from '@/core/types';
 import { Card, CardContent } from '@/components/ui/card';
 import { Skeleton } from '@/components/ui/skeleton';
 import { cn } from '@/lib/utils';
@@ -15,6 +19,7 @@ import {
 } from '@/lib/formatters';
 import { useTelegramWebApp } from '@/hooks/useTelegramWebApp';
 import { useAuth } from '@/contexts/AuthContext';
+import { useMe, useAccounts, useCategories, useSubcategories } from '@/hooks/useReferenceData';
 
 import { SummaryCard } from '@/components/history/SummaryCard';
 import { FilterChips, type FilterType } from '@/components/history/FilterChips';
@@ -23,6 +28,14 @@ import { FiltersSheet, type HistoryFilters } from '@/components/history/FiltersS
 import { DateRangeSheet, type DateRange } from '@/components/history/DateRangeSheet';
 import { useInfiniteTransactions } from '@/hooks/useInfiniteTransactions';
 import { useIntersection } from '@/hooks/useIntersection';
+import { useOutbox } from '@/hooks/useOutbox';
+import { PendingOutboxList } from '@/components/history/PendingOutboxList';
+import { ExportSheet } from '@/components/history/ExportSheet';
+import { QuickAddBar } from '@/components/history/QuickAddBar';
+import { SubscriptionsCard } from '@/components/history/SubscriptionsCard';
+import type { RuleDraft } from '@/components/recurring/RecurringRuleSheet';
+import { detectSubscriptions, isTrackedByRule, type SubscriptionCandidate } from '@/lib/subscriptions';
+import { toDateKey } from '@/lib/recurrence';
 import { startOfMonth, endOfMonth, addMonths, subMonths, addWeeks, subWeeks, differenceInCalendarDays, addDays, endOfDay, isBefore } from 'date-fns';
 
 function hapticSelect() {
@@ -40,8 +53,9 @@ function HistoryPage() {
   const { t } = useTranslation();
   const location = useLocation();
   const navigate = useNavigate();
-  const { isReady } = useTelegramWebApp();
+  const { isReady, WebApp } = useTelegramWebApp();
   const { loading: authLoading } = useAuth();
+  const queryClient = useQueryClient();
 
   // Navigation state from CategoryStatsPage
   const navState = location.state as {
@@ -51,15 +65,34 @@ function HistoryPage() {
     category_ids?: number[];
     subcategory_ids?: number[];
     account_ids?: string[];
+    drillDown?: boolean;
+    // set by TransactionPage after a standalone create
+    created?: { id: string; performed_at: string };
+    // tx_<id> deep link
+    transactionId?: string;
   } | null;
 
-  const [user, setUser] = useState<User | null>(null);
-  const [categories, setCategories] = useState<Category[]>([]);
-  const [subcategories, setSubcategories] = useState<Subcategory[]>([]);
-  const [accounts, setAccounts] = useState<Account[]>([]);
+  const meQuery = useMe();
+  const categoriesQuery = useCategories();
+  const subcategoriesQuery = useSubcategories();
+  const accountsQuery = useAccounts();
 
-  const [loadingBootstrap, setLoadingBootstrap] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const user = meQuery.data ?? null;
+  const categories = useMemo(() => categoriesQuery.data ?? [], [categoriesQuery.data]);
+  const subcategories = useMemo(() => subcategoriesQuery.data ?? [], [subcategoriesQuery.data]);
+  const accounts = useMemo(() => accountsQuery.data ?? [], [accountsQuery.data]);
+
+  const bootstrapQueries = [meQuery, categoriesQuery, subcategoriesQuery, accountsQuery];
+  const loadingBootstrap = !isReady || authLoading || bootstrapQueries.some((q) => q.isPending);
+  const bootstrapError = bootstrapQueries.find((q) => q.error)?.error;
+  const error = bootstrapError
+    ? bootstrapError instanceof Error
+      ? bootstrapError.message
+      : 'Failed to load history'
+    : null;
+
+  // Drill-downs bring their own filters; otherwise the tab keeps what was set last time
+  const isDrillDown = !!navState && !navState.created && !navState.transactionId;
 
   // UI state
   const [dateRange, setDateRange] = useState<DateRange>(() => {
@@ -71,6 +104,24 @@ function HistoryPage() {
         label: 'custom' as const
       };
     }
+    // open the month that holds a just-created transaction
+    if (navState?.created) {
+      const created = new Date(navState.created.performed_at);
+      return { from: startOfMonth(created), to: endOfMonth(created), label: 'thisMonth' };
+    }
+    const cached = sessionStorage.getItem('history_dateRange');
+    if (cached) {
+      try {
+        const parsed = JSON.parse(cached);
+        return {
+          from: new Date(parsed.from),
+          to: new Date(parsed.to),
+          label: parsed.label,
+        };
+      } catch {
+        // fall through
+      }
+    }
     const now = new Date();
     return {
       from: startOfMonth(now),
@@ -83,67 +134,76 @@ function HistoryPage() {
     // Initialize from navigation state
     if (navState?.type === 'deposit') return 'income';
     if (navState?.type === 'withdrawal') return 'expense';
-    return 'all';
+    if (isDrillDown) return 'all';
+    const cached = sessionStorage.getItem('history_filter');
+    return cached === 'income' || cached === 'expense' || cached === 'transfer' ? cached : 'all';
   });
   const [selectedTransaction, setSelectedTransaction] = useState<Transaction | null>(null);
 
-  const [filtersOpen, setFiltersOpen] = useState(false);
-  const [filters, setFilters] = useState<HistoryFilters>(() => ({
-    search: '',
-    account_ids: navState?.account_ids || [],
-    category_ids: navState?.category_ids || [],
-    subcategory_ids: navState?.subcategory_ids || [],
-    min_amount: undefined,
-    max_amount: undefined,
-  }));
-
+  // Deep link: the transaction may sit outside the loaded range, so fetch it directly
+  const linkedTransactionId = navState?.transactionId;
   useEffect(() => {
-    if (!isReady || authLoading) return;
+    if (!isReady || authLoading || !linkedTransactionId) return;
+
+    let cancelled = false;
+    apiClient
+      .getTransaction(linkedTransactionId)
+      .then((tx) => {
+        if (!cancelled) setSelectedTransaction(tx);
+      })
+      .catch((err) => {
+        console.error('Failed to open linked transaction:', err);
+        if (!cancelled) WebApp.showAlert?.(t('errors.failedToLoad'));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isReady, authLoading, linkedTransactionId, WebApp, t]);
 
-    const fetchBootstrap = async () => {
+  const [filtersOpen, setFiltersOpen] = useState(false);
+  const [exportOpen, setExportOpen] = useState(false);
+  const [filters, setFilters] = useState<HistoryFilters>(() => {
+    const cached = isDrillDown ? null : sessionStorage.getItem('history_filters');
+    if (cached) {
       try {
-        setLoadingBootstrap(true);
-        const [userData, categoriesData, subcategoriesData, accountsData] = await Promise.all([
-          apiClient.getMe(),
-          apiClient.getCategories(),
-          apiClient.getSubcategories(),
-          apiClient.getAccounts(),
-        ]);
-
-        setUser(userData);
-        setCategories(categoriesData);
-        setSubcategories(subcategoriesData);
-        setAccounts(accountsData);
-      } catch (err) {
-        console.error('Failed to fetch history bootstrap:', err);
-        setError(err instanceof Error ? err.message : 'Failed to load history');
-      } finally {
-        setLoadingBootstrap(false);
+        return JSON.parse(cached);
+      } catch {
+        // fall through
       }
+    }
+    return {
+      search: '',
+      account_ids: navState?.account_ids || [],
+      category_ids: navState?.category_ids || [],
+      subcategory_ids: navState?.subcategory_ids || [],
+      min_amount: undefined,
+      max_amount: undefined,
     };
+  });
 
-    fetchBootstrap();
-  }, [isReady, authLoading]);
+  // Persist filter state to sessionStorage, but not a drill-down's borrowed filters
+  useEffect(() => {
+    if (isDrillDown) return;
+    sessionStorage.setItem(
+      'history_dateRange',
+      JSON.stringify({
+        from: dateRange.from.toISOString(),
+        to: dateRange.to.toISOString(),
+        label: dateRange.label,
+      })
+    );
+  }, [isDrillDown, dateRange]);
 
-  // TWA BackButton - show back button if navigated from another page
   useEffect(() => {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const tg = (window as any)?.Telegram?.WebApp;
-    if (!tg) return;
-
-    // If we have navigation state (came from CategoryPage), show back button
-    if (navState) {
-      tg.BackButton.show();
-      const handler = () => navigate(-1);
-      tg.BackButton.onClick(handler);
-
-      return () => {
-        tg.BackButton.hide();
-        tg.BackButton.offClick(handler);
-      };
-    }
-    // Otherwise, no back button (HistoryPage is the main entry point)
-  }, [navState, navigate]);
+    if (isDrillDown) return;
+    sessionStorage.setItem('history_filter', selectedFilter);
+  }, [isDrillDown, selectedFilter]);
+
+  useEffect(() => {
+    if (isDrillDown) return;
+    sessionStorage.setItem('history_filters', JSON.stringify(filters));
+  }, [isDrillDown, filters]);
 
   const categoryById = useMemo(() => {
     const m = new Map<number, Category>();
@@ -168,6 +228,7 @@ function HistoryPage() {
   const txType = useMemo(() => {
     if (selectedFilter === 'income') return 'deposit' as const;
     if (selectedFilter === 'expense') return 'withdrawal' as const;
+    if (selectedFilter === 'transfer') return 'transfer' as const;
     return undefined;
   }, [selectedFilter]);
 
@@ -197,8 +258,92 @@ function HistoryPage() {
     hasNext,
     fetchNext,
     refetch,
+    patchItem,
+    removeItem,
   } = useInfiniteTransactions(query);
 
+  // Subscription detector over the loaded rows, minus what recurring rules already cover
+  const recurringQuery = useQuery({
+    queryKey: queryKeys.recurring,
+    queryFn: () => apiClient.getRecurringRules(),
+    enabled: !!user,
+  });
+  const subscriptionCandidates = useMemo(() => {
+    const rules = recurringQuery.data ?? [];
+    return detectSubscriptions(transactions).filter((c) => !isTrackedByRule(c, rules));
+  }, [transactions, recurringQuery.data]);
+
+  const handleTrackSubscription = (c: SubscriptionCandidate) => {
+    hapticSelect();
+    const draft: RuleDraft = {
+      type: 'withdrawal',
+      amount: c.amount,
+      account_id: c.account_id,
+      category_id: c.category_id,
+      subcategory_id: c.subcategory_id,
+      note: c.note,
+      cadence: c.cadence,
+      start_date: toDateKey(c.next_date),
+    };
+    navigate('/recurring', { state: { draft } });
+  };
+
+  // Scroll to and briefly highlight a transaction created from TransactionPage
+  const [highlightId, setHighlightId] = useState<string | null>(navState?.created?.id ?? null);
+  useEffect(() => {
+    if (!highlightId || !transactions.some((tx) => tx.id === highlightId)) return;
+    const el = document.querySelector(`[data-tx-id="${highlightId}"]`);
+    el?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    const timer = setTimeout(() => setHighlightId(null), 2500);
+    return () => clearTimeout(timer);
+  }, [highlightId, transactions]);
+
+  // Quick-add saves straight through the API and highlights the new row
+  const handleQuickAdd = async (data: CreateTransactionRequest) => {
+    try {
+      const created = await apiClient.createTransaction(data);
+      WebApp.HapticFeedback.notificationOccurred('success');
+      queryClient.invalidateQueries({ queryKey: queryKeys.accounts });
+      setHighlightId(created.id);
+      refetch();
+    } catch (err) {
+      if (isNetworkError(err)) {
+        await outboxService.enqueue({ kind: 'createTransaction', payload: data });
+        WebApp.HapticFeedback.notificationOccurred('warning');
+        WebApp.showAlert(t('transaction.savedOffline'));
+        return;
+      }
+      if (isUncertainDelivery(err)) {
+        WebApp.HapticFeedback.notificationOccurred('warning');
+        WebApp.showAlert(t('errors.maybeSaved'));
+        throw err;
+      }
+      WebApp.HapticFeedback.notificationOccurred('error');
+      WebApp.showAlert(t('errors.saveFailed'));
+      throw err;
+    }
+  };
+
+  // Offline outbox: pending creates are listed on top, pending edits are badged
+  const { items: outboxItems, retry: retryOutbox, discard: discardOutbox } = useOutbox();
+
+  const pendingUpdateIds = useMemo(() => {
+    const ids = new Set<string>();
+    outboxItems.forEach((it) => {
+      if (it.kind === 'updateTransaction') ids.add(it.transaction_id);
+    });
+    return ids;
+  }, [outboxItems]);
+
+  // Reload once queued items have been replayed
+  const outboxCountRef = useRef(outboxItems.length);
+  useEffect(() => {
+    const prev = outboxCountRef.current;
+    outboxCountRef.current = outboxItems.length;
+    if (outboxItems.length < prev) refetch();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [outboxItems.length]);
+
   // Infinite scroll sentinel
   const sentinelRef = useRef<HTMLDivElement>(null);
   useIntersection(
@@ -336,11 +481,45 @@ function HistoryPage() {
         {/* Header */}
         <header className="sticky top-0 z-10 bg-background/85 backdrop-blur-md -mx-4 px-4 border-b border-border/40">
           <div className="h-safe-top" />
-          <div className="pt-2 pb-3">
+          <div className="pt-2 pb-3 relative">
+            <button
+              type="button"
+              onClick={() => {
+                hapticSelect();
+                navigate('/recurring');
+              }}
+              className="absolute left-0 top-1/2 -translate-y-1/2 p-2 rounded-full hover:bg-muted transition-colors"
+              aria-label={t('recurring.title')}
+            >
+              <Repeat className="w-5 h-5 text-muted-foreground" />
+            </button>
             <h1 className="text-xl font-bold text-foreground text-center">{t('common.history')}</h1>
+            <button
+              type="button"
+              onClick={() => {
+                hapticSelect();
+                setExportOpen(true);
+              }}
+              className="absolute right-0 top-1/2 -translate-y-1/2 p-2 rounded-full hover:bg-muted transition-colors"
+              aria-label={t('export.title')}
+            >
+              <Download className="w-5 h-5 text-muted-foreground" />
+            </button>
           </div>
         </header>
 
+        {/* Quick add */}
+        <div className="mt-4">
+          <QuickAddBar
+            accounts={accounts}
+            categories={categories}
+            subcategories={subcategories}
+            currencyCode={user?.currency_code || 'USD'}
+            locale={user?.language_code}
+            onSave={handleQuickAdd}
+          />
+        </div>
+
         {/* Summary */}
         <div className="mt-4">
           <SummaryCard
@@ -357,6 +536,18 @@ function HistoryPage() {
           />
         </div>
 
+        {/* Repeating payments that aren't tracked as recurring rules yet */}
+        {subscriptionCandidates.length > 0 && (
+          <div className="mt-4">
+            <SubscriptionsCard
+              candidates={subscriptionCandidates}
+              categories={categories}
+              locale={user?.language_code}
+              onTrack={handleTrackSubscription}
+            />
+          </div>
+        )}
+
         {/* Filters */}
         <div className="mt-4">
           <FilterChips
@@ -416,6 +607,23 @@ function HistoryPage() {
           </div>
         )}
 
+        {/* Queued offline */}
+        {outboxItems.length > 0 && (
+          <div className="mt-4">
+            <PendingOutboxList
+              items={outboxItems}
+              categoryById={categoryById}
+              subcategoryById={subcategoryById}
+              accountById={accountById}
+              currencyCode={user?.currency_code || 'USD'}
+              locale={user?.language_code}
+              timezone={user?.timezone}
+              onRetry={retryOutbox}
+              onDiscard={discardOutbox}
+            />
+          </div>
+        )}
+
         {/* List */}
         <div className="mt-4">
           {isInitialLoading ? (
@@ -432,7 +640,9 @@ function HistoryPage() {
                   ? t('common.noTransactions')
                   : selectedFilter === 'income'
                     ? t('history.noIncome')
-                    : t('history.noExpense')}
+                    : selectedFilter === 'transfer'
+                      ? t('history.noTransfers')
+                      : t('history.noExpense')}
               </p>
             </div>
           ) : (
@@ -451,16 +661,25 @@ function HistoryPage() {
                         const account = transaction.account_id ? accountById.get(transaction.account_id) : undefined;
                         const isPositive = transaction.amount >= 0;
                         const isIncome = transaction.type === 'deposit';
+                        const isTransfer = transaction.type === 'transfer';
+                        const isAdjustment = transaction.type === 'adjustment';
+                        const toAccount = isTransfer && transaction.to_account_id
+                          ? accountById.get(transaction.to_account_id)
+                          : undefined;
 
                         return (
                           <motion.div
                             key={transaction.id}
+                            data-tx-id={transaction.id}
                             initial={{ opacity: 0, y: 8 }}
                             animate={{ opacity: 1, y: 0 }}
                             transition={{ duration: 0.14 }}
                           >
                             <Card
-                              className="border border-border/40 bg-card/40 hover:bg-card/70 transition-colors cursor-pointer active:scale-[0.997]"
+                              className={cn(
+                                'border border-border/40 bg-card/40 hover:bg-card/70 transition-colors cursor-pointer active:scale-[0.997]',
+                                highlightId === transaction.id && 'ring-2 ring-primary/60'
+                              )}
                               onClick={() => {
                                 hapticSelect();
                                 setSelectedTransaction(transaction);
@@ -472,11 +691,21 @@ function HistoryPage() {
                                     <div
                                       className={cn(
                                         'w-10 h-10 rounded-2xl flex items-center justify-center flex-shrink-0 border border-border/30',
-                                        isPositive ? 'bg-green-500/10' : 'bg-red-500/10'
+                                        isTransfer
+                                          ? 'bg-blue-500/10'
+                                          : isAdjustment
+                                            ? 'bg-amber-500/10'
+                                            : isPositive
+                                              ? 'bg-green-500/10'
+                                              : 'bg-red-500/10'
                                       )}
                                     >
                                       <div className="text-xl">
-                                        {subcategory?.emoji || category?.emoji || '📌'}
+                                        {isTransfer
+                                          ? '🔁'
+                                          : isAdjustment
+                                            ? '⚖️'
+                                            : subcategory?.emoji || category?.emoji || '📌'}
                                       </div>
                                     </div>
 
@@ -485,11 +714,21 @@ function HistoryPage() {
                                         {transaction.note ||
                                           subcategory?.name ||
                                           category?.name ||
-                                          (isIncome ? t('common.income') : t('common.expense'))}
+                                          (isTransfer
+                                            ? t('common.transfer')
+                                            : isAdjustment
+                                              ? t('common.adjustment')
+                                              : isIncome
+                                              ? t('common.income')
+                                              : t('common.expense'))}
                                       </p>
 
                                       <div className="flex items-center gap-2 text-xs text-muted-foreground mt-0.5">
-                                        <span className="truncate">{account?.name || t('common.accounts')}</span>
+                                        <span className="truncate">
+                                          {isTransfer
+                                            ? `${account?.name || t('common.unknown')} → ${toAccount?.name || t('common.unknown')}`
+                                            : account?.name || t('common.accounts')}
+                                        </span>
                                         <span>•</span>
                                         <span className="truncate">
                                           {formatDateTime(
@@ -499,6 +738,12 @@ function HistoryPage() {
                                             { hour: '2-digit', minute: '2-digit' }
                                           )}
                                         </span>
+                                        {pendingUpdateIds.has(transaction.id) && (
+                                          <>
+                                            <span>•</span>
+                                            <span className="text-amber-500 shrink-0">{t('history.pending.pending')}</span>
+                                          </>
+                                        )}
                                       </div>
                                     </div>
                                   </div>
@@ -506,10 +751,10 @@ function HistoryPage() {
                                   <p
                                     className={cn(
                                       'font-bold tabular-nums text-base ml-3 flex-shrink-0',
-                                      isPositive ? 'text-green-500' : 'text-red-500'
+                                      isTransfer ? 'text-foreground' : isPositive ? 'text-green-500' : 'text-red-500'
                                     )}
                                   >
-                                    {isPositive ? '+' : '-'}
+                                    {isTransfer ? '' : isPositive ? '+' : '-'}
                                     {formatCurrency(
                                       Math.abs(transaction.amount),
                                       transaction.currency_code,
@@ -552,6 +797,23 @@ function HistoryPage() {
 
       </div>
 
+      {/* New transaction */}
+      <button
+        type="button"
+        onClick={() => {
+          hapticSelect();
+          navigate('/transaction');
+        }}
+        className={cn(
+          'fixed right-4 bottom-[calc(env(safe-area-inset-bottom)+5.5rem)] z-20',
+          'w-14 h-14 rounded-full bg-primary text-primary-foreground shadow-lg shadow-primary/30',
+          'flex items-center justify-center active:scale-95 transition-transform'
+        )}
+        aria-label={t('transaction.new')}
+      >
+        <Plus className="w-6 h-6" />
+      </button>
+
       {/* Filters sheet */}
       <FiltersSheet
         open={filtersOpen}
@@ -575,6 +837,23 @@ function HistoryPage() {
         }}
       />
 
+      <ExportSheet
+        open={exportOpen}
+        onOpenChange={setExportOpen}
+        query={query}
+        dateRange={dateRange}
+        lookups={{ categoryById, subcategoryById, accountById, timezone: user?.timezone }}
+        onDone={({ count, delivered }) => {
+          if (delivered === 'cancelled') return;
+          WebApp.HapticFeedback.notificationOccurred('success');
+          if (delivered === 'browser') WebApp.showAlert(t('export.done', { count }));
+        }}
+        onError={() => {
+          WebApp.HapticFeedback.notificationOccurred('error');
+          WebApp.showAlert(t('export.failed'));
+        }}
+      />
+
       {/* Transaction modal */}
       <TransactionDetailModal
         transaction={selectedTransaction}
@@ -584,15 +863,11 @@ function HistoryPage() {
         locale={user?.language_code}
         timezone={user?.timezone}
         onClose={() => setSelectedTransaction(null)}
-        onTransactionUpdated={async () => {
-          // Refetch transactions from the beginning to show updated data
-          setSelectedTransaction(null);
-          refetch();
-        }}
-        onTransactionDeleted={async () => {
-          // Refetch transactions from the beginning after deletion
-          setSelectedTransaction(null);
-          refetch();
+        onOptimisticUpdate={(id, patch) => patchItem(id, patch)}
+        onOptimisticDelete={(id) => removeItem(id)}
+        onTransactionUpdated={(updated) => {
+          // sync the row with what the backend stored, keeping scroll position
+          patchItem(updated.id, updated);
         }}
       />
 
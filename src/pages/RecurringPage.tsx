@@ -0,0 +1,406 @@
+import { useCallback, useMemo, useState } from 'react';
+import { useLocation } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Check, Plus, SkipForward } from 'lucide-react';
+import { addDays, isToday, isTomorrow, setHours, startOfDay } from 'date-fns';
+
+import { apiClient } from '@/api/client';
+import { queryKeys } from '@/api/queryClient';
+import type { CreateRecurringRuleRequest, RecurringRule } from '@/core/types';
+import { cn } from '@/lib/utils';
+import { accountCurrency } from '@/lib/currency';
+import { formatCurrency } from '@/lib/formatters';
+import { formatOccurrence, nextOccurrence, pendingOccurrences, toDateKey } from '@/lib/recurrence';
+import { useTelegramWebApp } from '@/hooks/useTelegramWebApp';
+import { useAuth } from '@/contexts/AuthContext';
+import { useMe, useAccounts, useCategories, useSubcategories } from '@/hooks/useReferenceData';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Switch } from '@/components/ui/switch';
+import { RecurringRuleSheet, type RuleDraft } from '@/components/recurring/RecurringRuleSheet';
+
+// upcoming preview window; anything overdue is always listed
+const UPCOMING_DAYS = 30;
+
+type SheetState = { seq: number; rule?: RecurringRule; draft?: RuleDraft };
+
+type Occurrence = { rule: RecurringRule; date: Date; first: boolean };
+
+function RecurringPage() {
+  const { t } = useTranslation();
+  const location = useLocation();
+  const { isReady, haptic, WebApp } = useTelegramWebApp();
+  const { user: authUser } = useAuth();
+  const queryClient = useQueryClient();
+
+  const meQuery = useMe();
+  const accountsQuery = useAccounts();
+  const categoriesQuery = useCategories();
+  const subcategoriesQuery = useSubcategories();
+  const rulesQuery = useQuery({
+    queryKey: queryKeys.recurring,
+    queryFn: () => apiClient.getRecurringRules(),
+    enabled: !!authUser,
+  });
+
+  const user = meQuery.data ?? null;
+  const accounts = useMemo(() => accountsQuery.data ?? [], [accountsQuery.data]);
+  const categories = useMemo(() => categoriesQuery.data ?? [], [categoriesQuery.data]);
+  const subcategories = useMemo(() => subcategoriesQuery.data ?? [], [subcategoriesQuery.data]);
+  const rules = useMemo(() => rulesQuery.data ?? [], [rulesQuery.data]);
+  const loadingInit = [meQuery, accountsQuery, categoriesQuery, subcategoriesQuery, rulesQuery].some((q) => q.isPending);
+
+  const currencyCode = user?.currency_code || 'USD';
+  const locale = user?.language_code;
+
+  // HistoryPage's subscription detector opens this page with a prefilled rule
+  const [sheet, setSheet] = useState<SheetState>(() => ({
+    seq: 0,
+    draft: (location.state as { draft?: RuleDraft } | null)?.draft,
+  }));
+  const [sheetOpen, setSheetOpen] = useState(!!sheet.draft);
+  const openSheet = (next: Omit<SheetState, 'seq'>) => {
+    setSheet((prev) => ({ ...next, seq: prev.seq + 1 }));
+    setSheetOpen(true);
+  };
+
+  const [busyRuleId, setBusyRuleId] = useState<string | null>(null);
+
+  const accountById = useMemo(() => new Map(accounts.map((a) => [a.id, a])), [accounts]);
+  const categoryById = useMemo(() => new Map(categories.map((c) => [c.id, c])), [categories]);
+
+  const upcoming = useMemo(() => {
+    const until = addDays(startOfDay(new Date()), UPCOMING_DAYS);
+    const list: Occurrence[] = [];
+    for (const rule of rules) {
+      pendingOccurrences(rule, until, 10).forEach((date, i) => list.push({ rule, date, first: i === 0 }));
+    }
+    return list.sort((a, b) => a.date.getTime() - b.date.getTime());
+  }, [rules]);
+
+  const patchRule = useCallback(
+    (updated: RecurringRule) =>
+      queryClient.setQueryData<RecurringRule[]>(queryKeys.recurring, (prev) =>
+        (prev ?? []).map((r) => (r.id === updated.id ? updated : r))
+      ),
+    [queryClient]
+  );
+
+  const fail = useCallback(
+    (message: string, error: unknown) => {
+      console.error(message, error);
+      haptic?.notificationOccurred?.('error');
+      WebApp.showAlert?.(t('errors.saveFailed'));
+    },
+    [haptic, WebApp, t]
+  );
+
+  const handleSave = async (data: CreateRecurringRuleRequest) => {
+    const editing = sheet.rule;
+    try {
+      if (editing) {
+        patchRule(await apiClient.updateRecurringRule(editing.id, data));
+      } else {
+        const created = await apiClient.createRecurringRule(data);
+        queryClient.setQueryData<RecurringRule[]>(queryKeys.recurring, (prev) => [...(prev ?? []), created]);
+      }
+      haptic?.notificationOccurred?.('success');
+    } catch (error) {
+      fail('Failed to save recurring rule:', error);
+      throw error;
+    }
+  };
+
+  const handleDelete = async (rule: RecurringRule) => {
+    try {
+      await apiClient.deleteRecurringRule(rule.id);
+      queryClient.setQueryData<RecurringRule[]>(queryKeys.recurring, (prev) =>
+        (prev ?? []).filter((r) => r.id !== rule.id)
+      );
+      haptic?.notificationOccurred?.('success');
+    } catch (error) {
+      console.error('Failed to delete recurring rule:', error);
+      haptic?.notificationOccurred?.('error');
+      WebApp.showAlert?.(t('errors.deleteFailed'));
+      throw error;
+    }
+  };
+
+  const handleToggleActive = async (rule: RecurringRule, active: boolean) => {
+    setBusyRuleId(rule.id);
+    try {
+      patchRule(await apiClient.updateRecurringRule(rule.id, { is_active: active }));
+    } catch (error) {
+      fail('Failed to pause recurring rule:', error);
+    } finally {
+      setBusyRuleId(null);
+    }
+  };
+
+  /** Create the transaction for one occurrence and move the rule past it */
+  const handleConfirm = async (rule: RecurringRule, date: Date) => {
+    if (busyRuleId) return;
+
+    setBusyRuleId(rule.id);
+    try {
+      // advance first: a retry after a failed advance would otherwise book the payment twice
+      const advanced = await apiClient.updateRecurringRule(rule.id, { last_occurrence: toDateKey(date) });
+      try {
+        const account = accountById.get(rule.account_id);
+        await apiClient.createTransaction({
+          account_id: rule.account_id,
+          type: rule.type,
+          amount: rule.amount,
+          currency_code: accountCurrency(account, currencyCode),
+          category_id: rule.category_id,
+          subcategory_id: rule.subcategory_id,
+          note: rule.note,
+          performed_at: (isToday(date) ? new Date() : setHours(date, 12)).toISOString(),
+        });
+      } catch (error) {
+        await apiClient.updateRecurringRule(rule.id, { last_occurrence: rule.last_occurrence });
+        throw error;
+      }
+      patchRule(advanced);
+
+      queryClient.invalidateQueries({ queryKey: queryKeys.accounts });
+      queryClient.invalidateQueries({ queryKey: queryKeys.transactions });
+      queryClient.invalidateQueries({ queryKey: queryKeys.budgets });
+      haptic?.notificationOccurred?.('success');
+    } catch (error) {
+      fail('Failed to confirm recurring payment:', error);
+    } finally {
+      setBusyRuleId(null);
+    }
+  };
+
+  const handleSkip = async (rule: RecurringRule, date: Date) => {
+    if (busyRuleId) return;
+
+    setBusyRuleId(rule.id);
+    try {
+      patchRule(await apiClient.updateRecurringRule(rule.id, { last_occurrence: toDateKey(date) }));
+      haptic?.selectionChanged?.();
+    } catch (error) {
+      fail('Failed to skip recurring payment:', error);
+    } finally {
+      setBusyRuleId(null);
+    }
+  };
+
+  const ruleTitle = (rule: RecurringRule) => {
+    const category = rule.category_id ? categoryById.get(rule.category_id) : undefined;
+    return {
+      emoji: category?.emoji || '🔁',
+      label: rule.note || category?.name || t('recurring.untitled'),
+    };
+  };
+
+  const ruleAmount = (rule: RecurringRule) =>
+    formatCurrency(rule.amount, accountCurrency(accountById.get(rule.account_id), currencyCode), locale);
+
+  const dateLabel = (date: Date) => {
+    if (date < startOfDay(new Date())) return t('recurring.overdue', { date: formatOccurrence(date, locale) });
+    if (isToday(date)) return t('recurring.today');
+    if (isTomorrow(date)) return t('recurring.tomorrow');
+    return formatOccurrence(date, locale);
+  };
+
+  if (!isReady || loadingInit) {
+    return (
+      <div className="min-h-screen bg-background">
+        <div className="h-safe-top" />
+        <div className="px-4 pt-3 pb-8 max-w-md mx-auto space-y-3">
+          <Skeleton className="h-8 w-40 mx-auto mb-4" />
+          {[1, 2, 3, 4].map((i) => (
+            <Skeleton key={i} className="h-16 w-full rounded-2xl" />
+          ))}
+        </div>
+        <div className="h-safe-bottom" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <div className="px-4 pb-8 max-w-md mx-auto">
+        {/* Header */}
+        <header className="sticky top-0 z-10 bg-background/85 backdrop-blur-md -mx-4 px-4 border-b border-border/40">
+          <div className="h-safe-top" />
+          <div className="pt-2 pb-4 relative">
+            <h1 className="text-xl font-bold text-center">{t('recurring.title')}</h1>
+            <button
+              type="button"
+              onClick={() => openSheet({})}
+              className="absolute right-0 top-1/2 -translate-y-1/2 p-2 rounded-full hover:bg-muted transition-colors"
+              aria-label={t('recurring.createTitle')}
+            >
+              <Plus className="w-5 h-5 text-muted-foreground" />
+            </button>
+          </div>
+        </header>
+
+        {rulesQuery.isError ? (
+          <div className="mt-6 rounded-3xl border border-border/40 bg-card/30 p-6 text-center space-y-3">
+            <p className="text-sm text-muted-foreground">{t('errors.failedToLoad')}</p>
+            <button
+              type="button"
+              onClick={() => rulesQuery.refetch()}
+              className="px-4 h-10 rounded-xl bg-primary/10 text-primary text-sm font-semibold"
+            >
+              {t('common.retry')}
+            </button>
+          </div>
+        ) : rules.length === 0 ? (
+          <div className="mt-6 rounded-3xl border border-border/40 bg-card/30 p-6 text-center space-y-2">
+            <div className="text-4xl">🔁</div>
+            <p className="font-semibold">{t('recurring.emptyTitle')}</p>
+            <p className="text-sm text-muted-foreground">{t('recurring.emptySubtitle')}</p>
+          </div>
+        ) : (
+          <>
+            {/* Upcoming */}
+            <section className="mt-5">
+              <h2 className="mb-3 px-1 text-xs font-semibold text-muted-foreground uppercase tracking-wide">
+                {t('recurring.upcoming', { days: UPCOMING_DAYS })}
+              </h2>
+
+              {upcoming.length === 0 ? (
+                <p className="px-1 text-sm text-muted-foreground">{t('recurring.nothingUpcoming')}</p>
+              ) : (
+                <div className="rounded-3xl border border-border/40 bg-card/30 divide-y divide-border/40">
+                  {upcoming.map(({ rule, date, first }) => {
+                    const { emoji, label } = ruleTitle(rule);
+                    const due = date <= new Date();
+                    const busy = busyRuleId === rule.id;
+
+                    return (
+                      <div key={`${rule.id}:${toDateKey(date)}`} className="flex items-center gap-3 px-4 py-3">
+                        <span className="text-xl">{emoji}</span>
+                        <div className="flex-1 min-w-0">
+                          <div className="text-sm font-medium truncate">{label}</div>
+                          <div
+                            className={cn(
+                              'text-xs',
+                              date < startOfDay(new Date()) ? 'text-red-500' : 'text-muted-foreground'
+                            )}
+                          >
+                            {dateLabel(date)}
+                          </div>
+                        </div>
+                        <span
+                          className={cn(
+                            'text-sm font-semibold tabular-nums',
+                            rule.type === 'deposit' ? 'text-emerald-500' : 'text-foreground'
+                          )}
+                        >
+                          {ruleAmount(rule)}
+                        </span>
+
+                        {/* occurrences are confirmed in order, so only the earliest one per rule is actionable */}
+                        {first && (
+                          <div className="flex items-center gap-1">
+                            <button
+                              type="button"
+                              onClick={() => handleSkip(rule, date)}
+                              disabled={busy}
+                              className="p-2 rounded-full text-muted-foreground hover:bg-muted disabled:opacity-50"
+                              aria-label={t('recurring.skip')}
+                            >
+                              <SkipForward className="w-4 h-4" />
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => handleConfirm(rule, date)}
+                              disabled={busy}
+                              className={cn(
+                                'p-2 rounded-full disabled:opacity-50',
+                                due ? 'bg-primary text-primary-foreground' : 'bg-primary/10 text-primary'
+                              )}
+                              aria-label={t('recurring.confirm')}
+                            >
+                              {busy ? (
+                                <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin" />
+                              ) : (
+                                <Check className="w-4 h-4" />
+                              )}
+                            </button>
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </section>
+
+            {/* Rules */}
+            <section className="mt-6">
+              <h2 className="mb-3 px-1 text-xs font-semibold text-muted-foreground uppercase tracking-wide">
+                {t('recurring.rules', { count: rules.length })}
+              </h2>
+
+              <div className="space-y-2">
+                {rules.map((rule) => {
+                  const { emoji, label } = ruleTitle(rule);
+                  const next = nextOccurrence(rule);
+
+                  return (
+                    <div
+                      key={rule.id}
+                      className={cn(
+                        'flex items-center gap-3 rounded-2xl border border-border/40 bg-card/40 px-4 py-3',
+                        !rule.is_active && 'opacity-60'
+                      )}
+                    >
+                      <button
+                        type="button"
+                        onClick={() => openSheet({ rule })}
+                        className="flex-1 min-w-0 flex items-center gap-3 text-left"
+                      >
+                        <span className="text-xl">{emoji}</span>
+                        <div className="min-w-0">
+                          <div className="text-sm font-medium truncate">{label}</div>
+                          <div className="text-xs text-muted-foreground truncate">
+                            {ruleAmount(rule)} · {t(`recurring.cadences.${rule.cadence}`)}
+                            {rule.is_active && next ? ` · ${t('recurring.next', { date: formatOccurrence(next, locale) })}` : ''}
+                            {!rule.is_active ? ` · ${t('recurring.paused')}` : ''}
+                          </div>
+                        </div>
+                      </button>
+                      <Switch
+                        checked={rule.is_active}
+                        onCheckedChange={(v) => handleToggleActive(rule, v)}
+                        disabled={busyRuleId === rule.id}
+                        aria-label={t('recurring.active')}
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+            </section>
+          </>
+        )}
+      </div>
+
+      <RecurringRuleSheet
+        key={sheet.seq}
+        open={sheetOpen}
+        onOpenChange={setSheetOpen}
+        rule={sheet.rule}
+        draft={sheet.draft}
+        accounts={accounts}
+        categories={categories}
+        subcategories={subcategories}
+        currencyCode={currencyCode}
+        locale={locale}
+        onSave={handleSave}
+        onDelete={handleDelete}
+      />
+
+      <div className="h-safe-bottom" />
+    </div>
+  );
+}
+
+export default RecurringPage;
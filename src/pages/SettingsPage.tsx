@@ -1,11 +1,15 @@
-import { useEffect, useState, useCallback, useMemo } from 'react';
+import { useState, useCallback, useMemo } from 'react';
 import { useTranslation } from 'react-i18next';
-import { Globe, Clock, Trash2, Check } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { Globe, Clock, Trash2, Check, Tags, ChevronRight } from 'lucide-react';
 
 import { apiClient } from '@/api/client';
+import { queryKeys } from '@/api/queryClient';
 import type { User as UserType } from '@/core/types';
 
 import { useTelegramWebApp } from '@/hooks/useTelegramWebApp';
+import { useMe } from '@/hooks/useReferenceData';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Card, CardContent } from '@/components/ui/card';
 import { authService } from '@/services/auth.service';
@@ -90,26 +94,19 @@ function telegramConfirm(
 export default function SettingsPage() {
   const { t, i18n } = useTranslation();
   const { isReady, haptic, WebApp, user: tgUser } = useTelegramWebApp();
+  const navigate = useNavigate();
 
-  const [user, setUser] = useState<UserType | null>(null);
-  const [loadingInit, setLoadingInit] = useState(true);
+  const queryClient = useQueryClient();
+  const { data: user = null, isPending: loadingInit } = useMe();
+  const setUser = useCallback(
+    (updated: UserType) => queryClient.setQueryData(queryKeys.me, updated),
+    [queryClient],
+  );
 
   const [updatingLanguage, setUpdatingLanguage] = useState(false);
   const [updatingTimezone, setUpdatingTimezone] = useState(false);
   const [deletingAccount, setDeletingAccount] = useState(false);
 
-  useEffect(() => {
-    if (!isReady) return;
-    (async () => {
-      try {
-        const me = await apiClient.getMe();
-        setUser(me);
-      } finally {
-        setLoadingInit(false);
-      }
-    })();
-  }, [isReady]);
-
   const displayName = useMemo(() => {
     const name = [user?.first_name, user?.last_name].filter(Boolean).join(' ');
     return name || 'User';
@@ -157,7 +154,7 @@ export default function SettingsPage() {
         setUpdatingLanguage(false);
       }
     },
-    [user, i18n, haptic, WebApp, t],
+    [user, i18n, haptic, WebApp, t, setUser],
   );
 
   const handleTimezoneChange = useCallback(
@@ -182,7 +179,7 @@ export default function SettingsPage() {
         setUpdatingTimezone(false);
       }
     },
-    [user, haptic, WebApp, t],
+    [user, haptic, WebApp, t, setUser],
   );
 
   const handleDeleteAccount = useCallback(async () => {
@@ -206,6 +203,7 @@ export default function SettingsPage() {
 
       authService.clearToken();
       localStorage.clear();
+      queryClient.clear();
 
       haptic?.notificationOccurred?.('success');
       WebApp?.showAlert?.(t('settings.deleteSuccess'));
@@ -217,7 +215,7 @@ export default function SettingsPage() {
     } finally {
       setDeletingAccount(false);
     }
-  }, [WebApp, deletingAccount, haptic, t]);
+  }, [WebApp, deletingAccount, haptic, t, queryClient]);
 
   if (!isReady || loadingInit) {
     return (
@@ -342,6 +340,26 @@ export default function SettingsPage() {
             </CardContent>
           </Card>
 
+          {/* Categories */}
+          <Card className="bg-card/30">
+            <CardContent className="p-2">
+              <button
+                onClick={() => {
+                  haptic?.selectionChanged?.();
+                  navigate('/settings/categories');
+                }}
+                className="w-full flex items-center gap-3 rounded-2xl px-3 py-3 text-left transition hover:bg-muted/20 active:scale-[0.99]"
+              >
+                <Tags className="w-4 h-4 text-primary" />
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-semibold">{t('categories.title')}</div>
+                  <div className="text-xs text-muted-foreground">{t('categories.subtitle')}</div>
+                </div>
+                <ChevronRight className="w-4 h-4 text-muted-foreground" />
+              </button>
+            </CardContent>
+          </Card>
+
           {/* Danger zone */}
           <Card className="bg-card/30">
             <CardContent className="p-5">
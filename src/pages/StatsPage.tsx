@@ -1,29 +1,53 @@
-import { useEffect, useMemo, useState, useCallback } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useEffect, useMemo, useState, useCallback, useRef } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
-import { format, startOfMonth, endOfMonth, differenceInCalendarDays } from 'date-fns';
+import {
+  format,
+  startOfMonth,
+  endOfMonth,
+  differenceInCalendarDays,
+  subMonths,
+  parseISO,
+  endOfDay,
+  addDays,
+} from 'date-fns';
+import { PiggyBank, SlidersHorizontal } from 'lucide-react';
 
 import { apiClient } from '@/api/client';
 import type {
-  User,
-  Account,
+  AccountStatsView,
+  BalanceTimeseriesMode,
   StatsGroupBy,
   BalanceTimeseriesView,
   CategoryStatsView,
+  StatsCompareMover,
+  StatsCompareView,
   StatsTxType,
+  TimeseriesStatsView,
 } from '@/core/types';
 
 import { useTelegramWebApp } from '@/hooks/useTelegramWebApp';
+import { useMe, useAccounts, useCategories, useSubcategories } from '@/hooks/useReferenceData';
 import { Skeleton } from '@/components/ui/skeleton';
 import { DateRangeSheet, type DateRange } from '@/components/history/DateRangeSheet';
 import { AccountFilterSheet } from '@/components/stats/AccountFilterSheet';
+import { CategoryFilterSheet } from '@/components/stats/CategoryFilterSheet';
 import { useDebouncedValue } from '@/hooks/useDebouncedValue';
+import { computePreset, type PresetKey } from '@/lib/datePresets';
+import { FORECAST_HORIZONS, currentBucketIndex, type ForecastHorizon } from '@/lib/forecast';
+import { useCashflowForecast } from '@/hooks/useCashflowForecast';
+import { cn } from '@/lib/utils';
 import { ErrorCard } from '@/components/stats/ErrorCard';
 
 import { BalanceTimeseriesChart } from '@/components/stats/BalanceTimeseriesChart';
+import { TimeseriesChart } from '@/components/stats/TimeseriesChart';
 import { ExploreDonut, type ExploreItem } from '@/components/stats/ExploreDonut';
 import { ExploreRankList } from '@/components/stats/ExploreRankList';
 import { StatsOverviewCard } from '@/components/stats/StatsOverviewCard';
+import { ComparePeriodPicker, type CompareSelection } from '@/components/stats/ComparePeriodPicker';
+import { CompareSummaryCard } from '@/components/stats/CompareSummaryCard';
+import { CompareMoversList } from '@/components/stats/CompareMoversList';
+import { AccountBreakdown } from '@/components/stats/AccountBreakdown';
 
 function toYMD(d: Date) {
   return format(d, 'yyyy-MM-dd');
@@ -35,20 +59,76 @@ function autoGroupBy(range: DateRange): StatsGroupBy {
   return 'month';
 }
 
+function isGroupBy(v: string | null): v is StatsGroupBy {
+  return v === 'day' || v === 'week' || v === 'month';
+}
+
+function readIds(key: string): number[] {
+  try {
+    const parsed = JSON.parse(sessionStorage.getItem(key) || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
 const OTHER_ID = -1;
 
+type StatsView = 'overview' | 'compare';
+
+// movers listed per direction
+const COMPARE_TOP_LIMIT = 5;
+
+function defaultCompareSelection(): CompareSelection {
+  const now = new Date();
+  const prev = subMonths(now, 1);
+  return {
+    period: 'this_month_vs_last_month',
+    base: { from: startOfMonth(now), to: endOfMonth(now), label: 'thisMonth' },
+    compare: { from: startOfMonth(prev), to: endOfMonth(prev), label: 'lastMonth' },
+  };
+}
+
+// compare ranges come back as YYYY-MM-DD (possibly with a time part)
+function parseDay(value: string) {
+  return parseISO(value.slice(0, 10));
+}
+
+// a timeseries bucket starts at ts; edge buckets are clipped to the picked range
+function bucketRange(ts: string, groupBy: StatsGroupBy, range: DateRange) {
+  const start = parseDay(ts);
+  const end =
+    groupBy === 'month' ? endOfMonth(start) : groupBy === 'week' ? endOfDay(addDays(start, 6)) : endOfDay(start);
+  return {
+    from: start < range.from ? range.from : start,
+    to: end > range.to ? range.to : end,
+  };
+}
+
 export default function StatsPage() {
   const { t } = useTranslation();
   const navigate = useNavigate();
+  const location = useLocation();
   const { isReady, haptic } = useTelegramWebApp();
 
   // init
-  const [user, setUser] = useState<User | null>(null);
-  const [accounts, setAccounts] = useState<Account[]>([]);
-  const [loadingInit, setLoadingInit] = useState(true);
+  const meQuery = useMe();
+  const accountsQuery = useAccounts();
+  const user = meQuery.data ?? null;
+  const accounts = useMemo(() => accountsQuery.data ?? [], [accountsQuery.data]);
+  const categoriesQuery = useCategories();
+  const subcategoriesQuery = useSubcategories();
+  const categories = useMemo(() => categoriesQuery.data ?? [], [categoriesQuery.data]);
+  const subcategories = useMemo(() => subcategoriesQuery.data ?? [], [subcategoriesQuery.data]);
+  const loadingInit = meQuery.isPending || accountsQuery.isPending;
+
+  // stats_<preset> deep link
+  const linkedPreset = (location.state as { preset?: PresetKey } | null)?.preset;
 
   // filters - restore from sessionStorage if available
   const [dateRange, setDateRange] = useState<DateRange>(() => {
+    const preset = linkedPreset ? computePreset(linkedPreset) : null;
+    if (preset) return { ...preset, label: linkedPreset };
     const cached = sessionStorage.getItem('stats_dateRange');
     if (cached) {
       try {
@@ -78,16 +158,64 @@ export default function StatsPage() {
     return [];
   });
 
-  const groupBy = useMemo(() => autoGroupBy(dateRange), [dateRange]);
+  // category filters only narrow the income/expense chart
+  const [categoryIds, setCategoryIds] = useState<number[]>(() => readIds('stats_categoryIds'));
+  const [subcategoryIds, setSubcategoryIds] = useState<number[]>(() => readIds('stats_subcategoryIds'));
+
+  // null = pick from the range length; cleared whenever the range changes
+  const [groupByOverride, setGroupByOverride] = useState<StatsGroupBy | null>(() => {
+    const cached = sessionStorage.getItem('stats_groupBy');
+    return isGroupBy(cached) ? cached : null;
+  });
+  const groupBy = useMemo(() => groupByOverride ?? autoGroupBy(dateRange), [groupByOverride, dateRange]);
+
+  // a stats_<preset> link is about one period, so it always lands on the overview
+  const [view, setView] = useState<StatsView>(() =>
+    !linkedPreset && sessionStorage.getItem('stats_view') === 'compare' ? 'compare' : 'overview'
+  );
+
+  const [compareSel, setCompareSel] = useState<CompareSelection>(() => {
+    const cached = sessionStorage.getItem('stats_compare');
+    if (cached) {
+      try {
+        const parsed = JSON.parse(cached);
+        const revive = (r: { from: string; to: string; label?: string }) => ({
+          from: new Date(r.from),
+          to: new Date(r.to),
+          label: r.label,
+        });
+        return { period: parsed.period, base: revive(parsed.base), compare: revive(parsed.compare) };
+      } catch {
+        // fall through
+      }
+    }
+    return defaultCompareSelection();
+  });
 
   // sheets
   const [dateSheetOpen, setDateSheetOpen] = useState(false);
   const [accountSheetOpen, setAccountSheetOpen] = useState(false);
+  const [categorySheetOpen, setCategorySheetOpen] = useState(false);
+  const [categorySheetSeq, setCategorySheetSeq] = useState(0);
+  const [compareRangeSheet, setCompareRangeSheet] = useState<'base' | 'compare' | null>(null);
 
   // balance data
   const [bal, setBal] = useState<BalanceTimeseriesView | null>(null);
   const [loadingBal, setLoadingBal] = useState(false);
   const [errorBal, setErrorBal] = useState<string | null>(null);
+  const [balanceMode, setBalanceMode] = useState<BalanceTimeseriesMode>(() =>
+    sessionStorage.getItem('stats_balanceMode') === 'per_account' ? 'per_account' : 'aggregate'
+  );
+  // null = no forecast
+  const [forecastDays, setForecastDays] = useState<ForecastHorizon | null>(() => {
+    const cached = Number(sessionStorage.getItem('stats_forecastDays'));
+    return FORECAST_HORIZONS.find((d) => d === cached) ?? null;
+  });
+
+  // income/expense data
+  const [series, setSeries] = useState<TimeseriesStatsView | null>(null);
+  const [loadingSeries, setLoadingSeries] = useState(false);
+  const [errorSeries, setErrorSeries] = useState<string | null>(null);
 
   // explore state
   const [txType, setTxType] = useState<StatsTxType>(() => {
@@ -103,6 +231,16 @@ export default function StatsPage() {
   const [loadingExplore, setLoadingExplore] = useState(false);
   const [errorExplore, setErrorExplore] = useState<string | null>(null);
 
+  // per-account data
+  const [byAccount, setByAccount] = useState<AccountStatsView | null>(null);
+  const [loadingByAccount, setLoadingByAccount] = useState(false);
+  const [errorByAccount, setErrorByAccount] = useState<string | null>(null);
+
+  // compare data
+  const [cmp, setCmp] = useState<StatsCompareView | null>(null);
+  const [loadingCompare, setLoadingCompare] = useState(false);
+  const [errorCompare, setErrorCompare] = useState<string | null>(null);
+
   const currencyCode = user?.currency_code || 'USD';
   const locale = user?.language_code;
 
@@ -122,23 +260,36 @@ export default function StatsPage() {
     sessionStorage.setItem('stats_accountIds', JSON.stringify(accountIds));
   }, [accountIds]);
 
+  useEffect(() => {
+    sessionStorage.setItem('stats_categoryIds', JSON.stringify(categoryIds));
+    sessionStorage.setItem('stats_subcategoryIds', JSON.stringify(subcategoryIds));
+  }, [categoryIds, subcategoryIds]);
+
+  useEffect(() => {
+    if (groupByOverride) sessionStorage.setItem('stats_groupBy', groupByOverride);
+    else sessionStorage.removeItem('stats_groupBy');
+  }, [groupByOverride]);
+
+  useEffect(() => {
+    sessionStorage.setItem('stats_balanceMode', balanceMode);
+  }, [balanceMode]);
+
+  useEffect(() => {
+    if (forecastDays) sessionStorage.setItem('stats_forecastDays', String(forecastDays));
+    else sessionStorage.removeItem('stats_forecastDays');
+  }, [forecastDays]);
+
   useEffect(() => {
     sessionStorage.setItem('stats_txType', txType);
   }, [txType]);
 
-  // init load (me + accounts)
   useEffect(() => {
-    if (!isReady) return;
-    (async () => {
-      try {
-        const [me, acc] = await Promise.all([apiClient.getMe(), apiClient.getAccounts()]);
-        setUser(me);
-        setAccounts(acc);
-      } finally {
-        setLoadingInit(false);
-      }
-    })();
-  }, [isReady]);
+    sessionStorage.setItem('stats_view', view);
+  }, [view]);
+
+  useEffect(() => {
+    sessionStorage.setItem('stats_compare', JSON.stringify(compareSel));
+  }, [compareSel]);
 
   const query = useMemo(() => {
     return {
@@ -152,9 +303,45 @@ export default function StatsPage() {
 
   const debounced = useDebouncedValue(query, 180);
 
+  const seriesQuery = useMemo(() => {
+    return {
+      from: query.from,
+      to: query.to,
+      group_by: query.group_by,
+      account_ids: query.account_ids,
+      category_ids: categoryIds.length ? categoryIds : undefined,
+      subcategory_ids: subcategoryIds.length ? subcategoryIds : undefined,
+    };
+  }, [query, categoryIds, subcategoryIds]);
+
+  const debouncedSeries = useDebouncedValue(seriesQuery, 180);
+
+  const compareQuery = useMemo(() => {
+    const common = {
+      account_ids: accountIds.length ? accountIds : undefined,
+      type: txType as StatsTxType,
+      top_limit: COMPARE_TOP_LIMIT,
+    };
+    if (compareSel.period !== 'custom') return { ...common, period: compareSel.period };
+    return {
+      ...common,
+      base_from: toYMD(compareSel.base.from),
+      base_to: toYMD(compareSel.base.to),
+      compare_from: toYMD(compareSel.compare.from),
+      compare_to: toYMD(compareSel.compare.to),
+    };
+  }, [compareSel, accountIds, txType]);
+
+  const debouncedCompare = useDebouncedValue(compareQuery, 180);
+
   // ---- fetchers ----
+  // each fetcher only applies its latest request, so a slow older response can't win
+  const requestSeq = useRef({ balance: 0, series: 0, explore: 0, byAccount: 0, compare: 0 });
+
   const fetchBalance = useCallback(
     async (q = debounced) => {
+      const id = ++requestSeq.current.balance;
+      const stale = () => id !== requestSeq.current.balance;
       setLoadingBal(true);
       setErrorBal(null);
       try {
@@ -162,23 +349,49 @@ export default function StatsPage() {
           from: q.from,
           to: q.to,
           group_by: q.group_by,
-          mode: 'aggregate',
+          mode: balanceMode,
           account_ids: q.account_ids,
         });
+        if (stale()) return;
         setBal(res);
       } catch (e) {
+        if (stale()) return;
         setErrorBal(
           e instanceof Error ? e.message : (t('stats.trendError') || 'Could not load balance trend')
         );
       } finally {
-        setLoadingBal(false);
+        if (!stale()) setLoadingBal(false);
       }
     },
-    [debounced, t]
+    [debounced, balanceMode, t]
+  );
+
+  const fetchSeries = useCallback(
+    async (q = debouncedSeries) => {
+      const id = ++requestSeq.current.series;
+      const stale = () => id !== requestSeq.current.series;
+      setLoadingSeries(true);
+      setErrorSeries(null);
+      try {
+        const res = await apiClient.getStatsIncomeExpenseTimeseries(q);
+        if (stale()) return;
+        setSeries(res);
+      } catch (e) {
+        if (stale()) return;
+        setErrorSeries(
+          e instanceof Error ? e.message : (t('stats.cashflowError') || 'Could not load income and expenses')
+        );
+      } finally {
+        if (!stale()) setLoadingSeries(false);
+      }
+    },
+    [debouncedSeries, t]
   );
 
   const fetchExplore = useCallback(
     async (q = debounced) => {
+      const id = ++requestSeq.current.explore;
+      const stale = () => id !== requestSeq.current.explore;
       setLoadingExplore(true);
       setErrorExplore(null);
       try {
@@ -188,24 +401,105 @@ export default function StatsPage() {
           type: q.type,
           account_ids: q.account_ids,
         });
+        if (stale()) return;
         setCat(res);
       } catch (e) {
+        if (stale()) return;
         setErrorExplore(
           e instanceof Error ? e.message : (t('stats.categoriesError') || 'Could not load distribution')
         );
       } finally {
-        setLoadingExplore(false);
+        if (!stale()) setLoadingExplore(false);
+      }
+    },
+    [debounced, t]
+  );
+
+  const fetchByAccount = useCallback(
+    async (q = debounced) => {
+      const id = ++requestSeq.current.byAccount;
+      const stale = () => id !== requestSeq.current.byAccount;
+      setLoadingByAccount(true);
+      setErrorByAccount(null);
+      try {
+        const res = await apiClient.getStatsByAccount({ from: q.from, to: q.to, type: q.type });
+        if (stale()) return;
+        setByAccount(res);
+      } catch (e) {
+        if (stale()) return;
+        setErrorByAccount(
+          e instanceof Error ? e.message : (t('stats.byAccountError') || 'Could not load accounts')
+        );
+      } finally {
+        if (!stale()) setLoadingByAccount(false);
       }
     },
     [debounced, t]
   );
 
-  // refetch when debounced changes
+  const fetchCompare = useCallback(
+    async (q = debouncedCompare) => {
+      const id = ++requestSeq.current.compare;
+      const stale = () => id !== requestSeq.current.compare;
+      setLoadingCompare(true);
+      setErrorCompare(null);
+      try {
+        const res = await apiClient.getStatsCompare(q);
+        if (stale()) return;
+        setCmp(res);
+      } catch (e) {
+        if (stale()) return;
+        setErrorCompare(
+          e instanceof Error ? e.message : (t('stats.compare.error') || 'Could not load comparison')
+        );
+      } finally {
+        if (!stale()) setLoadingCompare(false);
+      }
+    },
+    [debouncedCompare, t]
+  );
+
+  // refetch when debounced changes; only the visible view is loaded
   useEffect(() => {
-    if (!isReady || loadingInit) return;
-    fetchBalance(debounced);
+    if (!isReady || loadingInit || view !== 'overview') return;
     fetchExplore(debounced);
-  }, [isReady, loadingInit, debounced, fetchBalance, fetchExplore]);
+    fetchByAccount(debounced);
+  }, [isReady, loadingInit, view, debounced, fetchExplore, fetchByAccount]);
+
+  // separate so switching the balance mode only reloads the balance chart
+  useEffect(() => {
+    if (!isReady || loadingInit || view !== 'overview') return;
+    fetchBalance(debounced);
+  }, [isReady, loadingInit, view, debounced, fetchBalance]);
+
+  useEffect(() => {
+    if (!isReady || loadingInit || view !== 'overview') return;
+    fetchSeries(debouncedSeries);
+  }, [isReady, loadingInit, view, debouncedSeries, fetchSeries]);
+
+  useEffect(() => {
+    if (!isReady || loadingInit || view !== 'compare') return;
+    fetchCompare(debouncedCompare);
+  }, [isReady, loadingInit, view, debouncedCompare, fetchCompare]);
+
+  // ---- forecast ----
+  // continues the total balance from today's bucket, so the range has to reach today
+  const forecastStart = useMemo(() => {
+    if (!bal || bal.mode !== 'aggregate' || !bal.points?.length) return null;
+    const today = new Date();
+    if (dateRange.to < today) return null;
+    const i = currentBucketIndex(bal.points, today);
+    return i < 0 ? null : bal.points[i].balance_close;
+  }, [bal, dateRange.to]);
+
+  const { forecast, isError: forecastError } = useCashflowForecast({
+    startBalance: forecastStart,
+    days: forecastDays ?? FORECAST_HORIZONS[0],
+    accountIds,
+    accounts,
+    currencyCode,
+    enabled: view === 'overview' && forecastDays != null && forecastStart != null,
+  });
 
   // ---- derived donut/list model ----
   const exploreItems: ExploreItem[] = useMemo(() => {
@@ -317,6 +611,70 @@ export default function StatsPage() {
     });
   };
 
+  const onChangeView = (next: StatsView) => {
+    if (next === view) return;
+    haptic?.selectionChanged?.();
+    setView(next);
+  };
+
+  // Account drill-down = history for that account over the same range
+  const onOpenAccount = (accountId: string) => {
+    haptic?.impactOccurred?.('light');
+    navigate('/history', {
+      state: {
+        from: dateRange.from,
+        to: dateRange.to,
+        type: txType,
+        account_ids: [accountId],
+        drillDown: true,
+      },
+    });
+  };
+
+  const onChangeGroupBy = (next: StatsGroupBy) => {
+    if (next === groupBy) return;
+    haptic?.selectionChanged?.();
+    setGroupByOverride(next);
+  };
+
+  // Bucket tap = history limited to that bucket (and the chart's filters)
+  const onSelectBucket = (ts: string) => {
+    const { from, to } = bucketRange(ts, groupBy, dateRange);
+    haptic?.impactOccurred?.('light');
+    navigate('/history', {
+      state: {
+        from,
+        to,
+        account_ids: accountIds,
+        category_ids: categoryIds,
+        subcategory_ids: subcategoryIds,
+        drillDown: true,
+      },
+    });
+  };
+
+  // Movers (always expenses) open the category for the base period
+  const onSelectMover = (item: StatsCompareMover) => {
+    if (!cmp) return;
+
+    haptic?.impactOccurred?.('light');
+    navigate(`/stats/category/${item.category_id}`, {
+      state: {
+        dateRange: {
+          from: parseDay(cmp.base.from),
+          to: endOfDay(parseDay(cmp.base.to)),
+          label: 'custom',
+        },
+        accountIds,
+        categoryType: 'withdrawal',
+        categoryMeta: {
+          name: item.name,
+          emoji: item.emoji,
+        },
+      },
+    });
+  };
+
   if (!isReady || loadingInit) {
     return (
       <div className="min-h-screen bg-background">
@@ -338,13 +696,41 @@ export default function StatsPage() {
         {/* Sticky header */}
         <header className="sticky top-0 z-20 bg-background/80 backdrop-blur-xl border-b border-border/40 -mx-4 px-4">
           <div className="h-safe-top" />
-          <div className="py-3">
+          <div className="py-3 relative">
             <h1 className="text-xl font-bold text-center">{t('common.stats') || 'Stats'}</h1>
+            <button
+              type="button"
+              onClick={() => {
+                haptic?.selectionChanged?.();
+                navigate('/stats/budgets');
+              }}
+              className="absolute right-0 top-1/2 -translate-y-1/2 p-2 rounded-full hover:bg-muted transition-colors"
+              aria-label={t('budgets.title')}
+            >
+              <PiggyBank className="w-5 h-5 text-muted-foreground" />
+            </button>
           </div>
         </header>
 
+        {/* View switch */}
+        <div className="mt-4 grid grid-cols-2 gap-1 p-1 rounded-2xl bg-card/50 border border-border/50">
+          {(['overview', 'compare'] as const).map((v) => (
+            <button
+              key={v}
+              type="button"
+              onClick={() => onChangeView(v)}
+              className={cn(
+                'h-9 rounded-xl text-sm font-semibold transition-colors',
+                view === v ? 'bg-background shadow-sm text-foreground' : 'text-muted-foreground'
+              )}
+            >
+              {t(`stats.views.${v}`)}
+            </button>
+          ))}
+        </div>
+
         {/* Filters */}
-        <div className="mt-4 space-y-3">
+        <div className="mt-3 space-y-3">
           <button
             onClick={() => setAccountSheetOpen(true)}
             className="w-full px-3 py-2 rounded-xl bg-card/50 hover:bg-card/70 border border-border/50 text-sm font-semibold transition-colors"
@@ -355,16 +741,21 @@ export default function StatsPage() {
           </button>
 
           <div className="flex gap-2">
-            <button
-              onClick={() => setDateSheetOpen(true)}
-              className="flex-1 h-11 rounded-2xl bg-card/50 hover:bg-card/70 border border-border/50 text-sm font-semibold transition-colors"
-            >
-              {toYMD(dateRange.from)} → {toYMD(dateRange.to)}
-            </button>
+            {view === 'overview' && (
+              <button
+                onClick={() => setDateSheetOpen(true)}
+                className="flex-1 h-11 rounded-2xl bg-card/50 hover:bg-card/70 border border-border/50 text-sm font-semibold transition-colors"
+              >
+                {toYMD(dateRange.from)} → {toYMD(dateRange.to)}
+              </button>
+            )}
 
             <button
               onClick={onToggleTxType}
-              className="h-11 px-4 rounded-2xl border text-sm font-semibold bg-background/40 border-border/50 hover:bg-background/60"
+              className={cn(
+                'h-11 px-4 rounded-2xl border text-sm font-semibold bg-background/40 border-border/50 hover:bg-background/60',
+                view === 'compare' && 'flex-1'
+              )}
             >
               {txType === 'withdrawal'
                 ? (t('common.expense') || 'Expenses')
@@ -373,79 +764,226 @@ export default function StatsPage() {
           </div>
         </div>
 
-        {/* Overview Card */}
-        <div className="mt-4">
-          <StatsOverviewCard
-            totalCount={overviewMetrics.totalCount}
-            avgAmount={overviewMetrics.avgAmount}
-            topCategory={overviewMetrics.topCategory}
-            currencyCode={currencyCode}
-            locale={locale}
-            loading={loadingExplore}
-          />
-        </div>
-
-        {/* Balance chart */}
-        <div className="mt-5">
-          {errorBal ? (
-            <ErrorCard
-              title={t('stats.trendError') || 'Could not load balance trend'}
-              message={errorBal}
-              onRetry={() => fetchBalance()}
-            />
-          ) : (
-            <BalanceTimeseriesChart
-              title={t('stats.balanceOverTime') || 'Balance over time'}
-              loading={loadingBal}
-              data={bal}
-              currencyCode={currencyCode}
-              locale={locale}
-              groupBy={groupBy}
+        {view === 'compare' && (
+          <div className="mt-3">
+            <ComparePeriodPicker
+              value={compareSel}
+              onChange={(v) => {
+                haptic?.selectionChanged?.();
+                setCompareSel(v);
+              }}
+              onEditRange={setCompareRangeSheet}
             />
-          )}
-        </div>
+          </div>
+        )}
 
-        {/* Explore donut */}
-        <div className="mt-5">
-          {errorExplore ? (
-            <ErrorCard
-              title={t('stats.distributionError') || 'Could not load distribution'}
-              message={errorExplore}
-              onRetry={() => fetchExplore()}
-            />
-          ) : (
-            <ExploreDonut
-              title={
-                txType === 'withdrawal'
-                  ? (t('stats.topExpenseCategories') || 'Top expense categories')
-                  : (t('stats.topIncomeCategories') || 'Top income categories')
-              }
-              loading={loadingExplore}
-              items={exploreItems}
-              totals={exploreTotals}
-              selectedId={selectedCategoryId}
-              onSelect={onSelectDonut}
-              onDrillDown={onDrillDownDonut}
-              currencyCode={currencyCode}
-              locale={locale}
-            />
-          )}
-        </div>
+        {view === 'overview' ? (
+          <>
+            {/* Overview Card */}
+            <div className="mt-4">
+              <StatsOverviewCard
+                totalCount={overviewMetrics.totalCount}
+                avgAmount={overviewMetrics.avgAmount}
+                topCategory={overviewMetrics.topCategory}
+                currencyCode={currencyCode}
+                locale={locale}
+                loading={loadingExplore}
+              />
+            </div>
 
-        {/* Explore list (tap once opens page) */}
-        <div className="mt-4">
-          <ExploreRankList
-            title={t('stats.leaders') || 'Leaders'}
-            items={exploreItems}
-            totals={exploreTotals}
-            expanded={expanded}
-            onToggleExpanded={() => setExpanded((v) => !v)}
-            selectedId={selectedCategoryId}
-            onSelect={onSelectFromList}
-            currencyCode={currencyCode}
-            locale={locale}
-          />
-        </div>
+            {/* Grouping (shared by both charts) */}
+            <div className="mt-5 grid grid-cols-3 gap-1 p-1 rounded-2xl bg-card/50 border border-border/50">
+              {(['day', 'week', 'month'] as const).map((g) => (
+                <button
+                  key={g}
+                  type="button"
+                  onClick={() => onChangeGroupBy(g)}
+                  className={cn(
+                    'h-8 rounded-xl text-xs font-semibold transition-colors',
+                    groupBy === g ? 'bg-background shadow-sm text-foreground' : 'text-muted-foreground'
+                  )}
+                >
+                  {t(`stats.groupBy.${g}`)}
+                </button>
+              ))}
+            </div>
+
+            {/* Balance chart */}
+            <div className="mt-3">
+              {errorBal ? (
+                <ErrorCard
+                  title={t('stats.trendError') || 'Could not load balance trend'}
+                  message={errorBal}
+                  onRetry={() => fetchBalance()}
+                />
+              ) : (
+                <BalanceTimeseriesChart
+                  title={t('stats.balanceOverTime') || 'Balance over time'}
+                  loading={loadingBal}
+                  data={bal}
+                  currencyCode={currencyCode}
+                  locale={locale}
+                  groupBy={groupBy}
+                  mode={balanceMode}
+                  onModeChange={(m) => {
+                    haptic?.selectionChanged?.();
+                    setBalanceMode(m);
+                  }}
+                  accounts={accounts}
+                  forecast={forecastDays ? forecast : null}
+                  forecastError={!!forecastDays && forecastError}
+                  forecastDays={forecastDays}
+                  onForecastDaysChange={(d) => {
+                    haptic?.selectionChanged?.();
+                    setForecastDays(d);
+                  }}
+                />
+              )}
+            </div>
+
+            {/* Income vs expense (tap a bucket to open its transactions) */}
+            <div className="mt-5 space-y-2">
+              <button
+                type="button"
+                onClick={() => {
+                  setCategorySheetSeq((n) => n + 1);
+                  setCategorySheetOpen(true);
+                }}
+                className={cn(
+                  'w-full h-10 px-3 rounded-xl border text-sm font-semibold transition-colors flex items-center justify-center gap-2',
+                  categoryIds.length
+                    ? 'bg-primary/10 border-primary/30 text-foreground'
+                    : 'bg-card/50 hover:bg-card/70 border-border/50'
+                )}
+              >
+                <SlidersHorizontal className="w-4 h-4" />
+                {categoryIds.length
+                  ? t('stats.categoryCount', { count: categoryIds.length })
+                  : t('stats.allCategories')}
+              </button>
+
+              {errorSeries ? (
+                <ErrorCard
+                  title={t('stats.cashflowError') || 'Could not load income and expenses'}
+                  message={errorSeries}
+                  onRetry={() => fetchSeries()}
+                />
+              ) : (
+                <TimeseriesChart
+                  title={t('stats.incomeVsExpense') || 'Income vs expenses'}
+                  loading={loadingSeries}
+                  data={series}
+                  currencyCode={currencyCode}
+                  locale={locale}
+                  groupBy={groupBy}
+                  onSelectBucket={onSelectBucket}
+                />
+              )}
+            </div>
+
+            {/* Explore donut */}
+            <div className="mt-5">
+              {errorExplore ? (
+                <ErrorCard
+                  title={t('stats.distributionError') || 'Could not load distribution'}
+                  message={errorExplore}
+                  onRetry={() => fetchExplore()}
+                />
+              ) : (
+                <ExploreDonut
+                  title={
+                    txType === 'withdrawal'
+                      ? (t('stats.topExpenseCategories') || 'Top expense categories')
+                      : (t('stats.topIncomeCategories') || 'Top income categories')
+                  }
+                  loading={loadingExplore}
+                  items={exploreItems}
+                  totals={exploreTotals}
+                  selectedId={selectedCategoryId}
+                  onSelect={onSelectDonut}
+                  onDrillDown={onDrillDownDonut}
+                  currencyCode={currencyCode}
+                  locale={locale}
+                />
+              )}
+            </div>
+
+            {/* Explore list (tap once opens page) */}
+            <div className="mt-4">
+              <ExploreRankList
+                title={t('stats.leaders') || 'Leaders'}
+                items={exploreItems}
+                totals={exploreTotals}
+                expanded={expanded}
+                onToggleExpanded={() => setExpanded((v) => !v)}
+                selectedId={selectedCategoryId}
+                onSelect={onSelectFromList}
+                currencyCode={currencyCode}
+                locale={locale}
+              />
+            </div>
+
+            {/* By account (tap opens history for the account) */}
+            <div className="mt-5">
+              {errorByAccount ? (
+                <ErrorCard
+                  title={t('stats.byAccountError') || 'Could not load accounts'}
+                  message={errorByAccount}
+                  onRetry={() => fetchByAccount()}
+                />
+              ) : (
+                <AccountBreakdown
+                  title={
+                    txType === 'withdrawal'
+                      ? (t('stats.expenseByAccount') || 'Expenses by account')
+                      : (t('stats.incomeByAccount') || 'Income by account')
+                  }
+                  listTitle={t('stats.accounts') || 'Accounts'}
+                  loading={loadingByAccount}
+                  data={byAccount}
+                  txType={txType}
+                  accountIds={accountIds}
+                  currencyCode={currencyCode}
+                  locale={locale}
+                  onOpenAccount={onOpenAccount}
+                />
+              )}
+            </div>
+          </>
+        ) : (
+          <>
+            {/* Side-by-side totals */}
+            <div className="mt-4">
+              {errorCompare ? (
+                <ErrorCard
+                  title={t('stats.compare.error') || 'Could not load comparison'}
+                  message={errorCompare}
+                  onRetry={() => fetchCompare()}
+                />
+              ) : (
+                <CompareSummaryCard
+                  loading={loadingCompare}
+                  data={cmp}
+                  currencyCode={currencyCode}
+                  locale={locale}
+                />
+              )}
+            </div>
+
+            {/* Category movers (tap opens the base period) */}
+            {!errorCompare && (
+              <div className="mt-4">
+                <CompareMoversList
+                  loading={loadingCompare}
+                  items={cmp?.top_changes?.expense_by_category ?? []}
+                  currencyCode={currencyCode}
+                  locale={locale}
+                  onSelect={onSelectMover}
+                />
+              </div>
+            )}
+          </>
+        )}
       </div>
 
       {/* Sheets */}
@@ -453,7 +991,18 @@ export default function StatsPage() {
         open={dateSheetOpen}
         onOpenChange={setDateSheetOpen}
         value={dateRange}
-        onApply={(v) => setDateRange(v)}
+        onApply={(v) => {
+          setDateRange(v);
+          setGroupByOverride(null);
+        }}
+      />
+
+      <DateRangeSheet
+        open={compareRangeSheet !== null}
+        onOpenChange={(v) => !v && setCompareRangeSheet(null)}
+        value={compareSel[compareRangeSheet ?? 'base']}
+        onApply={(v) => compareRangeSheet && setCompareSel((prev) => ({ ...prev, [compareRangeSheet]: v }))}
+        title={compareRangeSheet ? t(`stats.compare.${compareRangeSheet}`) : undefined}
       />
 
       <AccountFilterSheet
@@ -465,6 +1014,21 @@ export default function StatsPage() {
         title={t('stats.accounts') || 'Accounts'}
       />
 
+      <CategoryFilterSheet
+        key={categorySheetSeq}
+        open={categorySheetOpen}
+        onOpenChange={setCategorySheetOpen}
+        categories={categories}
+        subcategories={subcategories}
+        categoryIds={categoryIds}
+        subcategoryIds={subcategoryIds}
+        onApply={(cats, subs) => {
+          setCategoryIds(cats);
+          setSubcategoryIds(subs);
+        }}
+        title={t('stats.categories') || 'Categories'}
+      />
+
       <div className="h-safe-bottom" />
     </div>
   );
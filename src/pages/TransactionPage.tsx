@@ -2,27 +2,57 @@ import { useEffect, useCallback, useState, useMemo } from 'react';
 import { useSearchParams, useNavigate } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { useForm, FormProvider } from 'react-hook-form';
+import { useQueryClient } from '@tanstack/react-query';
 
 import { apiClient } from '../api/client';
+import { queryKeys } from '../api/queryClient';
 import { botClient } from '../api/bot';
+import { outboxService, isNetworkError, isUncertainDelivery } from '../services/outbox.service';
+import { mediaService } from '../services/media.service';
 import { useTelegramWebApp } from '../hooks/useTelegramWebApp';
+import { useBackButtonOverride } from '../hooks/useBackButton';
 import { useAuth } from '../contexts/AuthContext';
-
-import type { Account, Category, ParsedTransaction, Subcategory } from '../core/types';
+import { useAccounts, useCategories, useSubcategories } from '../hooks/useReferenceData';
+import { useBudgets, fetchBudgetProgress } from '../hooks/useBudgets';
+import { fxService } from '../services/fx.service';
+
+import type {
+  CreateTransactionRequest,
+  ParseAudioView,
+  ParseImageView,
+  ParsedTransaction,
+  Transaction,
+  UpdateTransactionRequest,
+} from '../core/types';
+import { accountCurrency } from '../lib/currency';
+import { monthKey } from '../lib/budgets';
+import { formatCurrency } from '../lib/formatters';
+import { toDateKey } from '../lib/recurrence';
 
 import { Card, CardContent } from '../components/ui/card';
 import { Skeleton } from '../components/ui/skeleton';
-import { Wallet, FileText, Tag } from 'lucide-react';
+import { Wallet, FileText, Tag, ArrowRightLeft } from 'lucide-react';
 import { cn } from '../lib/utils';
 
 import { TypeSelector } from '../components/transaction/TypeSelector';
 import { AmountInput } from '../components/transaction/AmountInput';
 import { DateTimeInput } from '../components/transaction/DateTimeInput';
 import { SearchableSelect } from '../components/transaction/SearchableSelect';
+import { MediaCaptureBar } from '../components/transaction/MediaCaptureBar';
+
+// parser results below this are prefilled but highlighted for review
+const LOW_CONFIDENCE = 0.7;
+
+type ReviewField = 'amount' | 'category' | 'note';
+
+function round2(n: number) {
+  return Math.round((n + Number.EPSILON) * 100) / 100;
+}
 
 function TransactionPage() {
   const { t } = useTranslation();
   const navigate = useNavigate();
+  const queryClient = useQueryClient();
   const [searchParams] = useSearchParams();
 
   const { WebApp, isReady, user: tgUser } = useTelegramWebApp();
@@ -31,11 +61,25 @@ function TransactionPage() {
   const transactionId = searchParams.get('id');
   const dataParam = searchParams.get('data');
   const mode = transactionId ? 'edit' : 'create';
+  // opened from inside the app (no bot draft): save via the API and stay in the app
+  const isStandalone = mode === 'create' && !dataParam;
+
+  const accountsQuery = useAccounts();
+  const categoriesQuery = useCategories();
+  const subcategoriesQuery = useSubcategories();
+
+  const accounts = useMemo(() => accountsQuery.data ?? [], [accountsQuery.data]);
+  const categories = useMemo(() => categoriesQuery.data ?? [], [categoriesQuery.data]);
+  const subcategories = useMemo(() => subcategoriesQuery.data ?? [], [subcategoriesQuery.data]);
+  const referenceReady = !!accountsQuery.data && !!categoriesQuery.data && !!subcategoriesQuery.data;
+
+  const budgetsQuery = useBudgets();
 
   const [loading, setLoading] = useState(true);
-  const [accounts, setAccounts] = useState<Account[]>([]);
-  const [categories, setCategories] = useState<Category[]>([]);
-  const [subcategories, setSubcategories] = useState<Subcategory[]>([]);
+
+  // receipt photo / voice prefill
+  const [mediaBusy, setMediaBusy] = useState(false);
+  const [review, setReview] = useState<Set<ReviewField>>(new Set());
 
   // ✅ allow empty amount while editing
   const form = useForm<ParsedTransaction>({
@@ -45,6 +89,8 @@ function TransactionPage() {
       currency: user?.currency_code || 'USD',
       confidence: 1,
       account_id: '',
+      to_account_id: undefined,
+      to_amount: undefined,
       category_id: undefined,
       subcategory_id: undefined,
       note: '',
@@ -56,8 +102,12 @@ function TransactionPage() {
     mode: 'onChange',
   });
 
-  const { watch, setValue, handleSubmit, reset, formState, register } = form;
+  const { watch, setValue, getValues, handleSubmit, reset, formState, register } = form;
 
+  const txType = watch('type');
+  const isTransfer = txType === 'transfer';
+  // saved transfers are updated through the API, which keeps their amount and accounts as they are
+  const lockTransfer = mode === 'edit' && isTransfer;
   const categoryId = watch('category_id');
   const subcategoryId = watch('subcategory_id');
 
@@ -101,33 +151,36 @@ function TransactionPage() {
       }));
   }, [subcategories, categoryId]);
 
-  // Load initial data
+  // Reference data failed to load
+  useEffect(() => {
+    if (accountsQuery.isError || categoriesQuery.isError || subcategoriesQuery.isError) {
+      WebApp.showAlert('Failed to load transaction data');
+      setLoading(false);
+    }
+  }, [accountsQuery.isError, categoriesQuery.isError, subcategoriesQuery.isError, WebApp]);
+
+  // Fill the form once reference data is cached
   useEffect(() => {
-    if (!isReady || authLoading || !user) return;
+    if (!isReady || authLoading || !user || !referenceReady) return;
 
     const loadData = async () => {
       try {
-        const [accountsData, categoriesData, subcategoriesData] = await Promise.all([
-          apiClient.getAccounts(),
-          apiClient.getCategories(),
-          apiClient.getSubcategories(),
-        ]);
-
-        setAccounts(accountsData);
-        setCategories(categoriesData);
-        setSubcategories(subcategoriesData);
-
-        const defaultAccount = accountsData.find((a) => a.is_default) || accountsData[0];
+        const defaultAccount = accounts.find((a) => a.is_default) || accounts.find((a) => !a.is_archived);
+        const fallbackCurrency = user.currency_code || 'USD';
+        const currencyOf = (id?: string) =>
+          accountCurrency(accounts.find((a) => a.id === id) || defaultAccount, fallbackCurrency);
 
         if (mode === 'edit' && transactionId) {
           const transaction = await apiClient.getTransaction(transactionId);
           reset({
             type: transaction.type,
             amount: Math.abs(transaction.amount) || undefined, // ✅
-            currency: user.currency_code || transaction.currency_code,
+            currency: transaction.currency_code || currencyOf(transaction.account_id),
             category_id: transaction.category_id ?? undefined,
             subcategory_id: transaction.subcategory_id ?? undefined,
             account_id: transaction.account_id || defaultAccount?.id || '',
+            to_account_id: transaction.to_account_id ?? undefined,
+            to_amount: transaction.to_amount ?? undefined,
             note: transaction.note ?? '',
             performed_at: transaction.performed_at || transaction.created_at,
             confidence: 1,
@@ -140,10 +193,12 @@ function TransactionPage() {
           reset({
             type: parsedData.type || 'withdrawal',
             amount: parsedData.amount ? Math.abs(parsedData.amount) : undefined, // ✅
-            currency: user.currency_code || 'USD',
+            currency: currencyOf(parsedData.account_id),
             category_id: parsedData.category_id ?? undefined,
             subcategory_id: parsedData.subcategory_id ?? undefined,
             account_id: parsedData.account_id || defaultAccount?.id || '',
+            to_account_id: parsedData.to_account_id ?? undefined,
+            to_amount: parsedData.to_amount ?? undefined,
             note: parsedData.note ?? '',
             performed_at: parsedData.performed_at,
             confidence: parsedData.confidence || 1,
@@ -155,7 +210,7 @@ function TransactionPage() {
           reset((prev) => ({
             ...prev,
             account_id: defaultAccount?.id || '',
-            currency: user.currency_code || 'USD',
+            currency: currencyOf(defaultAccount?.id),
           }));
         }
       } catch (err) {
@@ -167,20 +222,249 @@ function TransactionPage() {
     };
 
     loadData();
-  }, [isReady, authLoading, user, mode, transactionId, dataParam, reset, WebApp]);
+    // accounts are read once per mode; later cache refreshes must not reset the form
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isReady, authLoading, user, referenceReady, mode, transactionId, dataParam, reset, WebApp]);
+
+  const clearReview = useCallback((field: ReviewField) => {
+    setReview((prev) => {
+      if (!prev.has(field)) return prev;
+      const next = new Set(prev);
+      next.delete(field);
+      return next;
+    });
+  }, []);
+
+  // typing into a highlighted field counts as reviewing it (setValue does not report 'change')
+  useEffect(() => {
+    const sub = watch((_, { name, type }) => {
+      if (type !== 'change') return;
+      if (name === 'amount' || name === 'original_amount') clearReview('amount');
+      if (name === 'note') clearReview('note');
+    });
+    return () => sub.unsubscribe();
+  }, [watch, clearReview]);
+
+  // Map a receipt/voice parse into the form; the amount stays in the account's currency
+  const applyMediaParse = useCallback(
+    (parsed: ParseImageView | ParseAudioView) => {
+      const unsure = (parsed.confidence ?? 0) < LOW_CONFIDENCE;
+      const flags = new Set<ReviewField>();
+      const dirty = { shouldDirty: true };
+
+      if ((parsed.type === 'withdrawal' || parsed.type === 'deposit') && getValues('type') !== 'transfer') {
+        setValue('type', parsed.type, dirty);
+      }
+
+      if (parsed.amount) {
+        const value = Math.abs(parsed.amount);
+        const foreign = parsed.currency && parsed.currency !== getValues('currency') ? parsed.currency : undefined;
+
+        if (foreign) {
+          // let AmountInput convert it: fx_rate gets prefilled for the new pair
+          const fx = getValues('original_currency') === foreign ? getValues('fx_rate') : undefined;
+          setValue('original_currency', foreign, dirty);
+          setValue('original_amount', value, dirty);
+          setValue('fx_rate', fx, dirty);
+          // without a rate yet, useMoneySync fills amount once fx_rate arrives
+          if (fx) setValue('amount', round2(value * fx), dirty);
+        } else {
+          setValue('original_currency', undefined, dirty);
+          setValue('original_amount', undefined, dirty);
+          setValue('fx_rate', undefined, dirty);
+          setValue('amount', value, dirty);
+        }
+        if (unsure) flags.add('amount');
+      } else {
+        flags.add('amount');
+      }
+
+      if (getValues('type') !== 'transfer') {
+        // the parser answers with the user's own ids; ignore any we don't know
+        const category = categories.find((c) => c.id === parsed.category_id);
+        const subcategory = subcategories.find(
+          (s) => s.id === parsed.subcategory_id && s.category_id === category?.id
+        );
+        if (category) {
+          setValue('category_id', category.id, dirty);
+          setValue('subcategory_id', subcategory?.id, dirty);
+        }
+        if (!category || unsure) flags.add('category');
+      }
+
+      if (parsed.note) {
+        setValue('note', parsed.note, dirty);
+        if (unsure) flags.add('note');
+      }
+
+      if (parsed.performed_at) setValue('performed_at', parsed.performed_at, dirty);
+
+      setValue('confidence', parsed.confidence ?? 1);
+      setReview(flags);
+    },
+    [categories, subcategories, getValues, setValue]
+  );
+
+  const runMediaParse = useCallback(
+    async (parse: () => Promise<ParseImageView | ParseAudioView>) => {
+      setMediaBusy(true);
+      try {
+        applyMediaParse(await parse());
+        WebApp.HapticFeedback.notificationOccurred('success');
+      } catch (err) {
+        console.error('Failed to parse media:', err);
+        WebApp.HapticFeedback.notificationOccurred('error');
+        WebApp.showAlert(t('transaction.media.failed'));
+      } finally {
+        setMediaBusy(false);
+      }
+    },
+    [applyMediaParse, WebApp, t]
+  );
 
   const validateBeforeSubmit = useCallback(
     (data: ParsedTransaction) => {
-      data.currency = user?.currency_code || data.currency || 'USD';
+      const account = accounts.find((a) => a.id === data.account_id);
+      data.currency = accountCurrency(account, user?.currency_code || data.currency || 'USD');
       if (data.amount == null || data.amount <= 0) {
         return { ok: false, msg: t('errors.invalidAmount') };
       }
       if (!data.account_id) {
         return { ok: false, msg: t('errors.selectAccount') };
       }
+      if (data.type === 'transfer') {
+        if (!data.to_account_id) {
+          return { ok: false, msg: t('errors.selectDestination') };
+        }
+        if (data.to_account_id === data.account_id) {
+          return { ok: false, msg: t('errors.sameAccount') };
+        }
+        if (data.to_amount != null && data.to_amount <= 0) {
+          return { ok: false, msg: t('errors.invalidAmount') };
+        }
+      }
       return { ok: true as const };
     },
-    [t, user]
+    [t, user, accounts]
+  );
+
+  /** Warning text when a new expense would take its budget past the limit; budget trouble never blocks saving */
+  const budgetWarning = useCallback(
+    async (data: ParsedTransaction): Promise<string | null> => {
+      if (mode !== 'create' || data.type !== 'withdrawal' || !data.category_id) return null;
+
+      const budgets = budgetsQuery.data ?? [];
+      const matching = budgets.filter(
+        (b) => b.category_id === data.category_id && (!b.subcategory_id || b.subcategory_id === data.subcategory_id)
+      );
+      if (matching.length === 0) return null;
+
+      try {
+        const performedAt = data.performed_at ? new Date(data.performed_at) : new Date();
+        // budgets are kept in the user's currency
+        const baseCurrency = user?.currency_code || 'USD';
+        let amount = Math.abs(data.amount!);
+        if (data.currency !== baseCurrency) {
+          const fx = await fxService.getRate(data.currency, baseCurrency, toDateKey(performedAt));
+          if (!fx) return null;
+          amount *= fx.rate;
+        }
+
+        const progress = await fetchBudgetProgress(queryClient, budgets, monthKey(performedAt));
+        const hit = progress.find((p) => matching.includes(p.budget) && p.spent + amount > p.limit);
+        if (!hit) return null;
+
+        const sub = hit.budget.subcategory_id ? subcategories.find((s) => s.id === hit.budget.subcategory_id) : undefined;
+        const name = sub?.name ?? categories.find((c) => c.id === hit.budget.category_id)?.name ?? '';
+        return t('budgets.overWarning', {
+          name,
+          total: formatCurrency(hit.spent + amount, baseCurrency, user?.language_code),
+          limit: formatCurrency(hit.limit, baseCurrency, user?.language_code),
+        });
+      } catch (err) {
+        console.error('Failed to check budgets:', err);
+        return null;
+      }
+    },
+    [mode, budgetsQuery.data, user, queryClient, categories, subcategories, t]
+  );
+
+  const toCreateRequest = useCallback(
+    (data: ParsedTransaction): CreateTransactionRequest => {
+      const isTransferTx = data.type === 'transfer';
+      return {
+        account_id: data.account_id!,
+        type: data.type,
+        amount: Math.abs(data.amount!),
+        currency_code: data.currency,
+        // transfers carry no category; to_amount only for cross-currency moves
+        to_account_id: isTransferTx ? data.to_account_id : undefined,
+        to_amount: isTransferTx && data.to_amount ? Math.abs(data.to_amount) : undefined,
+        category_id: isTransferTx ? undefined : data.category_id,
+        subcategory_id: isTransferTx ? undefined : data.subcategory_id,
+        note: data.note || undefined,
+        performed_at: data.performed_at || new Date().toISOString(),
+        original_amount: data.original_amount,
+        original_currency_code: data.original_currency,
+        fx_rate: data.fx_rate,
+      };
+    },
+    []
+  );
+
+  const toUpdateRequest = useCallback(
+    (data: ParsedTransaction): UpdateTransactionRequest => ({
+      category_id: data.type === 'transfer' ? undefined : data.category_id,
+      subcategory_id: data.type === 'transfer' ? undefined : data.subcategory_id,
+      note: data.note,
+      performed_at: data.performed_at,
+    }),
+    []
+  );
+
+  const enqueueOffline = useCallback(
+    async (data: ParsedTransaction) => {
+      if (mode === 'edit' && transactionId) {
+        await outboxService.enqueue({
+          kind: 'updateTransaction',
+          transaction_id: transactionId,
+          payload: toUpdateRequest(data),
+        });
+        return;
+      }
+
+      await outboxService.enqueue({ kind: 'createTransaction', payload: toCreateRequest(data) });
+    },
+    [mode, transactionId, toCreateRequest, toUpdateRequest]
+  );
+
+  // Standalone entries and transfers skip the bot (it only understands income/expense drafts)
+  const submitViaApi = useCallback(
+    async (data: ParsedTransaction): Promise<Transaction> => {
+      if (mode === 'edit' && transactionId) {
+        return apiClient.updateTransaction(transactionId, toUpdateRequest(data));
+      }
+      return apiClient.createTransaction(toCreateRequest(data));
+    },
+    [mode, transactionId, toCreateRequest, toUpdateRequest]
+  );
+
+  // Bot drafts close the MiniApp; standalone entries go back to history with the new row
+  const finish = useCallback(
+    (created?: Transaction) => {
+      if (!isStandalone) {
+        WebApp.close();
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: queryKeys.accounts });
+      queryClient.invalidateQueries({ queryKey: queryKeys.transactions });
+      queryClient.invalidateQueries({ queryKey: queryKeys.budgets });
+      navigate('/history', {
+        replace: true,
+        state: created ? { created: { id: created.id, performed_at: created.performed_at || created.created_at } } : null,
+      });
+    },
+    [isStandalone, WebApp, queryClient, navigate]
   );
 
   const onSubmit = useCallback(
@@ -191,13 +475,27 @@ function TransactionPage() {
         WebApp.showAlert(v.msg);
         return;
       }
-      if (!tgUser) {
-        WebApp.showAlert('No Telegram user data available');
-        return;
-      }
-
       WebApp.MainButton.showProgress();
       try {
+        const warning = await budgetWarning(data);
+        if (warning) {
+          WebApp.HapticFeedback.notificationOccurred('warning');
+          const proceed = await new Promise<boolean>((resolve) => WebApp.showConfirm(warning, resolve));
+          if (!proceed) return;
+        }
+
+        if (isStandalone || data.type === 'transfer') {
+          const saved = await submitViaApi(data);
+          WebApp.HapticFeedback.notificationOccurred('success');
+          finish(saved);
+          return;
+        }
+
+        if (!tgUser) {
+          WebApp.showAlert('No Telegram user data available');
+          return;
+        }
+
         const signedAmount = data.type === 'withdrawal' ? -Math.abs(data.amount!) : Math.abs(data.amount!);
 
         await botClient.updateTransaction({
@@ -211,13 +509,34 @@ function TransactionPage() {
           data: {
             ...data,
             amount: signedAmount,
-            currency: user?.currency_code || data.currency,
+            currency: data.currency,
           },
         });
 
         WebApp.HapticFeedback.notificationOccurred('success');
-        WebApp.close();
+        finish();
       } catch (err) {
+        // bot drafts stay with the bot: replaying them through the API would change how they're saved
+        const viaApi = isStandalone || data.type === 'transfer';
+        // a repeated update is harmless, so an unanswered one is queued as well
+        if (viaApi && (isNetworkError(err) || (mode === 'edit' && isUncertainDelivery(err)))) {
+          // keep the entry: replay through the API once we're back online
+          await enqueueOffline(data);
+          WebApp.HapticFeedback.notificationOccurred('warning');
+          WebApp.showAlert(t('transaction.savedOffline'));
+          finish();
+          return;
+        }
+        if (isUncertainDelivery(err)) {
+          WebApp.HapticFeedback.notificationOccurred('warning');
+          WebApp.showAlert(t('errors.maybeSaved'));
+          return;
+        }
+        if (isNetworkError(err)) {
+          WebApp.HapticFeedback.notificationOccurred('error');
+          WebApp.showAlert(t('transaction.offlineDraft'));
+          return;
+        }
         console.error('Failed to send data:', err);
         WebApp.HapticFeedback.notificationOccurred('error');
         WebApp.showAlert(t('errors.saveFailed'));
@@ -225,7 +544,7 @@ function TransactionPage() {
         WebApp.MainButton.hideProgress();
       }
     },
-    [WebApp, tgUser, user, t, validateBeforeSubmit]
+    [WebApp, tgUser, t, mode, isStandalone, validateBeforeSubmit, budgetWarning, enqueueOffline, submitViaApi, finish]
   );
 
   // MainButton - setup once and update state via subscription
@@ -251,29 +570,43 @@ function TransactionPage() {
   // Update button state based on form changes
   const amount = watch("amount");
   const accountId = watch("account_id");
+  const toAccountId = watch("to_account_id");
+  const currency = watch("currency");
+
+  const toCurrency = accountCurrency(
+    accounts.find((a) => a.id === toAccountId),
+    user?.currency_code || 'USD'
+  );
+  const isCrossCurrency = isTransfer && !!toAccountId && toCurrency !== currency;
 
+  // archived accounts stay selectable only where a transaction already uses them
+  const pickableAccounts = (selectedId?: string) =>
+    accounts.filter((a) => !a.is_archived || a.id === selectedId);
+
+  // amounts are entered in the selected account's currency
   useEffect(() => {
-    if (!isReady) return;
-    const canSubmit = (amount ?? 0) > 0 && !!accountId;
-    if (canSubmit) WebApp.MainButton.enable();
-    else WebApp.MainButton.disable();
-  }, [isReady, amount, accountId, WebApp]);
+    const account = accounts.find((a) => a.id === accountId);
+    if (!account) return;
+    const next = accountCurrency(account, user?.currency_code || 'USD');
+    if (next !== getValues('currency')) setValue('currency', next);
+  }, [accountId, accounts, user, getValues, setValue]);
 
-  // BackButton
+  // to_amount only makes sense when the destination holds another currency
   useEffect(() => {
-    if (!isReady) return;
-    WebApp.BackButton.show();
+    if (!isCrossCurrency && getValues('to_amount') !== undefined) setValue('to_amount', undefined);
+  }, [isCrossCurrency, getValues, setValue]);
 
-    const handleBack = () => {
-      WebApp.close();
-    };
+  useEffect(() => {
+    if (!isReady) return;
+    const canSubmit =
+      (amount ?? 0) > 0 && !!accountId && (!isTransfer || (!!toAccountId && toAccountId !== accountId));
+    if (canSubmit) WebApp.MainButton.enable();
+    else WebApp.MainButton.disable();
+  }, [isReady, amount, accountId, toAccountId, isTransfer, WebApp]);
 
-    WebApp.BackButton.onClick(handleBack);
-    return () => {
-      WebApp.BackButton.hide();
-      WebApp.BackButton.offClick(handleBack);
-    };
-  }, [isReady, mode, navigate, WebApp]);
+  // BackButton: bot drafts have nothing to go back to
+  const closeApp = useCallback(() => WebApp.close(), [WebApp]);
+  useBackButtonOverride(isStandalone ? undefined : closeApp);
 
   if (authLoading || loading) {
     return (
@@ -298,81 +631,166 @@ function TransactionPage() {
           <div className="max-w-md mx-auto px-4 py-4">
             <h1 className="text-2xl font-bold text-foreground">{mode === 'edit' ? t('transaction.edit') : t('transaction.new')}</h1>
             <p className="text-xs text-muted-foreground mt-1">
-              {t('transaction.currency')}: <span className="font-medium">{user?.currency_code}</span>
+              {t('transaction.currency')}: <span className="font-medium">{currency}</span>
             </p>
           </div>
         </div>
 
         <div className="max-w-md mx-auto px-4 py-6 space-y-4">
-          <TypeSelector />
-          <AmountInput />
-
-          <SearchableSelect
-            label={t('transaction.category')}
-            placeholder={t('transaction.selectCategory')}
-            icon={<Tag className="inline w-3 h-3 mr-1" />}
-            items={categoryItems}
-            value={categoryId}
-            onSelect={(id) => {
-              const newCatId = typeof id === 'number' ? id : undefined;
-              setValue('category_id', newCatId, { shouldDirty: true });
-              setValue('subcategory_id', undefined, { shouldDirty: true });
-            }}
-          />
-
-          <SearchableSelect
-            label={t('transaction.subcategory')}
-            placeholder={
-              categoryId
-                ? filteredSubcategoryItems.length > 0
-                  ? t('transaction.selectSubcategory')
-                  : t('transaction.noSubcategories')
-                : t('transaction.allSubcategories')
-            }
-            icon={<Tag className="inline w-3 h-3 mr-1" />}
-            items={categoryId ? filteredSubcategoryItems : allSubcategoryItems}
-            value={subcategoryId}
-            onSelect={(id) => {
-              const newSubId = typeof id === 'number' ? id : undefined;
-              setValue('subcategory_id', newSubId, { shouldDirty: true });
-
-              if (newSubId) {
-                const sub = subcategories.find((s) => s.id === newSubId);
-                if (sub && categoryId !== sub.category_id) {
-                  setValue('category_id', sub.category_id, { shouldDirty: true });
-                }
-              }
-            }}
-          />
-
-          {/* Account */}
-          <Card className="border-0 bg-card/50 backdrop-blur-sm">
-            <CardContent className="p-4">
-              <label className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-3 block">
-                <Wallet className="inline w-3 h-3 mr-1" />
-                {t('transaction.account')}
-              </label>
-
-              <select
-                {...register('account_id', { required: true })}
-                className={cn(
-                  'w-full px-4 py-3 bg-background rounded-xl border-2 transition-colors',
-                  'focus:outline-none focus:border-primary appearance-none cursor-pointer',
-                  formState.errors.account_id ? 'border-red-500' : 'border-transparent'
-                )}
-              >
-                <option value="">{t('transaction.selectAccount')}</option>
-                {accounts.map((acc) => (
-                  <option key={acc.id} value={acc.id}>
-                    {acc.is_default ? '⭐ ' : ''}
-                    {acc.name}
-                  </option>
-                ))}
-              </select>
-
-              {formState.errors.account_id ? <p className="text-xs text-red-500 mt-2">{t('errors.selectAccount')}</p> : null}
-            </CardContent>
-          </Card>
+          {mode === 'create' && mediaService.enabled && (
+            <MediaCaptureBar
+              busy={mediaBusy}
+              needsReview={review.size > 0}
+              onImage={(file) => runMediaParse(() => mediaService.parseReceipt(file))}
+              onVoice={(audio) => runMediaParse(() => mediaService.parseVoice(audio))}
+              onError={(err) => {
+                console.error('Failed to record voice:', err);
+                WebApp.showAlert(t('transaction.media.micUnavailable'));
+              }}
+            />
+          )}
+
+          {mode === 'edit' && (
+            <p className="text-xs text-muted-foreground px-1">
+              {isTransfer ? t('transaction.editLocked.transfer') : t('transaction.editLocked.type')}
+            </p>
+          )}
+
+          {/* the update endpoint only takes category, note and date: the type never changes after saving */}
+          <fieldset disabled={mode === 'edit'} className="min-w-0">
+            <TypeSelector />
+          </fieldset>
+
+          <fieldset disabled={lockTransfer} className="min-w-0 space-y-4">
+            <AmountInput highlighted={review.has('amount')} />
+
+            {!isTransfer && (
+              <>
+                <SearchableSelect
+                  label={t('transaction.category')}
+                  placeholder={t('transaction.selectCategory')}
+                  icon={<Tag className="inline w-3 h-3 mr-1" />}
+                  items={categoryItems}
+                  value={categoryId}
+                  highlighted={review.has('category')}
+                  onSelect={(id) => {
+                    clearReview('category');
+                    const newCatId = typeof id === 'number' ? id : undefined;
+                    setValue('category_id', newCatId, { shouldDirty: true });
+                    setValue('subcategory_id', undefined, { shouldDirty: true });
+                  }}
+                />
+
+                <SearchableSelect
+                  label={t('transaction.subcategory')}
+                  placeholder={
+                    categoryId
+                      ? filteredSubcategoryItems.length > 0
+                        ? t('transaction.selectSubcategory')
+                        : t('transaction.noSubcategories')
+                      : t('transaction.allSubcategories')
+                  }
+                  icon={<Tag className="inline w-3 h-3 mr-1" />}
+                  items={categoryId ? filteredSubcategoryItems : allSubcategoryItems}
+                  value={subcategoryId}
+                  onSelect={(id) => {
+                    const newSubId = typeof id === 'number' ? id : undefined;
+                    setValue('subcategory_id', newSubId, { shouldDirty: true });
+
+                    if (newSubId) {
+                      const sub = subcategories.find((s) => s.id === newSubId);
+                      if (sub && categoryId !== sub.category_id) {
+                        setValue('category_id', sub.category_id, { shouldDirty: true });
+                      }
+                    }
+                  }}
+                />
+              </>
+            )}
+
+            {/* Account */}
+            <Card className="border-0 bg-card/50 backdrop-blur-sm">
+              <CardContent className="p-4">
+                <label className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-3 block">
+                  <Wallet className="inline w-3 h-3 mr-1" />
+                  {isTransfer ? t('transaction.fromAccount') : t('transaction.account')}
+                </label>
+
+                <select
+                  {...register('account_id', { required: true })}
+                  className={cn(
+                    'w-full px-4 py-3 bg-background rounded-xl border-2 transition-colors',
+                    'focus:outline-none focus:border-primary appearance-none cursor-pointer',
+                    formState.errors.account_id ? 'border-red-500' : 'border-transparent'
+                  )}
+                >
+                  <option value="">{t('transaction.selectAccount')}</option>
+                  {pickableAccounts(accountId).map((acc) => (
+                    <option key={acc.id} value={acc.id}>
+                      {acc.is_default ? '⭐ ' : ''}
+                      {acc.name}
+                      {acc.currency_code ? ` (${acc.currency_code})` : ''}
+                    </option>
+                  ))}
+                </select>
+
+                {formState.errors.account_id ? <p className="text-xs text-red-500 mt-2">{t('errors.selectAccount')}</p> : null}
+              </CardContent>
+            </Card>
+
+            {/* Destination account (transfer only) */}
+            {isTransfer && (
+              <Card className="border-0 bg-card/50 backdrop-blur-sm">
+                <CardContent className="p-4 space-y-3">
+                  <label className="text-xs font-medium text-muted-foreground uppercase tracking-wide block">
+                    <ArrowRightLeft className="inline w-3 h-3 mr-1" />
+                    {t('transaction.toAccount')}
+                  </label>
+
+                  <select
+                    {...register('to_account_id', { setValueAs: (v) => v || undefined })}
+                    className={cn(
+                      'w-full px-4 py-3 bg-background rounded-xl border-2 transition-colors',
+                      'focus:outline-none focus:border-primary appearance-none cursor-pointer',
+                      toAccountId && toAccountId === accountId ? 'border-red-500' : 'border-transparent'
+                    )}
+                  >
+                    <option value="">{t('transaction.selectAccount')}</option>
+                    {pickableAccounts(toAccountId).map((acc) => (
+                      <option key={acc.id} value={acc.id} disabled={acc.id === accountId}>
+                        {acc.is_default ? '⭐ ' : ''}
+                        {acc.name}
+                        {acc.currency_code ? ` (${acc.currency_code})` : ''}
+                      </option>
+                    ))}
+                  </select>
+
+                  {toAccountId && toAccountId === accountId ? (
+                    <p className="text-xs text-red-500">{t('errors.sameAccount')}</p>
+                  ) : null}
+
+                  {isCrossCurrency && (
+                    <div>
+                      <label className="text-xs text-muted-foreground mb-1 block">
+                        {t('transaction.amountReceived')}, {toCurrency} ({t('common.optional')})
+                      </label>
+                      <input
+                        type="number"
+                        inputMode="decimal"
+                        step="any"
+                        min="0"
+                        {...register('to_amount', {
+                          setValueAs: (v) => (v === '' || v == null ? undefined : Number(v)),
+                        })}
+                        placeholder="0.00"
+                        className="w-full px-4 py-3 bg-background rounded-xl border-2 border-transparent focus:outline-none focus:border-primary tabular-nums"
+                      />
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+          </fieldset>
 
           {/* Note */}
           <Card className="border-0 bg-card/50 backdrop-blur-sm">
@@ -386,7 +804,10 @@ function TransactionPage() {
                 {...register('note')}
                 placeholder={t('transaction.notePlaceholder')}
                 rows={3}
-                className="w-full px-4 py-3 bg-background rounded-xl border-2 border-transparent focus:outline-none focus:border-primary resize-none"
+                className={cn(
+                  'w-full px-4 py-3 bg-background rounded-xl border-2 focus:outline-none focus:border-primary resize-none',
+                  review.has('note') ? 'border-amber-500/70' : 'border-transparent'
+                )}
               />
             </CardContent>
           </Card>
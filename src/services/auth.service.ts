@@ -1,12 +1,17 @@
 import axios from 'axios';
+import WebApp from '@twa-dev/sdk';
+import type { User } from '../core/types';
 
 const API_BASE_URL =
   import.meta.env.VITE_API_BASE_URL || 'https://api.kapusta.whereismy.city/api';
 
 const TOKEN_KEY = 'ewallet_token';
 
+type SessionExpiredListener = () => void;
+
 export class AuthService {
   private token: string | null = null;
+  private sessionExpiredListeners = new Set<SessionExpiredListener>();
 
   constructor() {
     this.token = localStorage.getItem(TOKEN_KEY);
@@ -31,7 +36,6 @@ export class AuthService {
   }
 
   /**
-   * BAD MODE:
    * ensureToken does NOT try to authenticate.
    * It only returns a token if it exists.
    */
@@ -43,23 +47,26 @@ export class AuthService {
   }
 
   /**
-   * BAD AUTH (TEMPORARY):
-   * Authenticate only using tg_user_id.
-   * WARNING: insecure if backend doesn't validate Telegram signature.
+   * Signed init data provided by Telegram when the MiniApp is opened.
+   * In browser dev mode there is no Telegram host, so VITE_DEV_INIT_DATA
+   * (an init data string captured from a real session) is used instead.
    */
-  async authenticateWithUserId(
-    userId: number,
-    userData: {
-      first_name: string;
-      last_name?: string;
-      username?: string;
-      language_code?: string;
+  getInitData(): string | null {
+    if (WebApp.initData) return WebApp.initData;
+    if (import.meta.env.DEV && import.meta.env.VITE_DEV_INIT_DATA) {
+      return import.meta.env.VITE_DEV_INIT_DATA;
     }
-  ): Promise<string> {
+    return null;
+  }
+
+  /**
+   * Authenticate with the raw WebApp.initData string.
+   * Backend validates the Telegram hash before issuing a token.
+   */
+  async authenticateWithInitData(initData: string): Promise<string> {
     try {
       const response = await axios.post(`${API_BASE_URL}/auth/telegram`, {
-        tg_user_id: userId,
-        ...userData,
+        init_data: initData,
       });
 
       const token = response.data.token;
@@ -73,16 +80,44 @@ export class AuthService {
     }
   }
 
+  /**
+   * Check a token against the backend before trusting it.
+   * Returns the user on success, null if the token is rejected.
+   */
+  async validateToken(token: string): Promise<User | null> {
+    try {
+      const response = await axios.get<User>(`${API_BASE_URL}/users/me`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      return response.data;
+    } catch (error) {
+      const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+      if (status === 401 || status === 403 || status === 404) return null;
+      throw error;
+    }
+  }
+
+  /**
+   * Fired by APIClient when a request stays unauthorized after re-auth.
+   */
+  onSessionExpired(listener: SessionExpiredListener): () => void {
+    this.sessionExpiredListeners.add(listener);
+    return () => {
+      this.sessionExpiredListeners.delete(listener);
+    };
+  }
+
+  notifySessionExpired() {
+    this.sessionExpiredListeners.forEach((listener) => listener());
+  }
+
   /**
    * Bot can open MiniApp with ?token=...
+   * The token is NOT stored until it has been validated.
    */
   getTokenFromURL(): string | null {
     const params = new URLSearchParams(window.location.search);
-    const token = params.get('token');
-    if (token) {
-      this.setToken(token);
-    }
-    return token;
+    return params.get('token');
   }
 }
 
@@ -0,0 +1,92 @@
+import WebApp from '@twa-dev/sdk';
+
+// Telegram keeps at most 1024 keys of 4096 chars each per user and bot
+const MAX_VALUE_LENGTH = 4096;
+const LOCAL_PREFIX = 'ewallet_cloud_';
+
+interface KeyValueStore {
+  keys(): Promise<string[]>;
+  getItems(keys: string[]): Promise<Record<string, string>>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+function settle<T>(resolve: (v: T) => void, reject: (e: Error) => void) {
+  return (error: string | null, result?: T) => (error ? reject(new Error(error)) : resolve(result as T));
+}
+
+const telegramStore: KeyValueStore = {
+  keys: () => new Promise((resolve, reject) => WebApp.CloudStorage.getKeys(settle(resolve, reject))),
+  getItems: (keys) =>
+    keys.length
+      ? new Promise((resolve, reject) => WebApp.CloudStorage.getItems(keys, settle(resolve, reject)))
+      : Promise.resolve({}),
+  setItem: (key, value) =>
+    new Promise((resolve, reject) =>
+      WebApp.CloudStorage.setItem(key, value, settle(() => resolve(), reject))
+    ),
+  removeItem: (key) =>
+    new Promise((resolve, reject) => WebApp.CloudStorage.removeItem(key, settle(() => resolve(), reject))),
+};
+
+// outside Telegram (vite dev in a browser) the data only lives in this browser
+const localStore: KeyValueStore = {
+  keys: async () =>
+    Object.keys(localStorage)
+      .filter((k) => k.startsWith(LOCAL_PREFIX))
+      .map((k) => k.slice(LOCAL_PREFIX.length)),
+  getItems: async (keys) =>
+    Object.fromEntries(keys.map((k) => [k, localStorage.getItem(LOCAL_PREFIX + k) ?? ''])),
+  setItem: async (key, value) => localStorage.setItem(LOCAL_PREFIX + key, value),
+  removeItem: async (key) => localStorage.removeItem(LOCAL_PREFIX + key),
+};
+
+function backend(): KeyValueStore {
+  return WebApp.initData && WebApp.isVersionAtLeast('6.9') ? telegramStore : localStore;
+}
+
+/**
+ * Records the API has no endpoints for, kept in Telegram CloudStorage so they follow the
+ * user across devices. One key per record (`<prefix>_<id>`) to stay under the value limit.
+ */
+export class CloudCollection<T extends { id: string }> {
+  private prefix: string;
+
+  constructor(prefix: string) {
+    this.prefix = `${prefix}_`;
+  }
+
+  async list(): Promise<T[]> {
+    const store = backend();
+    const keys = (await store.keys()).filter((k) => k.startsWith(this.prefix));
+    const items = await store.getItems(keys);
+
+    const out: T[] = [];
+    for (const key of keys) {
+      try {
+        if (items[key]) out.push(JSON.parse(items[key]));
+      } catch (error) {
+        console.error(`Skipping unreadable ${key}:`, error);
+      }
+    }
+    return out;
+  }
+
+  async get(id: string): Promise<T> {
+    const key = this.prefix + id;
+    const value = (await backend().getItems([key]))[key];
+    if (!value) throw new Error(`${key} not found`);
+    return JSON.parse(value);
+  }
+
+  async put(record: T): Promise<T> {
+    const value = JSON.stringify(record);
+    if (value.length > MAX_VALUE_LENGTH) throw new Error(`${this.prefix}${record.id} is too large to store`);
+    await backend().setItem(this.prefix + record.id, value);
+    return record;
+  }
+
+  async remove(id: string): Promise<void> {
+    await backend().removeItem(this.prefix + id);
+  }
+}
@@ -0,0 +1,130 @@
+import WebApp from '@twa-dev/sdk';
+import type { TFunction } from 'i18next';
+import { apiClient } from '../api/client';
+import { toCSV, toXLSX, type ExportTable } from '../lib/export';
+import { convertToTimezone } from '../lib/formatters';
+import type { Account, Category, Subcategory, Transaction } from '../core/types';
+import type { TransactionsQuery } from '../hooks/useInfiniteTransactions';
+
+const PAGE_SIZE = 200;
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+const MIME: Record<ExportFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+export type ExportLookups = {
+  categoryById: Map<number, Category>;
+  subcategoryById: Map<number, Subcategory>;
+  accountById: Map<string, Account>;
+  timezone?: string;
+};
+
+export class ExportService {
+  /** Page through every transaction matching the history filters */
+  async fetchAll(query: TransactionsQuery, onProgress?: (loaded: number, total: number) => void) {
+    const items: Transaction[] = [];
+    let offset = 0;
+
+    for (;;) {
+      const res = await apiClient.getTransactions({
+        ...query,
+        limit: PAGE_SIZE,
+        offset,
+        search: query.search?.trim() ? query.search.trim() : undefined,
+        category_ids: query.category_ids?.length ? query.category_ids : undefined,
+        subcategory_ids: query.subcategory_ids?.length ? query.subcategory_ids : undefined,
+        account_ids: query.account_ids?.length ? query.account_ids : undefined,
+      });
+
+      items.push(...res.items);
+      offset += res.items.length;
+      onProgress?.(items.length, res.pagination?.total ?? items.length);
+
+      if (res.items.length < PAGE_SIZE || offset >= (res.pagination?.total ?? Infinity)) break;
+    }
+
+    return items;
+  }
+
+  buildTable(transactions: Transaction[], lookups: ExportLookups, t: TFunction): ExportTable {
+    const typeLabel = (type: Transaction['type']) =>
+      ({
+        deposit: t('transaction.income'),
+        withdrawal: t('transaction.expense'),
+        transfer: t('transaction.transfer'),
+        adjustment: t('transaction.adjustment'),
+      })[type] ?? type;
+
+    return {
+      headers: [
+        t('export.columns.date'),
+        t('export.columns.type'),
+        t('export.columns.amount'),
+        t('export.columns.currency'),
+        t('export.columns.account'),
+        t('export.columns.toAccount'),
+        t('export.columns.category'),
+        t('export.columns.subcategory'),
+        t('export.columns.note'),
+        t('export.columns.originalAmount'),
+        t('export.columns.originalCurrency'),
+        t('export.columns.fxRate'),
+        t('export.columns.id'),
+      ],
+      rows: transactions.map((tx) => [
+        // wall time in the user's timezone, sortable as text
+        convertToTimezone(tx.performed_at || tx.created_at, lookups.timezone).toISOString().slice(0, 16).replace('T', ' '),
+        typeLabel(tx.type),
+        tx.amount,
+        tx.currency_code,
+        lookups.accountById.get(tx.account_id)?.name,
+        tx.to_account_id ? lookups.accountById.get(tx.to_account_id)?.name : undefined,
+        tx.category_id ? lookups.categoryById.get(tx.category_id)?.name : undefined,
+        tx.subcategory_id ? lookups.subcategoryById.get(tx.subcategory_id)?.name : undefined,
+        tx.note,
+        tx.original_amount,
+        tx.original_currency_code,
+        tx.fx_rate,
+        tx.id,
+      ]),
+    };
+  }
+
+  toBlob(table: ExportTable, format: ExportFormat, sheetName?: string): Blob {
+    const content = format === 'csv' ? toCSV(table) : toXLSX(table, sheetName);
+    return new Blob([content], { type: MIME[format] });
+  }
+
+  /**
+   * Telegram (Bot API 8.0+) can only download from an https URL, so with VITE_EXPORT_UPLOAD=backend
+   * the file is uploaded to POST /exports first. Otherwise, and when the upload fails, a Blob link.
+   */
+  async deliver(blob: Blob, fileName: string): Promise<'telegram' | 'cancelled' | 'browser'> {
+    if (import.meta.env.VITE_EXPORT_UPLOAD === 'backend' && WebApp.initData && WebApp.isVersionAtLeast('8.0')) {
+      try {
+        const { url } = await apiClient.uploadExport(blob, fileName);
+        const accepted = await new Promise<boolean>((resolve) =>
+          WebApp.downloadFile({ url, file_name: fileName }, (ok) => resolve(!!ok))
+        );
+        return accepted ? 'telegram' : 'cancelled';
+      } catch (error) {
+        console.error('Telegram download failed, falling back to Blob:', error);
+      }
+    }
+
+    const href = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = href;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    setTimeout(() => URL.revokeObjectURL(href), 30_000);
+    return 'browser';
+  }
+}
+
+export const exportService = new ExportService();
@@ -0,0 +1,165 @@
+import { apiClient } from '../api/client';
+import { queryClient } from '../api/queryClient';
+import localRates from '../lib/fx-rates.json';
+
+const CACHE_KEY = 'ewallet_fx_cache';
+const MANUAL_KEY = 'ewallet_fx_manual';
+// oldest quotes are dropped past this many entries
+const MAX_CACHE_ENTRIES = 300;
+
+export type FxRateSource = 'manual' | 'local' | 'backend';
+
+export type FxRate = {
+  from: string;
+  to: string;
+  rate: number; // 1 `from` = rate `to`, same meaning as Transaction.fx_rate
+  date: string; // YYYY-MM-DD the rate is quoted for
+  source: FxRateSource;
+};
+
+/**
+ * Anything that can quote a rate for a currency pair on a given day.
+ * Returns null when it has nothing for the pair, so the next provider is tried.
+ */
+export interface FxRateProvider {
+  readonly source: FxRateSource;
+  getRate(from: string, to: string, date: string): Promise<FxRate | null>;
+}
+
+function readJSON<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+/** Rates bundled with the app (USD based), works fully offline */
+export class LocalFxRateProvider implements FxRateProvider {
+  readonly source = 'local' as const;
+
+  async getRate(from: string, to: string): Promise<FxRate | null> {
+    const rates: Record<string, number> = localRates.rates;
+    const fromPerBase = rates[from];
+    const toPerBase = rates[to];
+    if (!fromPerBase || !toPerBase) return null;
+
+    return { from, to, rate: toPerBase / fromPerBase, date: localRates.as_of, source: this.source };
+  }
+}
+
+/**
+ * Rates the user typed in AmountInput, remembered per pair.
+ * The latest entry on or before the requested date wins.
+ */
+export class ManualFxRateProvider implements FxRateProvider {
+  readonly source = 'manual' as const;
+
+  async getRate(from: string, to: string, date: string): Promise<FxRate | null> {
+    const entries = readJSON<Record<string, Record<string, number>>>(MANUAL_KEY, {})[`${from}_${to}`];
+    if (!entries) return null;
+
+    const day = Object.keys(entries)
+      .filter((d) => d <= date)
+      .sort()
+      .pop();
+    if (!day) return null;
+
+    return { from, to, rate: entries[day], date: day, source: this.source };
+  }
+
+  save(from: string, to: string, date: string, rate: number) {
+    const all = readJSON<Record<string, Record<string, number>>>(MANUAL_KEY, {});
+    const pair = `${from}_${to}`;
+    all[pair] = { ...all[pair], [date]: rate };
+    localStorage.setItem(MANUAL_KEY, JSON.stringify(all));
+  }
+}
+
+/** GET /fx/rates - enabled with VITE_FX_PROVIDER=backend */
+export class BackendFxRateProvider implements FxRateProvider {
+  readonly source = 'backend' as const;
+
+  async getRate(from: string, to: string, date: string): Promise<FxRate | null> {
+    try {
+      const res = await apiClient.getFxRate({ from, to, date });
+      if (!res.rate) return null;
+      return { from, to, rate: res.rate, date: res.date || date, source: this.source };
+    } catch (error) {
+      console.error('Failed to fetch FX rate:', error);
+      return null;
+    }
+  }
+}
+
+export class FxService {
+  private providers: FxRateProvider[];
+  private manual: ManualFxRateProvider;
+  private cache: Record<string, FxRate>;
+
+  constructor(providers: FxRateProvider[], manual: ManualFxRateProvider) {
+    this.providers = providers;
+    this.manual = manual;
+    // bundled quotes have no history, so they were never worth keeping per day
+    this.cache = Object.fromEntries(
+      Object.entries(readJSON<Record<string, FxRate>>(CACHE_KEY, {})).filter(([, r]) => r.source !== 'local')
+    );
+  }
+
+  /**
+   * Rate for converting `from` into `to` on `date` (YYYY-MM-DD).
+   * A manual rate typed for that very day wins; an older manual rate is only used when no
+   * provider has a quote. Dated provider quotes are cached per day. The bundled table is
+   * one snapshot, so it's never cached as if it were that day's rate.
+   */
+  async getRate(from: string, to: string, date: string): Promise<FxRate | null> {
+    if (from === to) return { from, to, rate: 1, date, source: 'local' };
+
+    const manual = await this.manual.getRate(from, to, date);
+    if (manual?.date === date) return manual;
+
+    const key = `${from}_${to}_${date}`;
+    if (this.cache[key]) return this.cache[key];
+
+    for (const provider of this.providers) {
+      const rate = await provider.getRate(from, to, date);
+      if (!rate) continue;
+      if (rate.source !== 'local') {
+        this.cache[key] = rate;
+        this.persist();
+      }
+      return rate;
+    }
+
+    // an older manual rate still beats nothing
+    return manual;
+  }
+
+  saveManualRate(from: string, to: string, date: string, rate: number) {
+    if (!(rate > 0)) return;
+    this.manual.save(from, to, date, rate);
+    queryClient.invalidateQueries({ queryKey: ['fx', from, to] });
+  }
+
+  private persist() {
+    const keys = Object.keys(this.cache);
+    for (const key of keys.slice(0, Math.max(0, keys.length - MAX_CACHE_ENTRIES))) {
+      delete this.cache[key];
+    }
+    try {
+      localStorage.setItem(CACHE_KEY, JSON.stringify(this.cache));
+    } catch (error) {
+      console.error('Failed to persist FX cache:', error);
+    }
+  }
+}
+
+function createProviders(): FxRateProvider[] {
+  const providers: FxRateProvider[] = [];
+  if (import.meta.env.VITE_FX_PROVIDER === 'backend') providers.push(new BackendFxRateProvider());
+  providers.push(new LocalFxRateProvider());
+  return providers;
+}
+
+export const fxService = new FxService(createProviders(), new ManualFxRateProvider());
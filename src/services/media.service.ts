@@ -0,0 +1,75 @@
+import axios from 'axios';
+
+import { apiClient } from '../api/client';
+import type { ParseAudioView, ParseImageView } from '../core/types';
+
+/** Somewhere the parse endpoints can download the captured media from */
+export interface MediaStorage {
+  upload(file: Blob, fileName: string): Promise<string>;
+}
+
+/**
+ * POSTs the file as multipart `file` to a separate store and expects `{ url }` back.
+ * The store may be third-party, so the session token is never sent to it.
+ * Relative URLs (the dev stub) are resolved against the app origin.
+ */
+export class HttpMediaStorage implements MediaStorage {
+  private endpoint: string;
+
+  constructor(endpoint: string) {
+    this.endpoint = endpoint;
+  }
+
+  async upload(file: Blob, fileName: string): Promise<string> {
+    const form = new FormData();
+    form.append('file', file, fileName);
+
+    const res = await axios.post<{ url: string }>(this.endpoint, form, { timeout: 60000 });
+    if (!res.data?.url) throw new Error('Media upload returned no url');
+
+    return new URL(res.data.url, window.location.href).toString();
+  }
+}
+
+// the API has no media store: uploads go to VITE_MEDIA_UPLOAD_URL, or the in-memory stub `vite dev` serves
+function resolveStorage(): MediaStorage | null {
+  if (import.meta.env.VITE_MEDIA_UPLOAD_URL) return new HttpMediaStorage(import.meta.env.VITE_MEDIA_UPLOAD_URL);
+  if (import.meta.env.DEV) return new HttpMediaStorage('/__media');
+  return null;
+}
+
+function extensionOf(type: string, fallback: string): string {
+  const sub = type.split(';')[0].split('/')[1];
+  return sub ? sub.replace('jpeg', 'jpg').replace('x-m4a', 'm4a') : fallback;
+}
+
+export class MediaService {
+  private storage: MediaStorage | null;
+
+  constructor(storage: MediaStorage | null) {
+    this.storage = storage;
+  }
+
+  /** Receipt and voice capture need somewhere to upload to */
+  get enabled(): boolean {
+    return this.storage !== null;
+  }
+
+  async parseReceipt(image: Blob): Promise<ParseImageView> {
+    const name = image instanceof File && image.name ? image.name : `receipt-${Date.now()}.${extensionOf(image.type, 'jpg')}`;
+    const imageUrl = await this.upload(image, name);
+    return apiClient.parseImage({ image_url: imageUrl });
+  }
+
+  async parseVoice(audio: Blob): Promise<ParseAudioView> {
+    const fileUrl = await this.upload(audio, `voice-${Date.now()}.${extensionOf(audio.type, 'webm')}`);
+    return apiClient.parseVoice({ file_url: fileUrl });
+  }
+
+  private upload(file: Blob, fileName: string): Promise<string> {
+    if (!this.storage) throw new Error('Media upload is not configured: set VITE_MEDIA_UPLOAD_URL');
+    return this.storage.upload(file, fileName);
+  }
+}
+
+export const mediaService = new MediaService(resolveStorage());
@@ -0,0 +1,231 @@
+import axios from 'axios';
+import { apiClient } from '../api/client';
+import { queryClient, queryKeys } from '../api/queryClient';
+import { idbDelete, idbGetAll, idbPut } from '../lib/idb';
+import type { CreateDebtRequest, CreateTransactionRequest, UpdateTransactionRequest } from '../core/types';
+
+const STORE = 'outbox';
+
+// Retry policy: exponential backoff capped at 5 min, give up after MAX_ATTEMPTS
+const RETRY_BASE_MS = 2000;
+const RETRY_MAX_MS = 5 * 60 * 1000;
+const MAX_ATTEMPTS = 8;
+
+export type OutboxOperation =
+  | { kind: 'createTransaction'; payload: CreateTransactionRequest }
+  | { kind: 'updateTransaction'; transaction_id: string; payload: UpdateTransactionRequest }
+  | { kind: 'createDebt'; payload: CreateDebtRequest; amount?: number };
+
+export type OutboxItem = OutboxOperation & {
+  // local only: the API has no idempotency key, so creates are never replayed blindly (see isUncertainDelivery)
+  id: string;
+  status: 'pending' | 'failed';
+  attempts: number;
+  created_at: string;
+  next_attempt_at: number;
+  last_error?: string;
+  // the last attempt got no answer, so it may already be on the server; the user decides
+  uncertain?: boolean;
+};
+
+type Listener = () => void;
+
+// no answer in time: the request went out and may well have been applied
+const TIMEOUT_CODES = ['ECONNABORTED', 'ETIMEDOUT'];
+
+/**
+ * True when the request never reached the backend (offline, DNS, refused connection).
+ * Only these are worth queueing - validation errors would fail again on replay.
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  return axios.isAxiosError(error) && !error.response && !TIMEOUT_CODES.includes(error.code ?? '');
+}
+
+/**
+ * True when the request was sent but no answer came back. A create may have landed,
+ * so it must not be queued or replayed without asking the user.
+ */
+export function isUncertainDelivery(error: unknown): boolean {
+  return axios.isAxiosError(error) && !error.response && TIMEOUT_CODES.includes(error.code ?? '');
+}
+
+function isRetryable(error: unknown): boolean {
+  if (isNetworkError(error)) return true;
+  const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+  return status === undefined || status === 408 || status === 429 || status >= 500;
+}
+
+function backoff(attempts: number) {
+  return Math.min(RETRY_BASE_MS * 2 ** attempts, RETRY_MAX_MS);
+}
+
+export class OutboxService {
+  private items: OutboxItem[] = [];
+  private listeners = new Set<Listener>();
+  private initPromise: Promise<void> | null = null;
+  private flushing = false;
+  // replaying needs a session; the queue itself is loaded before auth (e.g. opened offline)
+  private canFlush = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Load persisted items and watch for connectivity. Replay waits for start().
+   * Safe to call more than once.
+   */
+  init(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = (async () => {
+        try {
+          const stored = await idbGetAll<OutboxItem>(STORE);
+          this.items = stored.sort((a, b) => a.created_at.localeCompare(b.created_at));
+          this.emit();
+        } catch (error) {
+          console.error('Failed to load outbox:', error);
+        }
+
+        window.addEventListener('online', () => this.flush());
+        this.flush();
+      })();
+    }
+    return this.initPromise;
+  }
+
+  /** Allow replaying (once authenticated) and flush whatever is due */
+  async start() {
+    this.canFlush = true;
+    await this.init();
+    this.flush();
+  }
+
+  getItems(): OutboxItem[] {
+    return this.items;
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async enqueue(operation: OutboxOperation): Promise<OutboxItem> {
+    const item = {
+      ...operation,
+      id: crypto.randomUUID(),
+      status: 'pending',
+      attempts: 0,
+      created_at: new Date().toISOString(),
+      next_attempt_at: Date.now(),
+    } as OutboxItem;
+
+    await this.save(item);
+    this.schedule();
+    return item;
+  }
+
+  async retry(id: string) {
+    const item = this.items.find((it) => it.id === id);
+    if (!item) return;
+    await this.save({ ...item, status: 'pending', attempts: 0, uncertain: false, next_attempt_at: Date.now() });
+    this.flush();
+  }
+
+  async discard(id: string) {
+    await idbDelete(STORE, id);
+    this.items = this.items.filter((it) => it.id !== id);
+    this.emit();
+  }
+
+  /**
+   * Replay due items in order. Stops at the first network error
+   * (still offline) and reschedules itself for the next due item.
+   */
+  async flush() {
+    if (this.flushing || !this.canFlush) return;
+    if (typeof navigator !== 'undefined' && !navigator.onLine) return;
+
+    this.flushing = true;
+    let synced = false;
+
+    try {
+      const due = this.items.filter((it) => it.status === 'pending' && it.next_attempt_at <= Date.now());
+
+      for (const item of due) {
+        try {
+          await this.send(item);
+          await idbDelete(STORE, item.id);
+          this.items = this.items.filter((it) => it.id !== item.id);
+          this.emit();
+          synced = true;
+        } catch (error) {
+          const attempts = item.attempts + 1;
+          // an update is a PUT and safe to repeat; a create that got no answer waits for the user
+          const uncertain = item.kind !== 'updateTransaction' && isUncertainDelivery(error);
+          const giveUp = uncertain || !isRetryable(error) || attempts >= MAX_ATTEMPTS;
+
+          await this.save({
+            ...item,
+            attempts,
+            uncertain,
+            status: giveUp ? 'failed' : 'pending',
+            next_attempt_at: Date.now() + backoff(attempts),
+            last_error: error instanceof Error ? error.message : String(error),
+          });
+
+          if (isNetworkError(error)) break;
+        }
+      }
+    } finally {
+      this.flushing = false;
+    }
+
+    if (synced) {
+      queryClient.invalidateQueries({ queryKey: queryKeys.transactions });
+      queryClient.invalidateQueries({ queryKey: queryKeys.budgets });
+      queryClient.invalidateQueries({ queryKey: queryKeys.accounts });
+      queryClient.invalidateQueries({ queryKey: queryKeys.debts });
+    }
+
+    this.schedule();
+  }
+
+  private async send(item: OutboxItem) {
+    switch (item.kind) {
+      case 'createTransaction':
+        await apiClient.createTransaction(item.payload);
+        return;
+      case 'updateTransaction':
+        await apiClient.updateTransaction(item.transaction_id, item.payload);
+        return;
+      case 'createDebt':
+        await apiClient.createDebt(item.payload, item.amount);
+        return;
+    }
+  }
+
+  private async save(item: OutboxItem) {
+    await idbPut(STORE, item);
+    const exists = this.items.some((it) => it.id === item.id);
+    this.items = exists ? this.items.map((it) => (it.id === item.id ? item : it)) : [...this.items, item];
+    this.emit();
+  }
+
+  private schedule() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+
+    const next = this.items
+      .filter((it) => it.status === 'pending')
+      .reduce((min, it) => Math.min(min, it.next_attempt_at), Infinity);
+    if (next === Infinity) return;
+
+    this.timer = setTimeout(() => this.flush(), Math.max(0, next - Date.now()));
+  }
+
+  private emit() {
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const outboxService = new OutboxService();
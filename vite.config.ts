@@ -1,10 +1,59 @@
 import path from "path"
-import { defineConfig } from 'vite'
+import { randomUUID } from "crypto"
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+// Dev stand-in for the media storage (see media.service.ts): keeps uploads in memory
+// and serves them back. The parse backend must be able to reach this server (e.g. a tunnel).
+function mediaStub(): Plugin {
+  const files = new Map<string, { type: string; body: Buffer }>()
+
+  return {
+    name: 'media-stub',
+    apply: 'serve',
+    configureServer(server) {
+      server.middlewares.use('/__media', (req, res) => {
+        if (req.method === 'GET') {
+          const file = files.get((req.url || '').replace(/^\//, ''))
+          if (!file) {
+            res.statusCode = 404
+            res.end()
+            return
+          }
+          res.setHeader('Content-Type', file.type)
+          res.end(file.body)
+          return
+        }
+
+        const chunks: Buffer[] = []
+        req.on('data', (chunk: Buffer) => chunks.push(chunk))
+        req.on('end', async () => {
+          try {
+            const form = await new Request('http://stub', {
+              method: 'POST',
+              headers: { 'content-type': req.headers['content-type'] || '' },
+              body: Buffer.concat(chunks),
+            }).formData()
+            const file = form.get('file')
+            if (!(file instanceof Blob)) throw new Error('missing file')
+
+            const id = randomUUID()
+            files.set(id, { type: file.type || 'application/octet-stream', body: Buffer.from(await file.arrayBuffer()) })
+            res.setHeader('Content-Type', 'application/json')
+            res.end(JSON.stringify({ url: `/__media/${id}` }))
+          } catch (error) {
+            res.statusCode = 400
+            res.end(String(error))
+          }
+        })
+      })
+    },
+  }
+}
+
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), mediaStub()],
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),